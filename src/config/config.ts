@@ -1,6 +1,10 @@
 import { config } from 'dotenv';
-import { AppConfig, PlatformConfig, MatcherConfig } from '../types/index.js';
+import { existsSync, readFileSync } from 'fs';
+import { AppConfig, PlatformConfig, MatcherConfig, FuzzyMatchConfig, SemanticConfig, ScheduleConfig, CampaignConfig, SuppressConfig, EngagementConfig, EngagementAction } from '../types/index.js';
 import { CookieLoader } from '../utils/cookie-loader.js';
+import { parseQuery, collectQueryTerms } from '../matchers/query-parser.js';
+import { getPipelineMatchers } from '../matchers/match-pipeline.js';
+import { isValidTimeZone, parseTimeOfDay, parseWeekdays } from '../utils/zoned-time.js';
 
 config();
 
@@ -8,8 +12,8 @@ export class ConfigManager {
   private static instance: ConfigManager;
   private appConfig: AppConfig;
 
-  private constructor() {
-    this.appConfig = this.loadConfig();
+  private constructor(offline: boolean = false) {
+    this.appConfig = this.loadConfig(offline);
   }
 
   public static getInstance(): ConfigManager {
@@ -19,13 +23,20 @@ export class ConfigManager {
     return ConfigManager.instance;
   }
 
-  private loadConfig(): AppConfig {
+  /**
+   * 供离线工具使用的配置，不加载平台 Cookie
+   */
+  public static getOfflineInstance(): ConfigManager {
+    return new ConfigManager(true);
+  }
+
+  private loadConfig(offline: boolean = false): AppConfig {
     const platformType = (process.env.PLATFORM as any) || 'bilibili';
     
     return {
       // 平台配置
       platformType,
-      platform: this.loadPlatformConfig(platformType),
+      platform: this.loadPlatformConfig(platformType, offline),
       matcher: this.loadMatcherConfig(),
       
       // 基础配置
@@ -55,6 +66,16 @@ export class ConfigManager {
       
       // 高级配置
       maxVideosPerSession: parseInt(process.env.MAX_VIDEOS_PER_SESSION || '1000'),
+      maxWatchMinutes: parseInt(process.env.MAX_WATCH_MINUTES || '0'),
+      maxSessionMinutes: parseInt(process.env.MAX_SESSION_MINUTES || '0'),
+      maxEmptyRounds: parseInt(process.env.MAX_EMPTY_ROUNDS || '0'),
+      drainTimeout: parseInt(process.env.DRAIN_TIMEOUT || '300'),
+      
+      // 定时调度配置
+      schedule: this.loadScheduleConfig(),
+      
+      // 投放计划配置
+      campaigns: this.loadCampaignConfig(),
       historyCleanupDays: parseInt(process.env.HISTORY_CLEANUP_DAYS || '30'),
       retryAttempts: parseInt(process.env.RETRY_ATTEMPTS || '3'),
       
@@ -62,6 +83,27 @@ export class ConfigManager {
       enableActiveSearch: process.env.ENABLE_ACTIVE_SEARCH !== 'false',
       activeSearchThreshold: parseInt(process.env.ACTIVE_SEARCH_THRESHOLD || '10'),
       activeSearchStrategy: (process.env.ACTIVE_SEARCH_STRATEGY as any) || 'random',
+      activeSearchRewardRounds: parseInt(process.env.ACTIVE_SEARCH_REWARD_ROUNDS || '3'),
+      activeSearchExploration: parseFloat(process.env.ACTIVE_SEARCH_EXPLORATION || '1'),
+      
+      // 自适应视频源配置
+      adaptiveVideoSource: process.env.ADAPTIVE_VIDEO_SOURCE === 'true',
+      videoSources: process.env.VIDEO_SOURCES ? this.parseList(process.env.VIDEO_SOURCES) as any : undefined,
+      sourceWindow: parseInt(process.env.SOURCE_WINDOW || '10'),
+      sourceExploration: parseFloat(process.env.SOURCE_EXPLORATION || '0.1'),
+      
+      // 相关视频链配置
+      relatedChainDepth: parseInt(process.env.RELATED_CHAIN_DEPTH || '0'),
+      relatedChainBreadth: parseInt(process.env.RELATED_CHAIN_BREADTH || '2'),
+      
+      // 推荐快照配置
+      feedSnapshots: process.env.FEED_SNAPSHOTS !== 'false',
+      
+      // 负反馈配置
+      suppress: this.loadSuppressConfig(),
+      
+      // 互动操作配置
+      engagement: this.loadEngagementConfig(),
       
       // 队列管理配置
       maxVideosPerQueue: parseInt(process.env.MAX_VIDEOS_PER_QUEUE || '5'),
@@ -76,10 +118,10 @@ export class ConfigManager {
     };
   }
 
-  private loadPlatformConfig(platformType: string): PlatformConfig {
+  private loadPlatformConfig(platformType: string, offline: boolean = false): PlatformConfig {
     const baseConfig = {
       name: platformType,
-      cookies: CookieLoader.loadCookie(platformType)
+      cookies: offline ? '' : CookieLoader.loadCookie(platformType)
     };
 
     switch (platformType) {
@@ -89,7 +131,8 @@ export class ConfigManager {
           baseUrl: 'https://www.bilibili.com',
           headers: {
             'User-Agent': process.env.USER_AGENT || 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/138.0.0.0 Safari/537.36'
-          }
+          },
+          feedPages: parseInt(process.env.BILIBILI_FEED_PAGES || '3')
         };
       
       case 'youtube':
@@ -116,13 +159,262 @@ export class ConfigManager {
   }
 
   private loadMatcherConfig(): MatcherConfig {
+    const type = (process.env.MATCHER_TYPE as any) || 'keyword';
+    const pipeline = this.loadPipeline();
+    const rawKeywords = process.env.TARGET_KEYWORDS || '';
+    const exclusions = {
+      excludeKeywords: this.parseList(process.env.EXCLUDE_KEYWORDS),
+      blockedAuthors: this.parseList(process.env.BLOCKED_AUTHORS),
+      blockedTags: this.parseList(process.env.BLOCKED_TAGS),
+      metadataFilter: {
+        minDuration: this.parseOptionalNumber(process.env.FILTER_MIN_DURATION),
+        maxDuration: this.parseOptionalNumber(process.env.FILTER_MAX_DURATION),
+        minViews: this.parseOptionalNumber(process.env.FILTER_MIN_VIEWS),
+        maxAgeDays: this.parseOptionalNumber(process.env.FILTER_MAX_AGE_DAYS),
+        requireThumbnail: process.env.FILTER_REQUIRE_THUMBNAIL === 'true'
+      }
+    };
+
+    if (type === 'boolean' || (pipeline && getPipelineMatchers(pipeline).includes('boolean'))) {
+      // 布尔表达式模式：整个 TARGET_KEYWORDS 作为表达式，正向关键词用于主动搜索和统计
+      return {
+        type,
+        expression: rawKeywords.trim(),
+        keywords: this.extractExpressionKeywords(rawKeywords),
+        matchMode: 'any',
+        caseSensitive: process.env.CASE_SENSITIVE === 'true',
+        normalizeText: process.env.NORMALIZE_TEXT !== 'false',
+        ...exclusions,
+        fuzzy: this.loadFuzzyConfig(),
+        semantic: this.loadSemanticConfig(),
+        pipeline
+      };
+    }
+
     return {
-      keywords: (process.env.TARGET_KEYWORDS || '').split(',').map(k => k.trim()).filter(k => k),
+      type,
+      keywords: this.parseList(rawKeywords),
       matchMode: (process.env.MATCH_MODE as any) || 'any',
-      caseSensitive: process.env.CASE_SENSITIVE === 'true'
+      caseSensitive: process.env.CASE_SENSITIVE === 'true',
+      normalizeText: process.env.NORMALIZE_TEXT !== 'false',
+      ...exclusions,
+      fuzzy: this.loadFuzzyConfig(),
+      semantic: this.loadSemanticConfig(),
+      pipeline,
+      scoring: {
+        keywordWeights: this.parseWeightMap(process.env.KEYWORD_WEIGHTS),
+        fieldWeights: this.parseWeightMap(process.env.FIELD_WEIGHTS),
+        authorAffinity: this.parseWeightMap(process.env.AUTHOR_AFFINITY),
+        freshnessHalfLifeDays: this.parseOptionalNumber(process.env.FRESHNESS_HALF_LIFE_DAYS),
+        freshnessWeight: this.parseOptionalNumber(process.env.FRESHNESS_WEIGHT),
+        minScore: this.parseOptionalNumber(process.env.MIN_MATCH_SCORE)
+      }
+    };
+  }
+
+  /**
+   * 模糊匹配配置，FUZZY_MATCH 未开启时返回 undefined
+   */
+  private loadFuzzyConfig(): FuzzyMatchConfig | undefined {
+    if (process.env.FUZZY_MATCH !== 'true') {
+      return undefined;
+    }
+
+    return {
+      maxEditDistance: this.parseOptionalNumber(process.env.FUZZY_MAX_EDIT_DISTANCE),
+      pinyin: process.env.FUZZY_PINYIN !== 'false',
+      romaji: process.env.FUZZY_ROMAJI !== 'false',
+      aliases: this.parseAliasMap(process.env.KEYWORD_ALIASES),
+      minConfidence: this.parseOptionalNumber(process.env.FUZZY_MIN_CONFIDENCE)
+    };
+  }
+
+  /**
+   * 定时调度配置，SCHEDULE_FILE 未设置时返回 undefined
+   * SCHEDULE_TIMEZONE / DAILY_VIDEO_BUDGET 会覆盖文件中的对应设置
+   */
+  private loadScheduleConfig(): ScheduleConfig | undefined {
+    const scheduleFile = process.env.SCHEDULE_FILE;
+    if (!scheduleFile) {
+      return undefined;
+    }
+    if (!existsSync(scheduleFile)) {
+      throw new Error(`Schedule file not found: ${scheduleFile}`);
+    }
+
+    let schedule: ScheduleConfig;
+    try {
+      schedule = JSON.parse(readFileSync(scheduleFile, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Invalid schedule file ${scheduleFile}: ${error.message}`);
+    }
+
+    return {
+      ...schedule,
+      windows: schedule.windows || [],
+      timezone: process.env.SCHEDULE_TIMEZONE || schedule.timezone,
+      dailyVideoBudget: this.parseOptionalNumber(process.env.DAILY_VIDEO_BUDGET) ?? schedule.dailyVideoBudget
+    };
+  }
+
+  /**
+   * 投放计划配置，CAMPAIGN_FILE 未设置时返回 undefined
+   * CAMPAIGN_STRATEGY / CAMPAIGN_LOOKBACK_DAYS 会覆盖文件中的对应设置
+   */
+  private loadCampaignConfig(): CampaignConfig | undefined {
+    const campaignFile = process.env.CAMPAIGN_FILE;
+    if (!campaignFile) {
+      return undefined;
+    }
+    if (!existsSync(campaignFile)) {
+      throw new Error(`Campaign file not found: ${campaignFile}`);
+    }
+
+    let campaigns: CampaignConfig;
+    try {
+      campaigns = JSON.parse(readFileSync(campaignFile, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Invalid campaign file ${campaignFile}: ${error.message}`);
+    }
+
+    // 布尔表达式计划未单独列出关键词时，从表达式中提取（用于主动搜索和统计）
+    const profiles = (campaigns.campaigns || []).map(profile => (
+      profile.expression && (!profile.keywords || profile.keywords.length === 0)
+        ? { ...profile, keywords: this.extractExpressionKeywords(profile.expression) }
+        : profile
+    ));
+
+    return {
+      ...campaigns,
+      campaigns: profiles,
+      strategy: (process.env.CAMPAIGN_STRATEGY as any) || campaigns.strategy,
+      lookbackDays: this.parseOptionalNumber(process.env.CAMPAIGN_LOOKBACK_DAYS) ?? campaigns.lookbackDays
     };
   }
 
+  /**
+   * 语义相似度配置
+   */
+  private loadSemanticConfig(): SemanticConfig {
+    return {
+      seedFile: process.env.SEMANTIC_SEED_FILE || undefined,
+      seedLimit: this.parseOptionalNumber(process.env.SEMANTIC_SEED_LIMIT),
+      minSimilarity: this.parseOptionalNumber(process.env.SEMANTIC_MIN_SIMILARITY),
+      mode: (process.env.SEMANTIC_MODE as any) || undefined,
+      ngramMin: this.parseOptionalNumber(process.env.SEMANTIC_NGRAM_MIN),
+      ngramMax: this.parseOptionalNumber(process.env.SEMANTIC_NGRAM_MAX),
+      rerank: process.env.SEMANTIC_RERANK === 'true',
+      weight: this.parseOptionalNumber(process.env.SEMANTIC_WEIGHT)
+    };
+  }
+
+  /**
+   * 匹配流水线，未设置时返回 undefined（按 MATCHER_TYPE 创建匹配器）
+   */
+  private loadPipeline(): string[] | undefined {
+    const stages = this.parseList(process.env.MATCHER_PIPELINE);
+    return stages.length > 0 ? stages : undefined;
+  }
+
+  /**
+   * 解析 "关键词=别名1|别名2" 形式的逗号分隔列表
+   */
+  private parseAliasMap(value?: string): Record<string, string[]> {
+    const aliases: Record<string, string[]> = {};
+    for (const entry of this.parseList(value)) {
+      const separator = entry.indexOf('=');
+      if (separator <= 0) continue;
+      const list = entry.slice(separator + 1).split('|').map(a => a.trim()).filter(a => a);
+      if (list.length > 0) {
+        aliases[entry.slice(0, separator).trim()] = list;
+      }
+    }
+    return aliases;
+  }
+
+  /**
+   * 解析 "名称:权重" 形式的逗号分隔列表
+   */
+  private parseWeightMap(value?: string): Record<string, number> {
+    const weights: Record<string, number> = {};
+    for (const entry of this.parseList(value)) {
+      const separator = entry.lastIndexOf(':');
+      if (separator <= 0) continue;
+      const weight = parseFloat(entry.slice(separator + 1));
+      if (!isNaN(weight)) {
+        weights[entry.slice(0, separator).trim()] = weight;
+      }
+    }
+    return weights;
+  }
+
+  /**
+   * 解析可选的数值配置，未设置或无效时返回 undefined
+   */
+  private parseOptionalNumber(value?: string): number | undefined {
+    if (value === undefined || value.trim() === '') {
+      return undefined;
+    }
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+
+  /**
+   * 负反馈规则，SUPPRESS_KEYWORDS 和 SUPPRESS_AUTHORS 都未设置时返回 undefined
+   */
+  private loadSuppressConfig(): SuppressConfig | undefined {
+    const keywords = this.parseList(process.env.SUPPRESS_KEYWORDS);
+    const authors = this.parseList(process.env.SUPPRESS_AUTHORS);
+    if (keywords.length === 0 && authors.length === 0) {
+      return undefined;
+    }
+    return {
+      keywords,
+      authors,
+      dailyLimit: parseInt(process.env.SUPPRESS_DAILY_LIMIT || '20')
+    };
+  }
+
+  /**
+   * 互动操作设置，ENGAGEMENT_ACTIONS 未设置时返回 undefined
+   */
+  private loadEngagementConfig(): EngagementConfig | undefined {
+    const actions = this.parseList(process.env.ENGAGEMENT_ACTIONS).map(action => action.toLowerCase()) as EngagementAction[];
+    if (actions.length === 0) {
+      return undefined;
+    }
+    return {
+      actions: Array.from(new Set(actions)),
+      minScore: parseFloat(process.env.ENGAGEMENT_MIN_SCORE || '1'),
+      favoriteFolder: process.env.ENGAGEMENT_FAVORITE_FOLDER?.trim() || undefined,
+      dailyLimits: {
+        like: parseInt(process.env.ENGAGEMENT_DAILY_LIKES || '20'),
+        favorite: parseInt(process.env.ENGAGEMENT_DAILY_FAVORITES || '10'),
+        follow: parseInt(process.env.ENGAGEMENT_DAILY_FOLLOWS || '5')
+      },
+      dryRun: process.env.ENGAGEMENT_DRY_RUN === 'true'
+    };
+  }
+
+  /**
+   * 解析逗号分隔的列表
+   */
+  private parseList(value?: string): string[] {
+    return (value || '').split(',').map(k => k.trim()).filter(k => k);
+  }
+
+  /**
+   * 从布尔表达式中提取正向关键词
+   * 解析失败时返回空数组，具体错误在 validateConfig 中报告
+   */
+  private extractExpressionKeywords(expression: string): string[] {
+    try {
+      return collectQueryTerms(parseQuery(expression));
+    } catch (error) {
+      return [];
+    }
+  }
+
   public getConfig(): AppConfig {
     return this.appConfig;
   }
@@ -131,6 +423,84 @@ export class ConfigManager {
     this.appConfig = { ...this.appConfig, ...updates };
   }
 
+  private validateSchedule(schedule: ScheduleConfig): void {
+    if (schedule.windows.length === 0) {
+      throw new Error('Schedule requires at least one window');
+    }
+    if (schedule.timezone && !isValidTimeZone(schedule.timezone)) {
+      throw new Error(`Invalid schedule timezone: ${schedule.timezone}`);
+    }
+    if (schedule.dailyVideoBudget !== undefined && schedule.dailyVideoBudget < 0) {
+      throw new Error('DAILY_VIDEO_BUDGET must be a non-negative number (0 means unlimited)');
+    }
+
+    const names = new Set<string>();
+    for (const window of schedule.windows) {
+      if (!window.name || names.has(window.name)) {
+        throw new Error(`Schedule windows need a unique name: ${window.name || '(empty)'}`);
+      }
+      names.add(window.name);
+      if (parseTimeOfDay(window.start || '') === null || parseTimeOfDay(window.end || '') === null) {
+        throw new Error(`Schedule window "${window.name}" needs start and end times in HH:MM format`);
+      }
+      if (!parseWeekdays(window.days)) {
+        throw new Error(`Schedule window "${window.name}" has invalid days (use mon..sun, weekdays, weekends or everyday)`);
+      }
+      if (window.expression) {
+        try {
+          parseQuery(window.expression);
+        } catch (error) {
+          throw new Error(`Invalid keyword expression in schedule window "${window.name}": ${error.message}`);
+        }
+      }
+    }
+  }
+
+  private validateCampaigns(campaigns: CampaignConfig, matcher: MatcherConfig): void {
+    if (campaigns.campaigns.length === 0) {
+      throw new Error('Campaign file requires at least one campaign');
+    }
+    if (campaigns.strategy && !['balance', 'rotate'].includes(campaigns.strategy)) {
+      throw new Error('CAMPAIGN_STRATEGY must be one of: balance, rotate');
+    }
+    if (campaigns.lookbackDays !== undefined && (isNaN(campaigns.lookbackDays) || campaigns.lookbackDays < 0)) {
+      throw new Error('CAMPAIGN_LOOKBACK_DAYS must be a non-negative number (0 means all history)');
+    }
+
+    const names = new Set<string>();
+    for (const profile of campaigns.campaigns) {
+      if (!profile.name || names.has(profile.name)) {
+        throw new Error(`Campaigns need a unique name: ${profile.name || '(empty)'}`);
+      }
+      names.add(profile.name);
+      if (profile.targetShare !== undefined && (typeof profile.targetShare !== 'number' || profile.targetShare < 0)) {
+        throw new Error(`Campaign "${profile.name}" targetShare must be a non-negative number`);
+      }
+
+      const type = profile.matcher?.type || matcher.type || 'keyword';
+      if (!['keyword', 'boolean', 'scoring', 'semantic'].includes(type)) {
+        throw new Error(`Campaign "${profile.name}" matcher type must be one of: keyword, boolean, scoring, semantic`);
+      }
+      const pipeline = profile.matcher?.pipeline || matcher.pipeline;
+      const matcherTypes = pipeline ? getPipelineMatchers(pipeline) : [type];
+      if (matcherTypes.includes('boolean')) {
+        try {
+          parseQuery(profile.expression || profile.matcher?.expression || '');
+        } catch (error) {
+          throw new Error(`Invalid keyword expression in campaign "${profile.name}": ${error.message}`);
+        }
+      }
+      const usesKeywords = matcherTypes.some(matcherType => ['keyword', 'boolean', 'scoring'].includes(matcherType));
+      if (usesKeywords && (!profile.keywords || profile.keywords.length === 0)) {
+        throw new Error(`Campaign "${profile.name}" requires at least one keyword`);
+      }
+    }
+
+    if (campaigns.campaigns.every(profile => profile.targetShare === 0)) {
+      throw new Error('At least one campaign needs a positive targetShare');
+    }
+  }
+
   public validateConfig(): boolean {
     const config = this.appConfig;
     
@@ -142,14 +512,140 @@ export class ConfigManager {
       throw new Error(`Invalid ${config.platformType} cookie format. Please check your cookie string for ${config.platformType} platform`);
     }
     
-    if (config.matcher.keywords.length === 0) {
+    if (config.matcher.type && !['keyword', 'boolean', 'scoring', 'semantic'].includes(config.matcher.type)) {
+      throw new Error('Matcher type must be one of: keyword, boolean, scoring, semantic');
+    }
+
+    // 配置了流水线时以流水线中的匹配器为准
+    const pipeline = config.matcher.pipeline;
+    const matcherTypes = pipeline ? getPipelineMatchers(pipeline) : [config.matcher.type || 'keyword'];
+
+    // 配置了投放计划时表达式由各计划提供
+    if (matcherTypes.includes('boolean') && !config.campaigns) {
+      try {
+        parseQuery(config.matcher.expression || '');
+      } catch (error) {
+        throw new Error(`Invalid keyword expression in TARGET_KEYWORDS: ${error.message}`);
+      }
+    }
+
+    const semantic = config.matcher.semantic;
+    const usesSemantic = pipeline
+      ? matcherTypes.includes('semantic') || pipeline.includes('rank:semantic')
+      : config.matcher.type === 'semantic' || semantic?.rerank;
+    if (usesSemantic) {
+      if (!semantic?.seedFile) {
+        throw new Error('SEMANTIC_SEED_FILE is required for semantic matching');
+      }
+      if (semantic.mode && !['centroid', 'nearest'].includes(semantic.mode)) {
+        throw new Error('SEMANTIC_MODE must be one of: centroid, nearest');
+      }
+    }
+
+    // 语义匹配器以种子视频为目标，关键词仅用于主动搜索
+    const usesKeywords = matcherTypes.some(type => ['keyword', 'boolean', 'scoring'].includes(type));
+    if (config.campaigns) {
+      this.validateCampaigns(config.campaigns, config.matcher);
+    } else if (config.matcher.keywords.length === 0 && usesKeywords) {
       throw new Error('At least one keyword is required');
     }
 
+    const limits = {
+      BROWSE_COUNT: config.browseCount,
+      MAX_VIDEOS_PER_SESSION: config.maxVideosPerSession,
+      MAX_WATCH_MINUTES: config.maxWatchMinutes,
+      MAX_SESSION_MINUTES: config.maxSessionMinutes,
+      MAX_EMPTY_ROUNDS: config.maxEmptyRounds
+    };
+    for (const [name, value] of Object.entries(limits)) {
+      if (value !== undefined && (isNaN(value) || value < 0)) {
+        throw new Error(`${name} must be a non-negative number (0 means unlimited)`);
+      }
+    }
+
+    if (config.schedule) {
+      this.validateSchedule(config.schedule);
+
+      // 配置了投放计划时关键词以各计划为准，窗口关键词不会生效
+      const keywordWindow = config.campaigns && config.schedule.windows.find(window => window.keywords || window.expression);
+      if (keywordWindow) {
+        throw new Error(`Schedule window "${keywordWindow.name}" cannot set keywords or expression when CAMPAIGN_FILE is used`);
+      }
+    }
+
+    const metadataFilter = config.matcher.metadataFilter;
+    if (metadataFilter?.minDuration !== undefined && metadataFilter.maxDuration !== undefined &&
+        metadataFilter.minDuration > metadataFilter.maxDuration) {
+      throw new Error('FILTER_MIN_DURATION must not be greater than FILTER_MAX_DURATION');
+    }
+
+    const fuzzy = config.matcher.fuzzy;
+    if (fuzzy?.minConfidence !== undefined && (fuzzy.minConfidence < 0 || fuzzy.minConfidence > 1)) {
+      throw new Error('FUZZY_MIN_CONFIDENCE must be between 0 and 1');
+    }
+
+    if (config.activeSearchStrategy && !['random', 'sequential', 'weighted'].includes(config.activeSearchStrategy)) {
+      throw new Error('ACTIVE_SEARCH_STRATEGY must be one of: random, sequential, weighted');
+    }
+    if (config.activeSearchStrategy === 'weighted') {
+      if (isNaN(config.activeSearchRewardRounds!) || config.activeSearchRewardRounds! < 1) {
+        throw new Error('ACTIVE_SEARCH_REWARD_ROUNDS must be at least 1');
+      }
+      if (isNaN(config.activeSearchExploration!) || config.activeSearchExploration! < 0) {
+        throw new Error('ACTIVE_SEARCH_EXPLORATION must be a non-negative number');
+      }
+    }
+
+    if (config.adaptiveVideoSource) {
+      const invalid = (config.videoSources || []).filter(source => !['home', 'related', 'short'].includes(source));
+      if (invalid.length > 0) {
+        throw new Error(`VIDEO_SOURCES must only contain: home, related, short (got ${invalid.join(', ')})`);
+      }
+      if (isNaN(config.sourceWindow!) || config.sourceWindow! < 1) {
+        throw new Error('SOURCE_WINDOW must be at least 1');
+      }
+      if (isNaN(config.sourceExploration!) || config.sourceExploration! < 0 || config.sourceExploration! > 1) {
+        throw new Error('SOURCE_EXPLORATION must be between 0 and 1');
+      }
+    }
+
+    if (isNaN(config.relatedChainDepth!) || config.relatedChainDepth! < 0) {
+      throw new Error('RELATED_CHAIN_DEPTH must be a non-negative number (0 disables related chains)');
+    }
+    if (config.relatedChainDepth! > 0 && (isNaN(config.relatedChainBreadth!) || config.relatedChainBreadth! < 1)) {
+      throw new Error('RELATED_CHAIN_BREADTH must be at least 1');
+    }
+
+    if (config.suppress && (isNaN(config.suppress.dailyLimit) || config.suppress.dailyLimit < 1)) {
+      throw new Error('SUPPRESS_DAILY_LIMIT must be at least 1');
+    }
+
+    if (config.engagement) {
+      const invalid = config.engagement.actions.filter(action => !['like', 'favorite', 'follow'].includes(action));
+      if (invalid.length > 0) {
+        throw new Error(`Invalid ENGAGEMENT_ACTIONS: ${invalid.join(', ')} (must be like, favorite or follow)`);
+      }
+      if (isNaN(config.engagement.minScore)) {
+        throw new Error('ENGAGEMENT_MIN_SCORE must be a number');
+      }
+      if (config.engagement.actions.includes('favorite') && !config.engagement.favoriteFolder) {
+        throw new Error('ENGAGEMENT_FAVORITE_FOLDER is required when ENGAGEMENT_ACTIONS includes favorite');
+      }
+      for (const [action, limit] of Object.entries(config.engagement.dailyLimits)) {
+        if (isNaN(limit) || limit < 1) {
+          throw new Error(`Daily ${action} limit (ENGAGEMENT_DAILY_*) must be at least 1`);
+        }
+      }
+    }
+
     if (config.videosPerPage && (config.videosPerPage < 1 || config.videosPerPage > 30)) {
       throw new Error('Videos per page must be between 1 and 30');
     }
 
+    if (config.platform.feedPages !== undefined && (isNaN(config.platform.feedPages) || config.platform.feedPages < 1 || config.platform.feedPages > 10)) {
+      throw new Error('BILIBILI_FEED_PAGES must be between 1 and 10');
+    }
+
     if (config.initialVideoSource && !['home', 'related', 'short'].includes(config.initialVideoSource)) {
       throw new Error('Initial video source must be one of: home, related, short');
     }
@@ -0,0 +1,146 @@
+import { CampaignConfig, CampaignProfile, MatchResult, VideoInfo } from '../types/index.js';
+import { CampaignMatcher } from '../matchers/campaign-matcher.js';
+import { HistoryService } from '../services/history-service.js';
+import { logger } from './logger.js';
+
+/**
+ * 投放计划的观看时长占比
+ */
+export interface CampaignShare {
+  name: string;
+  target: number;                    // 归一化后的目标占比 0-1
+  actual: number;                    // 统计周期内的实际占比 0-1
+  watchSeconds: number;              // 统计周期内的观看时长（秒）
+  deficit: number;                   // 目标占比 - 实际占比，越大越落后
+}
+
+/**
+ * 投放计划管理器
+ * 每轮根据观看历史中各计划已获得的观看时长选择本轮的计划，并调整匹配优先级
+ */
+export class CampaignManager {
+  private config: CampaignConfig;
+  private matcher: CampaignMatcher;
+  private historyService: HistoryService;
+  private shares: CampaignShare[] = [];
+  private active: CampaignProfile;
+  private rotationIndex: number = 0;
+
+  constructor(config: CampaignConfig, matcher: CampaignMatcher, historyService: HistoryService) {
+    this.config = config;
+    this.matcher = matcher;
+    this.historyService = historyService;
+    this.active = config.campaigns[0];
+  }
+
+  /**
+   * 选择本轮的投放计划
+   * balance: 选择占比最落后的计划；rotate: 按顺序轮换，跳过已达到目标占比的计划
+   * 其余计划按落后程度排列匹配优先级
+   */
+  selectCampaign(): CampaignProfile {
+    this.shares = this.computeShares();
+    const byDeficit = [...this.shares].sort((a, b) => b.deficit - a.deficit);
+
+    let activeName = byDeficit[0].name;
+    if (this.getStrategy() === 'rotate') {
+      activeName = this.nextInRotation();
+    }
+
+    this.active = this.config.campaigns.find(profile => profile.name === activeName)!;
+    this.matcher.setPriority([activeName, ...byDeficit.map(share => share.name)]);
+    logger.info(`🎯 本轮投放计划: ${activeName} (${this.describe()})`);
+    return this.active;
+  }
+
+  getActiveCampaign(): CampaignProfile {
+    return this.active;
+  }
+
+  getShares(): CampaignShare[] {
+    return this.shares.length > 0 ? this.shares : this.computeShares();
+  }
+
+  /**
+   * 判断匹配结果是否可以在本轮加入队列
+   * rotate 模式下只接受当前计划的视频
+   */
+  accepts(result: MatchResult): boolean {
+    if (this.getStrategy() !== 'rotate') {
+      return true;
+    }
+    return result.campaign === this.active.name;
+  }
+
+  /**
+   * 视频所属计划的优先级，数值越小越优先，不属于任何计划时排在最后
+   */
+  getPriority(video: VideoInfo): number {
+    const campaign = this.matcher.evaluate(video).campaign;
+    const index = campaign ? this.matcher.getPriority().indexOf(campaign) : -1;
+    return index >= 0 ? index : this.config.campaigns.length;
+  }
+
+  /**
+   * 本轮主动搜索使用的关键词
+   */
+  getSearchKeywords(): string[] {
+    const { searchKeywords, keywords } = this.active;
+    return searchKeywords && searchKeywords.length > 0 ? searchKeywords : keywords || [];
+  }
+
+  /**
+   * 各计划实际/目标占比的可读描述
+   */
+  describe(): string {
+    return this.getShares()
+      .map(share => `${share.name} ${formatPercent(share.actual)}/${formatPercent(share.target)}`)
+      .join(', ');
+  }
+
+  private getStrategy(): 'balance' | 'rotate' {
+    return this.config.strategy || 'balance';
+  }
+
+  /**
+   * 按轮次取下一个尚未达到目标占比的计划，全部达到时按顺序轮换
+   */
+  private nextInRotation(): string {
+    const campaigns = this.config.campaigns;
+    for (let step = 0; step < campaigns.length; step++) {
+      const name = campaigns[(this.rotationIndex + step) % campaigns.length].name;
+      const share = this.shares.find(item => item.name === name)!;
+      if (share.deficit > 0) {
+        this.rotationIndex = (this.rotationIndex + step + 1) % campaigns.length;
+        return name;
+      }
+    }
+
+    const name = campaigns[this.rotationIndex % campaigns.length].name;
+    this.rotationIndex = (this.rotationIndex + 1) % campaigns.length;
+    return name;
+  }
+
+  /**
+   * 根据观看历史计算各计划的实际占比和落后程度
+   */
+  private computeShares(): CampaignShare[] {
+    const watchTime = this.historyService.getCampaignWatchTime(this.config.lookbackDays ?? 7);
+    const campaigns = this.config.campaigns;
+
+    const weights = campaigns.map(profile => profile.targetShare ?? 1);
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const totalSeconds = campaigns.reduce((sum, profile) => sum + (watchTime[profile.name] || 0), 0);
+
+    return campaigns.map((profile, index) => {
+      const watchSeconds = watchTime[profile.name] || 0;
+      const target = totalWeight > 0 ? weights[index] / totalWeight : 1 / campaigns.length;
+      const actual = totalSeconds > 0 ? watchSeconds / totalSeconds : 0;
+      return { name: profile.name, target, actual, watchSeconds, deficit: target - actual };
+    });
+  }
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(0)}%`;
+}
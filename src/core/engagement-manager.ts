@@ -0,0 +1,113 @@
+import { VideoInfo, MatchResult, EngagementConfig, EngagementAction, EngagementActor } from '../types/index.js';
+import { HistoryService } from '../services/history-service.js';
+import { logger } from './logger.js';
+
+const ACTION_LABELS: Record<EngagementAction, string> = {
+  like: '点赞',
+  favorite: '收藏',
+  follow: '关注UP主'
+};
+
+const ACTION_METHODS: Record<EngagementAction, keyof EngagementActor> = {
+  like: 'likeVideo',
+  favorite: 'favoriteVideo',
+  follow: 'followAuthor'
+};
+
+/**
+ * 互动管理器
+ * 观看完得分达到阈值的目标视频后，按配置点赞、收藏到指定收藏夹或关注UP主
+ * 每次操作（包括预演）都记录到 history/action-history.jsonl，每种操作每天不超过各自的上限
+ */
+export class EngagementManager {
+  private config: EngagementConfig;
+  private historyService: HistoryService;
+  private sessionId: string;
+
+  constructor(config: EngagementConfig, historyService: HistoryService, sessionId: string) {
+    this.config = config;
+    this.historyService = historyService;
+    this.sessionId = sessionId;
+  }
+
+  /**
+   * 对观看完的视频执行互动操作
+   * @param actor 执行操作的平台或模拟播放器（真实播放时为刚播放完视频的浏览器页面）
+   * @returns 成功执行（预演模式下为预演）的操作
+   */
+  async engage(video: VideoInfo, match: MatchResult, actor: EngagementActor): Promise<EngagementAction[]> {
+    if (!match.matched || match.score < this.config.minScore) {
+      return [];
+    }
+
+    const done: EngagementAction[] = [];
+    for (const action of this.config.actions) {
+      if (this.hasDone(action, video)) {
+        continue;
+      }
+      if (!actor[ACTION_METHODS[action]]) {
+        logger.debug(`当前播放方式不支持${ACTION_LABELS[action]}，跳过: ${video.title}`);
+        continue;
+      }
+
+      const limit = this.config.dailyLimits[action];
+      if (this.historyService.getTodayActionCount(action, !!this.config.dryRun) >= limit) {
+        logger.debug(`今日${ACTION_LABELS[action]}已达上限 (${limit})，跳过: ${video.title}`);
+        continue;
+      }
+
+      const detail = action === 'favorite' ? this.config.favoriteFolder : undefined;
+      const reason = `score:${match.score.toFixed(2)}`;
+
+      if (this.config.dryRun) {
+        logger.info(`🧪 [预演] 将${ACTION_LABELS[action]}: ${video.title}${detail ? ` → ${detail}` : ''} (得分 ${match.score.toFixed(2)})`);
+        this.historyService.recordAction({ type: action, video, reason, detail, success: true, dryRun: true, sessionId: this.sessionId });
+        done.push(action);
+        continue;
+      }
+
+      const success = await this.perform(action, video, actor);
+      this.historyService.recordAction({ type: action, video, reason, detail, success, sessionId: this.sessionId });
+      if (success) {
+        logger.info(`👍 已${ACTION_LABELS[action]}: ${video.title}${detail ? ` → ${detail}` : ''} (得分 ${match.score.toFixed(2)})`);
+        done.push(action);
+      } else {
+        logger.warn(`${ACTION_LABELS[action]}失败: ${video.title}`);
+      }
+    }
+    return done;
+  }
+
+  /**
+   * 互动设置的可读描述
+   */
+  describe(): string {
+    const actions = this.config.actions.map(action => `${ACTION_LABELS[action]}(每天${this.config.dailyLimits[action]}次)`);
+    return `${actions.join(', ')}, 得分 ≥ ${this.config.minScore}${this.config.dryRun ? ', 预演模式' : ''}`;
+  }
+
+  /**
+   * 是否已执行过该操作：关注按UP主判断，其余按视频判断
+   */
+  private hasDone(action: EngagementAction, video: VideoInfo): boolean {
+    return action === 'follow'
+      ? this.historyService.hasActedOnAuthor(action, video)
+      : this.historyService.hasActed(action, video.id);
+  }
+
+  private async perform(action: EngagementAction, video: VideoInfo, actor: EngagementActor): Promise<boolean> {
+    try {
+      switch (action) {
+        case 'like':
+          return await actor.likeVideo!(video);
+        case 'favorite':
+          return await actor.favoriteVideo!(video, this.config.favoriteFolder!);
+        case 'follow':
+          return await actor.followAuthor!(video);
+      }
+    } catch (error) {
+      logger.warn(`${ACTION_LABELS[action]}出错: ${video.title}`, error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import { PlatformInterface, VideoInfo, SuppressConfig, NotInterestedResult } from '../types/index.js';
+import { HistoryService } from '../services/history-service.js';
+import { normalizeText } from '../utils/text-normalizer.js';
+import { logger } from './logger.js';
+
+/**
+ * 负反馈执行的设置
+ */
+export interface FeedSuppressorOptions {
+  sessionId: string;
+  actionDelay?: number;              // 两次反馈之间的间隔（毫秒）
+  isTarget?: (video: VideoInfo) => boolean; // 目标视频永远不会被标记
+}
+
+/**
+ * 推荐负反馈
+ * 对首页推荐中命中负反馈规则的视频发送"不感兴趣"，把不想要的主题挤出推荐
+ * 每次发送到平台的操作都记录到 history/action-history.jsonl，每天尝试的次数（包括失败的）不超过 dailyLimit；
+ * 平台当前推荐中找不到的视频不算尝试，今天已尝试过的视频不再重试
+ */
+export class FeedSuppressor {
+  private platform: PlatformInterface;
+  private config: SuppressConfig;
+  private historyService: HistoryService;
+  private options: FeedSuppressorOptions;
+  private keywords: string[];
+  private authors: string[];
+
+  constructor(platform: PlatformInterface, config: SuppressConfig, historyService: HistoryService, options: FeedSuppressorOptions) {
+    this.platform = platform;
+    this.config = config;
+    this.historyService = historyService;
+    this.options = options;
+    this.keywords = config.keywords.map(keyword => normalizeText(keyword)).filter(keyword => keyword);
+    this.authors = (config.authors || []).map(author => author.toLowerCase());
+  }
+
+  /**
+   * 平台是否支持"不感兴趣"反馈
+   */
+  isSupported(): boolean {
+    return typeof this.platform.markNotInterested === 'function';
+  }
+
+  /**
+   * 视频命中的负反馈规则，未命中时返回 null
+   */
+  findRule(video: VideoInfo): string | null {
+    const author = [video.author, video.authorId].filter(Boolean).map(value => value!.toLowerCase());
+    const blockedAuthor = this.authors.find(name => author.includes(name));
+    if (blockedAuthor) {
+      return `author:${blockedAuthor}`;
+    }
+
+    const text = normalizeText([video.title, ...(video.tags || []), video.description || ''].join(' '));
+    const index = this.keywords.findIndex(keyword => text.includes(keyword));
+    return index >= 0 ? `keyword:${this.config.keywords[index]}` : null;
+  }
+
+  /**
+   * 处理一轮推荐：只处理首页推荐，对命中规则的视频发送"不感兴趣"
+   * @returns 本轮成功标记的视频数
+   */
+  async process(videos: VideoInfo[], source: string): Promise<number> {
+    if (source !== 'home' || !this.isSupported()) {
+      return 0;
+    }
+
+    const acted = this.historyService.getActedVideoIds('not_interested');
+    const candidates = videos
+      .filter(video => !this.options.isTarget || !this.options.isTarget(video))
+      .map(video => ({ video, rule: this.findRule(video) }))
+      .filter(({ video, rule }) => rule && !acted.has(video.id));
+    if (candidates.length === 0) {
+      return 0;
+    }
+
+    let remaining = this.config.dailyLimit - this.historyService.getTodayActionCount('not_interested');
+    let suppressed = 0;
+    let missing = 0;
+
+    for (const [index, { video, rule }] of candidates.entries()) {
+      if (remaining <= 0) {
+        logger.info(`🚫 今日"不感兴趣"已达上限 (${this.config.dailyLimit})，跳过剩余 ${candidates.length - index} 个视频`);
+        break;
+      }
+      if (index > 0 && this.options.actionDelay) {
+        await this.delay(this.options.actionDelay);
+      }
+
+      let result: NotInterestedResult = 'failed';
+      try {
+        result = await this.platform.markNotInterested!(video);
+      } catch (error) {
+        logger.warn(`标记"不感兴趣"失败: ${video.title}`, error);
+      }
+
+      // 反馈没有发送到平台，不计入上限，下一轮视频出现在推荐中时再试
+      if (result === 'not_found') {
+        logger.debug(`推荐中未找到视频，跳过"不感兴趣": ${video.title}`);
+        missing++;
+        continue;
+      }
+
+      const success = result === 'success';
+      this.historyService.recordAction({
+        type: 'not_interested',
+        video,
+        reason: rule!,
+        success,
+        sessionId: this.options.sessionId
+      });
+      remaining--;
+
+      if (success) {
+        suppressed++;
+        logger.info(`🚫 已标记不感兴趣: ${video.title} (${rule})`);
+      }
+    }
+
+    if (missing > 0) {
+      logger.info(`🚫 ${missing} 个视频不在平台当前的推荐中（YouTube 为浏览器首页），未能标记"不感兴趣"，下一轮再试`);
+    }
+    return suppressed;
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
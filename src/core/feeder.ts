@@ -1,9 +1,18 @@
-import { PlatformInterface, MatcherInterface, AppConfig, VideoInfo } from '../types/index.js';
+import { PlatformInterface, MatcherInterface, AppConfig, VideoInfo, SessionStopReason, SessionSummary, SessionProgress, RelatedChainLink } from '../types/index.js';
 import { logger } from './logger.js';
+import { SessionPolicy, STOP_REASON_LABELS } from './session-policy.js';
+import { CampaignManager } from './campaign-manager.js';
+import { SourceController, SourceChoice, VideoSource } from './source-controller.js';
+import { RelatedChainWalker } from './related-chain-walker.js';
+import { FeedSuppressor } from './feed-suppressor.js';
+import { EngagementManager } from './engagement-manager.js';
 import { HistoryService } from '../services/history-service.js';
 import { ConcurrentPlayer } from '../services/concurrent-player.js';
 import { SimulatedPlaybackManager } from '../services/simulated-playback-manager.js';
 import { MatchService } from '../services/match-service.js';
+import { SearchKeywordBandit } from '../services/search-bandit.js';
+import { FeedSnapshotService } from '../services/feed-snapshot-service.js';
+import { CampaignMatcher } from '../matchers/campaign-matcher.js';
 
 /**
  * 推荐算法喂养器核心类
@@ -19,10 +28,22 @@ export class AlgorithmFeeder {
   private matchService: MatchService;
   private isRunning: boolean = false;
   private sessionId: string;
+  private sessionPolicy: SessionPolicy;
+  private stopReason: SessionStopReason = 'manual';
+  private lastSummary?: SessionSummary;
+  private campaignManager?: CampaignManager;
+  private sourceController?: SourceController;
+  private sourceChoice?: SourceChoice;
+  private roundFallback: 'home' | 'related' | 'short' | null = null; // 本轮平台回退到的视频源
+  private chainWalker?: RelatedChainWalker;
+  private feedSnapshotService?: FeedSnapshotService;
+  private feedSuppressor?: FeedSuppressor;
+  private engagementManager?: EngagementManager;
   
   // 主动搜索相关
   private missedRounds: number = 0;
   private keywordIndex: number = 0;
+  private searchBandit?: SearchKeywordBandit;
   
   // 队列管理
   private videoQueue: VideoInfo[] = [];
@@ -36,9 +57,64 @@ export class AlgorithmFeeder {
     this.matcher = matcher;
     this.config = config;
     this.historyService = new HistoryService(config.platformType);
-    this.matchService = new MatchService(config.matcher);
+    this.matchService = new MatchService(config.matcher, matcher);
     this.sessionId = `session-${Date.now()}`;
+    this.sessionPolicy = SessionPolicy.fromConfig(config);
     this.matcher.configure(config.matcher);
+
+    if (config.activeSearchStrategy === 'weighted') {
+      this.searchBandit = new SearchKeywordBandit(
+        config.platformType,
+        config.activeSearchRewardRounds ?? 3,
+        config.activeSearchExploration ?? 1
+      );
+    }
+
+    if (config.feedSnapshots !== false) {
+      this.feedSnapshotService = new FeedSnapshotService(config.platformType);
+    }
+
+    if (config.adaptiveVideoSource) {
+      const sources: VideoSource[] = config.videoSources?.length ? config.videoSources : ['home', 'related', 'short'];
+      const window = config.sourceWindow ?? 10;
+      this.sourceController = new SourceController(
+        { sources, window, exploration: config.sourceExploration ?? 0.1 },
+        this.historyService.getRecentSourceRounds(window * sources.length)
+      );
+    }
+
+    if (config.campaigns) {
+      if (matcher instanceof CampaignMatcher) {
+        this.campaignManager = new CampaignManager(config.campaigns, matcher, this.historyService);
+      } else {
+        logger.warn('已配置投放计划，但匹配器不是投放计划匹配器，忽略投放计划');
+      }
+    }
+
+    if (config.suppress) {
+      this.feedSuppressor = new FeedSuppressor(platform, config.suppress, this.historyService, {
+        sessionId: this.sessionId,
+        actionDelay: config.actionDelay,
+        isTarget: video => this.matchService.evaluate(video).matched
+      });
+      if (!this.feedSuppressor.isSupported()) {
+        logger.warn(`${config.platformType} 平台不支持"不感兴趣"反馈，忽略负反馈规则`);
+        this.feedSuppressor = undefined;
+      }
+    }
+
+    if (config.engagement) {
+      this.engagementManager = new EngagementManager(config.engagement, this.historyService, this.sessionId);
+    }
+
+    if ((config.relatedChainDepth || 0) > 0) {
+      this.chainWalker = new RelatedChainWalker(platform, this.matchService, this.historyService, {
+        depth: config.relatedChainDepth!,
+        breadth: config.relatedChainBreadth || 2,
+        requestDelay: config.actionDelay,
+        accepts: this.campaignManager ? result => this.campaignManager!.accepts(result) : undefined
+      });
+    }
   }
 
   /**
@@ -52,14 +128,24 @@ export class AlgorithmFeeder {
 
     try {
       this.isRunning = true;
+      this.sessionPolicy = SessionPolicy.fromConfig(this.config);
       logger.info('启动推荐算法喂养器...');
+      logger.info(`🏁 会话终止条件: ${this.sessionPolicy.describe()}`);
+      if (this.engagementManager) {
+        logger.info(`👍 互动操作: ${this.engagementManager.describe()}`);
+      }
       
       // 初始化平台（用于获取推荐视频）
       await this.platform.initialize();
       logger.info('平台初始化成功');
 
       // 根据配置选择播放模式
-      if (this.config.useSimulatedPlayback) {
+      const simulatedSupported = SimulatedPlaybackManager.isPlatformSupported(this.config.platformType);
+      if (this.config.useSimulatedPlayback && !simulatedSupported) {
+        logger.warn(`${this.config.platformType} 平台不支持模拟播放，改为使用浏览器播放`);
+      }
+
+      if (this.config.useSimulatedPlayback && simulatedSupported) {
         // 初始化模拟播放管理器
         this.simulatedPlaybackManager = new SimulatedPlaybackManager(
           {
@@ -74,14 +160,15 @@ export class AlgorithmFeeder {
           },
           this.historyService,
           this.matchService,
-          this.sessionId
+          this.sessionId,
+          this.engagementManager
         );
         logger.info('🎭 模拟播放管理器已初始化');
       } else {
         // 初始化并发播放器（传统模式）
         const useConcurrent = (this.config.concurrentPlayers || 1) > 1;
         if (useConcurrent) {
-          this.concurrentPlayer = new ConcurrentPlayer(this.config, this.historyService, this.sessionId);
+          this.concurrentPlayer = new ConcurrentPlayer(this.config, this.historyService, this.matchService, this.sessionId, this.engagementManager);
           await this.concurrentPlayer.initialize();
           
           // 启动并发播放（异步执行）
@@ -96,21 +183,27 @@ export class AlgorithmFeeder {
       
     } catch (error) {
       logger.error('喂养器运行错误:', error);
+      this.stopReason = 'error';
       throw error;
     } finally {
-      await this.stop();
+      await this.stop(this.stopReason);
     }
   }
 
   /**
    * 停止喂养流程
+   * 达到会话终止条件时先等待播放管理器处理完队列，再生成会话报告
+   * @param reason 结束原因，外部调用（如退出信号）时为 manual
    */
-  async stop(): Promise<void> {
+  async stop(reason: SessionStopReason = 'manual'): Promise<void> {
     if (!this.isRunning) return;
     
-    logger.info('停止推荐算法喂养器...');
+    logger.info(`停止推荐算法喂养器... (${STOP_REASON_LABELS[reason]})`);
     this.isRunning = false;
     
+    // 等待播放管理器处理完队列
+    const drained = await this.drainPlayback(reason);
+    
     // 停止播放管理器
     if (this.simulatedPlaybackManager) {
       this.simulatedPlaybackManager.cleanup();
@@ -122,18 +215,67 @@ export class AlgorithmFeeder {
     
     await this.platform.cleanup();
     
-    // 显示本次会话统计信息
-    this.showSessionStats();
+    // 按已观察的轮次结算最后一次主动搜索的效果
+    this.searchBandit?.settle();
+    
+    // 显示并记录本次会话统计信息
+    const progress = this.historyService.getSessionProgress(this.sessionId);
+    const summary: SessionSummary = {
+      sessionId: this.sessionId,
+      reason,
+      startTime: new Date(this.sessionPolicy.getStartTime()).toISOString(),
+      endTime: new Date().toISOString(),
+      rounds: this.sessionPolicy.getRoundCount(),
+      emptyRounds: this.sessionPolicy.getEmptyRoundCount(),
+      drained,
+      ...progress
+    };
+    this.lastSummary = summary;
+    this.historyService.recordSessionSummary(summary);
+    this.showSessionStats(summary);
+    if (this.campaignManager) {
+      logger.info(`🎯 投放计划观看时长占比 (实际/目标): ${this.campaignManager.describe()}`);
+    }
+    if (this.sourceController) {
+      logger.info(`📺 各视频源最近命中率: ${this.sourceController.describe()}`);
+    }
     
     logger.info('喂养器已停止');
   }
 
+  /**
+   * 等待播放管理器处理完队列
+   * 因视频数、观看时长或运行时间上限结束时丢弃尚未开始的视频，只等待正在播放的视频
+   * 手动停止或出错时不等待
+   */
+  private async drainPlayback(reason: SessionStopReason): Promise<boolean> {
+    if (reason === 'manual' || reason === 'error') {
+      return false;
+    }
+
+    const dropPending = reason === 'max-videos' || reason === 'max-watch-time' || reason === 'max-duration';
+    const timeout = (this.config.drainTimeout ?? 300) * 1000;
+
+    if (this.simulatedPlaybackManager) {
+      logger.info('⏳ 等待模拟播放队列处理完成...');
+      return this.simulatedPlaybackManager.drain(timeout, dropPending);
+    }
+    if (this.concurrentPlayer) {
+      logger.info('⏳ 等待并发播放队列处理完成...');
+      return this.concurrentPlayer.drain(timeout, dropPending);
+    }
+
+    // 单线程模式在每轮内同步播放，剩余队列直接丢弃
+    this.videoQueue = [];
+    return true;
+  }
+
   /**
    * 显示本次会话统计信息
    */
-  private showSessionStats(): void {
+  private showSessionStats(summary: SessionSummary): void {
     try {
-      const report = this.historyService.generateSessionReport(this.sessionId);
+      const report = this.historyService.generateSessionReport(this.sessionId, summary);
       
       logger.info(report);
       
@@ -148,112 +290,347 @@ export class AlgorithmFeeder {
   }
 
   /**
-   * 主要的喂养循环逻辑 - 持续搜索和播放目标视频
+   * 主要的喂养循环逻辑 - 持续搜索和播放目标视频，直到满足会话终止条件
    */
   private async feedingLoop(): Promise<void> {
-    let roundCount = 0;
     const checkInterval = this.config.searchInterval; // 从配置读取检查间隔
     
     logger.info('开始持续监控目标视频...');
     
     while (this.isRunning) {
+      // 本轮是否找到目标视频（队列已满的轮次不计为空轮）
+      let found = false;
+      let waitTime = checkInterval;
+      
       try {
-        roundCount++;
-        logger.info(`第 ${roundCount} 轮搜索 - 获取最新推荐视频...`);
+        logger.info(`第 ${this.sessionPolicy.getRoundCount() + 1} 轮搜索 - 获取最新推荐视频...`);
+        
+        // 根据各投放计划已获得的观看时长选择本轮计划
+        this.campaignManager?.selectCampaign();
+        
+        // 根据各视频源最近的命中率选择本轮视频源
+        this.selectVideoSource();
         
         // 获取推荐视频列表
         const videos = await this.platform.getRecommendedVideos();
         logger.info(`发现 ${videos.length} 个推荐视频`);
+        this.checkSourceFallback();
+        
+        // 记录推荐快照，用于统计推荐对齐度的变化（平台支持时附带新旧视频统计，反映推荐是否停滞）
+        const freshness = this.platform.getFeedFreshness?.();
+        this.feedSnapshotService?.record(this.getCurrentVideoSource(), videos, video => this.matchService.evaluate(video), this.sessionId, freshness);
+        
+        // 对首页推荐中命中负反馈规则的视频发送"不感兴趣"
+        await this.feedSuppressor?.process(videos, this.getCurrentVideoSource());
         
         // 检查队列大小限制
         if (this.videoQueue.length >= (this.config.maxQueueSize || 20)) {
           logger.info(`⚠️  队列已满 (${this.videoQueue.length}/${this.config.maxQueueSize || 20})，跳过本轮推荐获取`);
-          
-          // 等待下次检查
-          if (this.isRunning) {
-            logger.info(`等待 ${checkInterval / 1000} 秒后进行下一轮搜索...`);
-            await this.delay(checkInterval);
-          }
-          continue;
-        }
-        
-        // 筛选符合条件的目标视频
-        const targetVideos = videos.filter(video => this.matcher.match(video));
-        
-        if (targetVideos.length > 0) {
-          logger.info(`✅ 找到 ${targetVideos.length} 个符合条件的目标视频！`);
-          
-          // 限制每次添加到队列的视频数量
-          const maxVideosPerQueue = this.config.maxVideosPerQueue || 5;
-          const videosToAdd = targetVideos.slice(0, maxVideosPerQueue);
-          
-          if (videosToAdd.length < targetVideos.length) {
-            logger.info(`📝 限制本轮最多添加 ${maxVideosPerQueue} 个视频到队列`);
-          }
-          
-          // 重置主动搜索计数器
-          this.missedRounds = 0;
-          
-          if (this.simulatedPlaybackManager) {
-            // 使用模拟播放管理器（非阻塞添加到队列）
-            const currentSource = this.getCurrentVideoSource();
-            this.simulatedPlaybackManager.addToQueue(videosToAdd, currentSource);
-            const status = this.simulatedPlaybackManager.getStatus();
-            logger.info(`🎭 模拟播放队列状态: ${status.activeWorkers}/${status.concurrentWorkers} 个工作器运行中, 队列: ${status.queueLength} 个视频`);
-            
-          } else if (this.concurrentPlayer) {
-            // 使用并发播放器
-            const currentSource = this.getCurrentVideoSource();
-            this.concurrentPlayer.addToQueue(videosToAdd, this.config.matcher.keywords, currentSource);
-            
-            // 显示并发播放状态
-            const status = this.concurrentPlayer.getStatus();
-            logger.info(`🎬 并发播放状态: ${status.activePlayers}/${status.totalPlayers} 个播放器工作中, 队列: ${status.queueLength} 个视频`);
-            
-          } else {
-            // 单线程播放 - 添加到队列
-            videosToAdd.forEach(video => {
-              if (!this.historyService.hasWatched(video.id)) {
-                this.videoQueue.push(video);
-              }
-            });
-            
-            logger.info(`📋 队列状态: ${this.videoQueue.length} 个视频待播放`);
-            
-            // 处理队列中的视频
-            await this.processVideoQueue();
-          }
-          
-          logger.info('本轮目标视频处理完成');
+          found = true;
         } else {
-          logger.info('本轮未找到符合条件的目标视频');
-          
-          // 增加未找到目标视频的计数
-          this.missedRounds++;
-          
-          // 检查是否需要进行主动搜索
-          await this.checkActiveSearch();
-        }
-        
-        // 等待下次检查
-        if (this.isRunning) {
-          logger.info(`等待 ${checkInterval / 1000} 秒后进行下一轮搜索...`);
-          await this.delay(checkInterval);
+          found = await this.processRecommendedVideos(videos);
         }
         
       } catch (error) {
         logger.error('本轮搜索出错:', error);
         // 出错后等待更长时间再重试
-        if (this.isRunning) {
-          logger.info('等待 60 秒后重试...');
-          await this.delay(60000);
-        }
+        waitTime = 60000;
+      }
+      
+      // 检查会话终止条件
+      this.sessionPolicy.recordRound(found);
+      const reason = this.sessionPolicy.check(this.historyService.getSessionProgress(this.sessionId));
+      if (reason) {
+        logger.info(`🏁 ${STOP_REASON_LABELS[reason]}，结束本次会话`);
+        this.stopReason = reason;
+        break;
+      }
+      
+      // 等待下次检查（不超过剩余运行时间）
+      if (this.isRunning) {
+        waitTime = Math.min(waitTime, Math.max(0, this.sessionPolicy.getRemainingTime()));
+        logger.info(`等待 ${waitTime / 1000} 秒后进行下一轮搜索...`);
+        await this.delay(waitTime);
       }
     }
     
     logger.info('喂养循环结束');
   }
 
+  /**
+   * 处理一轮推荐视频：筛选目标视频并加入播放队列，未找到时检查主动搜索
+   * @returns 本轮是否找到目标视频
+   */
+  private async processRecommendedVideos(videos: VideoInfo[]): Promise<boolean> {
+    // 筛选符合条件的目标视频，并按得分从高到低排序
+    const targetVideos = this.rankTargetVideos(this.filterTargetVideos(videos));
+    
+    // 记录主动搜索后推荐的变化，用于评估搜索关键词的效果
+    this.searchBandit?.recordRound(targetVideos.length > 0);
+    this.recordSourceRound(videos.length, targetVideos.length);
+    
+    if (targetVideos.length === 0) {
+      logger.info('本轮未找到符合条件的目标视频');
+      
+      // 增加未找到目标视频的计数
+      this.missedRounds++;
+      
+      // 检查是否需要进行主动搜索
+      await this.checkActiveSearch();
+      return false;
+    }
+    
+    logger.info(`✅ 找到 ${targetVideos.length} 个符合条件的目标视频！`);
+    
+    // 限制每次添加到队列的视频数量
+    const maxVideosPerQueue = this.config.maxVideosPerQueue || 5;
+    const videosToAdd = this.limitToSessionBudget(targetVideos.slice(0, maxVideosPerQueue));
+    
+    if (targetVideos.length > maxVideosPerQueue) {
+      logger.info(`📝 限制本轮最多添加 ${maxVideosPerQueue} 个视频到队列`);
+    }
+    
+    // 重置主动搜索计数器
+    this.missedRounds = 0;
+    
+    // 以本轮得分最高的目标视频作为相关推荐的种子
+    this.updateRelatedSeed(targetVideos[0]);
+    
+    if (videosToAdd.length === 0) {
+      return true;
+    }
+    
+    if (this.simulatedPlaybackManager) {
+      // 使用模拟播放管理器（非阻塞添加到队列）
+      const currentSource = this.getRoundSource();
+      this.simulatedPlaybackManager.addToQueue(videosToAdd, currentSource);
+      const status = this.simulatedPlaybackManager.getStatus();
+      logger.info(`🎭 模拟播放队列状态: ${status.activeWorkers}/${status.concurrentWorkers} 个工作器运行中, 队列: ${status.queueLength} 个视频`);
+      
+    } else if (this.concurrentPlayer) {
+      // 使用并发播放器
+      const currentSource = this.getRoundSource();
+      this.concurrentPlayer.addToQueue(videosToAdd, currentSource);
+      
+      // 显示并发播放状态
+      const status = this.concurrentPlayer.getStatus();
+      logger.info(`🎬 并发播放状态: ${status.activePlayers}/${status.totalPlayers} 个播放器工作中, 队列: ${status.queueLength} 个视频`);
+      
+    } else {
+      // 单线程播放 - 添加到队列
+      videosToAdd.forEach(video => {
+        if (!this.historyService.hasWatched(video.id)) {
+          this.videoQueue.push(video);
+        }
+      });
+      
+      logger.info(`📋 队列状态: ${this.videoQueue.length} 个视频待播放`);
+      
+      // 处理队列中的视频
+      await this.processVideoQueue();
+    }
+    
+    // 沿目标视频的相关视频继续深入
+    await this.walkRelatedChains(videosToAdd);
+    
+    logger.info('本轮目标视频处理完成');
+    return true;
+  }
+
+  /**
+   * 自适应视频源开启时，选择并切换本轮的视频源
+   */
+  private selectVideoSource(): void {
+    if (!this.sourceController || !this.platform.switchVideoSource) {
+      return;
+    }
+
+    this.sourceChoice = this.sourceController.selectSource();
+    if (this.sourceChoice.source !== this.getCurrentVideoSource()) {
+      this.platform.switchVideoSource(this.sourceChoice.source);
+    }
+    logger.info(`📺 本轮视频源: ${this.sourceChoice.source}${this.sourceChoice.explored ? ' (探索)' : ''}`);
+  }
+
+  /**
+   * 读取平台本轮是否回退到了其他视频源（如 related 没有结果时回退到 home）
+   * 回退只影响本轮，平台的当前视频源不变
+   */
+  private checkSourceFallback(): void {
+    this.roundFallback = this.platform.getFallbackSource?.() ?? null;
+    if (this.roundFallback) {
+      logger.info(`📺 视频源 ${this.getCurrentVideoSource()} 没有结果，本轮回退到 ${this.roundFallback}`);
+    }
+  }
+
+  /**
+   * 本轮实际使用的视频源：发生回退时为回退到的视频源
+   */
+  private getRoundSource(): 'home' | 'related' | 'short' {
+    return this.roundFallback ?? this.getCurrentVideoSource();
+  }
+
+  /**
+   * 记录本轮实际使用的视频源及命中率
+   * 发生回退时原本选择的视频源另记一个空轮，否则它会一直被当作未尝试的视频源
+   */
+  private recordSourceRound(fetched: number, matched: number): void {
+    if (!this.sourceController || !this.sourceChoice) {
+      return;
+    }
+
+    const round = this.sessionPolicy.getRoundCount() + 1;
+    if (this.roundFallback) {
+      const chosen = this.getCurrentVideoSource();
+      this.sourceController.recordRound(chosen, 0, 0);
+      this.historyService.recordSourceRound({
+        sessionId: this.sessionId,
+        round,
+        source: chosen,
+        fetched: 0,
+        matched: 0,
+        hitRate: 0,
+        explored: this.sourceChoice.explored
+      });
+    }
+
+    const source = this.getRoundSource();
+    const hitRate = this.sourceController.recordRound(source, fetched, matched);
+    this.historyService.recordSourceRound({
+      sessionId: this.sessionId,
+      round,
+      source,
+      fetched,
+      matched,
+      hitRate,
+      explored: this.sourceChoice.explored,
+      ...(this.roundFallback ? { fallbackFrom: this.getCurrentVideoSource() } : {})
+    });
+    logger.debug(`📺 视频源 ${source} 本轮命中率 ${(hitRate * 100).toFixed(1)}% (${matched}/${fetched})`);
+  }
+
+  /**
+   * 设置相关推荐的种子视频
+   */
+  private updateRelatedSeed(video: VideoInfo): void {
+    if (!this.platform.setRelatedSeed) {
+      return;
+    }
+    this.platform.setRelatedSeed(video.id);
+    this.sourceController?.setRelatedSeedAvailable(true);
+  }
+
+  /**
+   * 从本轮的目标视频出发遍历相关视频链，找到的目标视频以 related 来源加入队列
+   */
+  private async walkRelatedChains(seeds: VideoInfo[]): Promise<void> {
+    if (!this.chainWalker || seeds.length === 0) {
+      return;
+    }
+    if (!this.chainWalker.isSupported()) {
+      logger.debug('当前平台不支持获取相关视频，跳过相关视频链');
+      return;
+    }
+
+    const progress = this.historyService.getSessionProgress(this.sessionId);
+    const limit = this.sessionPolicy.getRemainingVideos(progress, this.getPendingCount());
+    const chainVideos = await this.chainWalker.walk(seeds, limit, () => this.isRunning);
+    if (chainVideos.length === 0) {
+      logger.info('🔗 相关视频链中没有新的目标视频');
+      return;
+    }
+
+    logger.info(`🔗 沿相关视频链找到 ${chainVideos.length} 个目标视频 (${seeds.length} 个起点)`);
+    for (const { video, link } of chainVideos) {
+      if (!this.isRunning) break;
+
+      if (this.simulatedPlaybackManager) {
+        this.simulatedPlaybackManager.addToQueue([video], 'related', undefined, link);
+      } else if (this.concurrentPlayer) {
+        this.concurrentPlayer.addToQueue([video], 'related', undefined, link);
+      } else {
+        await this.playTargetVideo(video, undefined, 'related', link);
+        await this.delay(this.config.actionDelay);
+      }
+    }
+  }
+
+  /**
+   * 按会话视频数上限截取待加入队列的视频，避免超出 MAX_VIDEOS_PER_SESSION
+   */
+  private limitToSessionBudget(videos: VideoInfo[]): VideoInfo[] {
+    const progress = this.historyService.getSessionProgress(this.sessionId);
+    const remaining = this.sessionPolicy.getRemainingVideos(progress, this.getPendingCount());
+    if (remaining >= videos.length) {
+      return videos;
+    }
+    logger.info(`📝 距离会话视频数上限还剩 ${remaining} 个，本轮只添加 ${remaining} 个视频`);
+    return videos.slice(0, remaining);
+  }
+
+  /**
+   * 已在播放队列中（含正在播放）的视频数
+   */
+  private getPendingCount(): number {
+    if (this.simulatedPlaybackManager) {
+      const status = this.simulatedPlaybackManager.getStatus();
+      return status.queueLength + status.activeWorkers;
+    }
+    if (this.concurrentPlayer) {
+      const status = this.concurrentPlayer.getStatus();
+      return status.pendingCount + status.activePlayers;
+    }
+    return this.videoQueue.length;
+  }
+
+  /**
+   * 筛选目标视频
+   * 由匹配引擎统一判断，被排除规则或元数据条件否决的视频会被记录
+   */
+  private filterTargetVideos(videos: VideoInfo[]): VideoInfo[] {
+    return videos.filter(video => {
+      const result = this.matchService.evaluate(video);
+      if (result.vetoRule) {
+        this.historyService.recordExclusion(video, result.vetoRule);
+        return false;
+      }
+      if (result.matched && this.campaignManager && !this.campaignManager.accepts(result)) {
+        logger.debug(`视频属于其他投放计划，本轮跳过: ${video.title} (${result.campaign})`);
+        return false;
+      }
+      if (result.matched) {
+        logger.info(`视频匹配成功: ${video.title} (关键词: ${result.keywords.join(', ') || '-'}${result.campaign ? `, 投放计划: ${result.campaign}` : ''})`);
+      } else {
+        logger.debug(`视频不匹配: ${video.title}`);
+      }
+      return result.matched;
+    });
+  }
+
+  /**
+   * 按匹配得分排序目标视频
+   * 配置了投放计划时先按所属计划的优先级排序，匹配器不支持评分时保持原有顺序
+   */
+  private rankTargetVideos(videos: VideoInfo[]): VideoInfo[] {
+    if (!this.matcher.score || videos.length === 0) {
+      return videos;
+    }
+
+    const scored = videos
+      .map(video => ({
+        video,
+        score: this.matcher.score!(video).score,
+        priority: this.campaignManager ? this.campaignManager.getPriority(video) : 0
+      }))
+      .sort((a, b) => a.priority - b.priority || b.score - a.score);
+
+    scored.slice(0, 3).forEach(({ video, score }, index) => {
+      logger.debug(`🏅 候选排名 #${index + 1}: ${video.title} (得分 ${score.toFixed(2)})`);
+    });
+
+    return scored.map(item => item.video);
+  }
+
   /**
    * 检查是否需要进行主动搜索
    */
@@ -306,6 +683,7 @@ export class AlgorithmFeeder {
       
       // 执行搜索
       const searchResults = await this.platform.searchVideos(keyword, 20);
+      this.searchBandit?.recordSearch(keyword);
       
       if (searchResults.length === 0) {
         logger.warn(`搜索关键词 "${keyword}" 没有找到任何视频`);
@@ -315,20 +693,20 @@ export class AlgorithmFeeder {
       logger.info(`🔍 搜索到 ${searchResults.length} 个视频`);
       
       // 筛选符合条件的视频
-      const targetVideos = searchResults.filter(video => this.matcher.match(video));
+      const targetVideos = this.rankTargetVideos(this.filterTargetVideos(searchResults));
       
       if (targetVideos.length === 0) {
         logger.info(`搜索结果中没有符合关键词匹配条件的视频`);
         
-        // 即使不完全匹配，也可以播放第一个搜索结果来"教育"算法
-        if (searchResults.length > 0) {
-          const firstVideo = searchResults[0];
+        // 即使不完全匹配，也可以播放第一个未被排除的搜索结果来"教育"算法
+        const firstVideo = searchResults.find(video => !this.matchService.getVetoRule(video));
+        if (firstVideo) {
           logger.info(`🎯 播放搜索结果中的第一个视频来引导算法: ${firstVideo.title}`);
           
           if (this.simulatedPlaybackManager) {
-            this.simulatedPlaybackManager.addToQueue([firstVideo], 'search');
+            this.simulatedPlaybackManager.addToQueue([firstVideo], 'search', keyword);
           } else if (this.concurrentPlayer) {
-            this.concurrentPlayer.addToQueue([firstVideo], [keyword], 'search');
+            this.concurrentPlayer.addToQueue([firstVideo], 'search', keyword);
           } else {
             await this.playTargetVideo(firstVideo, keyword, 'search');
           }
@@ -342,11 +720,15 @@ export class AlgorithmFeeder {
       logger.info(`✅ 在搜索结果中找到 ${targetVideos.length} 个符合条件的目标视频`);
       
       // 播放找到的目标视频
+      const videosToAdd = this.limitToSessionBudget(targetVideos);
+      if (videosToAdd.length === 0) {
+        return true;
+      }
       if (this.simulatedPlaybackManager) {
-        this.simulatedPlaybackManager.addToQueue(targetVideos, 'search');
-        logger.info(`🎭 搜索视频已添加到模拟播放队列: ${targetVideos.length}个视频`);
+        this.simulatedPlaybackManager.addToQueue(videosToAdd, 'search', keyword);
+        logger.info(`🎭 搜索视频已添加到模拟播放队列: ${videosToAdd.length}个视频`);
       } else if (this.concurrentPlayer) {
-        this.concurrentPlayer.addToQueue(targetVideos, this.config.matcher.keywords, 'search');
+        this.concurrentPlayer.addToQueue(videosToAdd, 'search', keyword);
       } else {
         // 只播放第一个匹配的视频
         const selectedVideo = targetVideos[0];
@@ -365,7 +747,8 @@ export class AlgorithmFeeder {
    * 选择搜索关键词
    */
   private selectSearchKeyword(): string | null {
-    const keywords = this.config.matcher.keywords;
+    // 配置了投放计划时使用本轮计划的搜索关键词
+    const keywords = this.campaignManager ? this.campaignManager.getSearchKeywords() : this.config.matcher.keywords;
     if (keywords.length === 0) {
       return null;
     }
@@ -385,9 +768,8 @@ export class AlgorithmFeeder {
       }
         
       case 'weighted':
-        // 加权选择（未来可以根据历史成功率实现）
-        // 目前回退到随机选择
-        return keywords[Math.floor(Math.random() * keywords.length)];
+        // 按各关键词搜索后推荐中出现目标视频的比例选择（UCB1）
+        return this.searchBandit!.select(keywords);
         
       default:
         return keywords[0];
@@ -400,7 +782,8 @@ export class AlgorithmFeeder {
   private async playTargetVideo(
     video: VideoInfo, 
     searchKeyword?: string, 
-    source: 'home' | 'related' | 'short' | 'search' = 'home'
+    source: 'home' | 'related' | 'short' | 'search' = 'home',
+    chain?: RelatedChainLink
   ): Promise<void> {
     const startTime = Date.now();
     let actualPlayDuration = 0;
@@ -411,7 +794,7 @@ export class AlgorithmFeeder {
       await this.platform.playVideo(video);
       
       // 模拟播放模式下不需要额外等待
-      if (this.config.useSimulatedPlayback) {
+      if (this.simulatedPlaybackManager) {
         logger.info(`🎭 模拟播放完成，无需额外等待`);
         actualPlayDuration = Date.now() - startTime;
       } else {
@@ -421,17 +804,23 @@ export class AlgorithmFeeder {
         actualPlayDuration = Date.now() - startTime;
       }
       
-      // 获取匹配的关键词
-      const matchedKeywords = searchKeyword ? [searchKeyword] : this.getMatchedKeywords(video);
+      // 获取匹配结果
+      const match = this.matchService.evaluate(video, searchKeyword);
       
       // 记录观看历史
       this.historyService.recordWatch(
         video,
         actualPlayDuration,
-        matchedKeywords,
+        match,
         source,
-        this.sessionId
+        this.sessionId,
+        undefined,
+        chain
       );
+
+      if (match.matched) {
+        await this.engagementManager?.engage(video, match, this.platform);
+      }
       
     } catch (error) {
       actualPlayDuration = Date.now() - startTime;
@@ -439,14 +828,16 @@ export class AlgorithmFeeder {
       
       // 即使播放失败也记录历史（标记为错误）
       if (actualPlayDuration > 1000) { // 如果播放了超过1秒才记录
-        const matchedKeywords = searchKeyword ? [searchKeyword] : this.getMatchedKeywords(video);
+        const match = this.matchService.evaluate(video, searchKeyword);
         
         this.historyService.recordWatch(
           video,
           actualPlayDuration,
-          matchedKeywords,
+          match,
           source,
-          this.sessionId
+          this.sessionId,
+          undefined,
+          chain
         );
       }
     }
@@ -471,23 +862,6 @@ export class AlgorithmFeeder {
     }
   }
 
-  /**
-   * 获取视频匹配的关键词
-   */
-  private getMatchedKeywords(video: VideoInfo): string[] {
-    const matchedKeywords: string[] = [];
-    const searchText = `${video.title} ${video.author}`.toLowerCase();
-    
-    for (const keyword of this.config.matcher.keywords) {
-      const keywordLower = this.config.matcher.caseSensitive ? keyword : keyword.toLowerCase();
-      if (searchText.includes(keywordLower)) {
-        matchedKeywords.push(keyword);
-      }
-    }
-    
-    return matchedKeywords;
-  }
-
   /**
    * 获取当前视频源
    */
@@ -512,4 +886,18 @@ export class AlgorithmFeeder {
   public isActive(): boolean {
     return this.isRunning;
   }
+
+  /**
+   * 获取本次会话的观看进度
+   */
+  public getSessionProgress(): SessionProgress {
+    return this.historyService.getSessionProgress(this.sessionId);
+  }
+
+  /**
+   * 获取最近一次会话的结束摘要，会话未结束时为 undefined
+   */
+  public getLastSummary(): SessionSummary | undefined {
+    return this.lastSummary;
+  }
 }
\ No newline at end of file
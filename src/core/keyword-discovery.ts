@@ -0,0 +1,136 @@
+import { VideoInfo } from '../types/index.js';
+import { normalizeText } from '../utils/text-normalizer.js';
+
+/**
+ * 候选关键词
+ */
+export interface KeywordSuggestion {
+  term: string;
+  lift: number;                      // 在目标视频中的出现率 / 在未匹配推荐中的出现率（已平滑）
+  matchedCount: number;              // 包含该词的目标视频数
+  unmatchedCount: number;            // 包含该词的未匹配推荐视频数
+  fromTag: boolean;                  // 是否来自视频标签
+}
+
+/**
+ * 关键词发现的设置
+ */
+export interface KeywordDiscoveryOptions {
+  minSupport?: number;               // 最少出现在多少个目标视频中，默认 3
+  minLift?: number;                  // 最低提升度，默认 2
+  limit?: number;                    // 最多返回的候选数，默认 20
+  exclude?: string[];                // 已有关键词，包含或被包含于这些词的候选会被跳过
+}
+
+/**
+ * 关键词发现
+ * 从目标视频的标签和标题中提取候选词，按提升度（lift）排序：
+ * 在目标视频中常见、在未匹配的推荐视频中少见的词排在前面
+ * 标题中的中文按字符 2-3 gram 切分，英文/数字按单词切分
+ */
+export class KeywordDiscovery {
+  private matched = new Map<string, VideoInfo>();
+  private unmatched = new Map<string, VideoInfo>();
+
+  /**
+   * 添加目标视频（同一视频只计一次）
+   */
+  addMatched(videos: VideoInfo[]): void {
+    videos.forEach(video => this.matched.set(video.id, video));
+    videos.forEach(video => this.unmatched.delete(video.id));
+  }
+
+  /**
+   * 添加未匹配的推荐视频，已作为目标视频添加过的会被忽略
+   */
+  addUnmatched(videos: VideoInfo[]): void {
+    videos.filter(video => !this.matched.has(video.id)).forEach(video => this.unmatched.set(video.id, video));
+  }
+
+  getCounts(): { matched: number; unmatched: number } {
+    return { matched: this.matched.size, unmatched: this.unmatched.size };
+  }
+
+  /**
+   * 按提升度排序的候选关键词
+   */
+  suggest(options: KeywordDiscoveryOptions = {}): KeywordSuggestion[] {
+    const { minSupport = 3, minLift = 2, limit = 20, exclude = [] } = options;
+    const excluded = exclude.map(keyword => normalizeText(keyword)).filter(keyword => keyword);
+
+    const matchedCounts = countTerms(this.matched.values());
+    const unmatchedCounts = countTerms(this.unmatched.values());
+    const matchedTotal = this.matched.size;
+    const unmatchedTotal = this.unmatched.size;
+
+    const candidates: KeywordSuggestion[] = [];
+    for (const [term, { count, fromTag }] of matchedCounts) {
+      if (count < minSupport || excluded.some(keyword => term.includes(keyword) || keyword.includes(term))) {
+        continue;
+      }
+      const unmatchedCount = unmatchedCounts.get(term)?.count || 0;
+      // 拉普拉斯平滑，避免未匹配推荐中从未出现的词得到无穷大的提升度
+      const lift = ((count + 1) / (matchedTotal + 2)) / ((unmatchedCount + 1) / (unmatchedTotal + 2));
+      if (lift >= minLift) {
+        candidates.push({ term, lift, matchedCount: count, unmatchedCount, fromTag });
+      }
+    }
+
+    candidates.sort((a, b) => b.lift - a.lift || b.matchedCount - a.matchedCount || b.term.length - a.term.length);
+    return removeFragments(candidates).slice(0, limit);
+  }
+}
+
+/**
+ * 统计每个词出现在多少个视频中
+ */
+function countTerms(videos: Iterable<VideoInfo>): Map<string, { count: number; fromTag: boolean }> {
+  const counts = new Map<string, { count: number; fromTag: boolean }>();
+  for (const video of videos) {
+    const tags = new Set((video.tags || []).map(tag => normalizeText(tag)).filter(tag => tag.length >= 2));
+    const terms = new Set([...tags, ...extractTitleTerms(video.title)]);
+    for (const term of terms) {
+      const current = counts.get(term) || { count: 0, fromTag: false };
+      counts.set(term, { count: current.count + 1, fromTag: current.fromTag || tags.has(term) });
+    }
+  }
+  return counts;
+}
+
+/**
+ * 从标题中提取候选词：英文/数字单词，以及中文片段的 2-3 gram
+ */
+function extractTitleTerms(title: string): string[] {
+  const terms: string[] = [];
+  const segments = normalizeText(title, { stripPunctuation: false }).split(/[\s\p{P}\p{S}]+/u);
+
+  for (const segment of segments) {
+    for (const word of segment.match(/[a-z0-9]+/g) || []) {
+      if (word.length >= 2 && !/^\d+$/.test(word)) {
+        terms.push(word);
+      }
+    }
+    for (const run of segment.match(/\p{Script=Han}+/gu) || []) {
+      for (let n = 2; n <= 3; n++) {
+        for (let i = 0; i + n <= run.length; i++) {
+          terms.push(run.slice(i, i + n));
+        }
+      }
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * 去掉与其他候选词重叠且出现次数相同的片段，避免建议列表被同一个词的 n-gram 占满
+ * 优先保留来自标签的词，其次保留更长的词
+ */
+function removeFragments(candidates: KeywordSuggestion[]): KeywordSuggestion[] {
+  return candidates.filter(candidate => !candidates.some(other =>
+    other !== candidate &&
+    other.matchedCount === candidate.matchedCount &&
+    (other.term.includes(candidate.term) || candidate.term.includes(other.term)) &&
+    (other.fromTag && !candidate.fromTag || other.fromTag === candidate.fromTag && other.term.length > candidate.term.length)
+  ));
+}
@@ -0,0 +1,114 @@
+import { PlatformInterface, VideoInfo, MatchResult, RelatedChainLink } from '../types/index.js';
+import { HistoryService } from '../services/history-service.js';
+import { MatchService } from '../services/match-service.js';
+import { logger } from './logger.js';
+
+/**
+ * 相关视频链上找到的目标视频
+ */
+export interface ChainVideo {
+  video: VideoInfo;
+  link: RelatedChainLink;
+}
+
+/**
+ * 相关视频链的遍历设置
+ */
+export interface RelatedChainOptions {
+  depth: number;                     // 最多深入的层数
+  breadth: number;                   // 每个视频最多跟进的匹配相关视频数
+  requestDelay?: number;             // 两次相关视频请求之间的间隔（毫秒）
+  accepts?: (result: MatchResult) => boolean; // 额外的接受条件（如投放计划轮换）
+}
+
+/**
+ * 相关视频链遍历器
+ * 从目标视频出发逐层获取相关视频，经匹配引擎筛选后跟进得分最高的若干个
+ * 本次遍历中已出现的视频和观看历史中的视频都会跳过，避免绕圈
+ */
+export class RelatedChainWalker {
+  private platform: PlatformInterface;
+  private matchService: MatchService;
+  private historyService: HistoryService;
+  private options: RelatedChainOptions;
+
+  constructor(
+    platform: PlatformInterface,
+    matchService: MatchService,
+    historyService: HistoryService,
+    options: RelatedChainOptions
+  ) {
+    this.platform = platform;
+    this.matchService = matchService;
+    this.historyService = historyService;
+    this.options = options;
+  }
+
+  /**
+   * 平台是否支持获取相关视频
+   */
+  isSupported(): boolean {
+    return typeof this.platform.getRelatedVideos === 'function';
+  }
+
+  /**
+   * 从种子视频出发按层遍历相关视频
+   * @param seeds 本轮找到的目标视频
+   * @param limit 最多返回的视频数
+   * @param shouldContinue 每次请求前检查是否继续（如喂养器已停止）
+   */
+  async walk(seeds: VideoInfo[], limit: number = Infinity, shouldContinue: () => boolean = () => true): Promise<ChainVideo[]> {
+    if (!this.isSupported() || seeds.length === 0 || limit <= 0) {
+      return [];
+    }
+
+    const found: ChainVideo[] = [];
+    const visited = new Set(seeds.map(seed => seed.id));
+    let frontier: ChainVideo[] = seeds.map(seed => ({ video: seed, link: { seedVideoId: seed.id, depth: 0 } }));
+    let requests = 0;
+
+    for (let depth = 1; depth <= this.options.depth && frontier.length > 0; depth++) {
+      const next: ChainVideo[] = [];
+
+      for (const node of frontier) {
+        if (found.length >= limit || !shouldContinue()) {
+          return found.slice(0, limit);
+        }
+
+        if (requests > 0 && this.options.requestDelay) {
+          await this.delay(this.options.requestDelay);
+        }
+        requests++;
+
+        const related = await this.platform.getRelatedVideos!(node.video.id);
+        const candidates = related.filter(video => {
+          if (visited.has(video.id)) return false;
+          visited.add(video.id);
+          return !this.historyService.hasWatched(video.id);
+        });
+
+        const matched = candidates
+          .map(video => ({ video, result: this.matchService.evaluate(video) }))
+          .filter(({ result }) => result.matched && (!this.options.accepts || this.options.accepts(result)))
+          .sort((a, b) => b.result.score - a.result.score)
+          .slice(0, this.options.breadth);
+
+        logger.debug(`🔗 ${node.video.title} 的 ${related.length} 个相关视频中有 ${matched.length} 个被跟进 (第 ${depth} 层)`);
+
+        for (const { video } of matched) {
+          const link = { seedVideoId: node.link.seedVideoId, depth };
+          found.push({ video, link });
+          next.push({ video, link });
+        }
+      }
+
+      frontier = next;
+    }
+
+    return found.slice(0, limit);
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
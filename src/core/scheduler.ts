@@ -0,0 +1,363 @@
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { AppConfig, ScheduleConfig, ScheduleWindow, SessionStopReason } from '../types/index.js';
+import { logger } from './logger.js';
+import { AlgorithmFeeder } from './feeder.js';
+import { STOP_REASON_LABELS } from './session-policy.js';
+import { parseQuery, collectQueryTerms } from '../matchers/query-parser.js';
+import { getZonedParts, zonedTimeToDate, shiftDate, parseTimeOfDay, parseWeekdays, ZonedParts } from '../utils/zoned-time.js';
+
+/**
+ * 按配置创建喂养器（每个窗口使用独立的平台和匹配器实例）
+ */
+export type FeederFactory = (config: AppConfig) => AlgorithmFeeder;
+
+/**
+ * 当前处于的时间窗口
+ */
+export interface ActiveWindow {
+  window: ScheduleWindow;
+  key: string;                       // 窗口实例标识：名称@开始日期
+  startDate: string;                 // 窗口开始的日期（时区内），每日预算按此日期计
+  endsAt: Date;
+}
+
+/**
+ * 持久化的调度状态，重启后据此继续计算每日预算
+ */
+interface ScheduleState {
+  date: string;                      // 预算所在日期（时区内）
+  videosToday: number;               // 当日已播放的视频数
+  lastRun?: {
+    window: string;
+    startedAt: string;
+    endedAt?: string;
+    videos: number;
+    reason?: SessionStopReason;
+  };
+  windows: Record<string, {          // 按窗口实例记录
+    videos: number;
+    completed: boolean;              // 预算已用完或窗口时间已到，窗口内不再重新启动
+  }>;
+}
+
+/**
+ * 定时调度器
+ * 只在配置的时间窗口内运行喂养会话，窗口结束或每日视频预算用完时停止
+ * 会话因其他终止条件（如达到 BROWSE_COUNT 轮数、连续空轮）提前结束时，等待一个检查间隔后在窗口内重新开始
+ * 调度状态持久化到文件，重启后不会重复消耗当日预算
+ */
+export class FeedingScheduler {
+  private config: AppConfig;
+  private schedule: ScheduleConfig;
+  private createFeeder: FeederFactory;
+  private stateFile: string;
+  private isRunning: boolean = false;
+  private currentFeeder?: AlgorithmFeeder;
+  private currentRun?: Promise<void>;
+
+  constructor(config: AppConfig, createFeeder: FeederFactory) {
+    if (!config.schedule) {
+      throw new Error('Schedule configuration is required');
+    }
+    this.config = config;
+    this.schedule = config.schedule;
+    this.createFeeder = createFeeder;
+    this.stateFile = this.schedule.stateFile || 'history/schedule-state.json';
+  }
+
+  /**
+   * 启动调度循环
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      logger.warn('调度器已在运行中');
+      return;
+    }
+
+    this.isRunning = true;
+    logger.info(`📅 定时调度已启动: ${this.schedule.windows.length} 个时间窗口, 时区 ${this.schedule.timezone || '系统默认'}, 每日预算 ${this.schedule.dailyVideoBudget || '不限'}`);
+
+    const checkInterval = (this.schedule.checkInterval ?? 60) * 1000;
+
+    while (this.isRunning) {
+      const now = new Date();
+      const active = this.getActiveWindow(now);
+
+      if (!active) {
+        const next = this.getNextWindowStart(now);
+        if (next) {
+          logger.info(`💤 当前不在运行窗口内，下一个窗口 "${next.window.name}" 将于 ${next.startsAt.toLocaleString('zh-CN', { timeZone: this.schedule.timezone })} 开始`);
+        }
+        await this.sleep(next ? Math.min(checkInterval, next.startsAt.getTime() - now.getTime()) : checkInterval);
+        continue;
+      }
+
+      const state = this.loadState(active.startDate);
+      const windowState = state.windows[active.key];
+      if (windowState?.completed) {
+        logger.info(`⏭️  窗口 "${active.window.name}" 本次已运行完成，等待窗口结束`);
+        await this.sleep(Math.min(checkInterval, active.endsAt.getTime() - now.getTime()));
+        continue;
+      }
+
+      const budget = this.getRemainingVideos(active, state);
+      if (budget <= 0) {
+        logger.info(`💰 窗口 "${active.window.name}" 的视频预算已用完，等待下一个窗口`);
+        await this.sleep(Math.min(checkInterval, active.endsAt.getTime() - now.getTime()));
+        continue;
+      }
+
+      this.currentRun = this.runWindow(active, budget);
+      await this.currentRun;
+      this.currentRun = undefined;
+    }
+
+    logger.info('📅 定时调度已停止');
+  }
+
+  /**
+   * 停止调度，正在运行的喂养会话会被停止并记录进度
+   */
+  async stop(): Promise<void> {
+    if (!this.isRunning) return;
+
+    logger.info('停止定时调度...');
+    this.isRunning = false;
+
+    if (this.currentFeeder) {
+      await this.currentFeeder.stop();
+    }
+    if (this.currentRun) {
+      await this.currentRun;
+    }
+  }
+
+  /**
+   * 获取当前所处的时间窗口
+   */
+  getActiveWindow(now: Date = new Date()): ActiveWindow | null {
+    const timezone = this.schedule.timezone;
+    const today = getZonedParts(now, timezone);
+
+    for (const window of this.schedule.windows) {
+      const days = parseWeekdays(window.days) || [];
+      const start = parseTimeOfDay(window.start) ?? 0;
+      const end = parseTimeOfDay(window.end) ?? 0;
+      const crossesMidnight = end <= start;
+
+      // 今天开始的窗口
+      if (days.includes(today.weekday) && today.minutes >= start && (crossesMidnight || today.minutes < end)) {
+        return this.createActiveWindow(window, today, 0, crossesMidnight ? 1 : 0, end);
+      }
+
+      // 昨天开始、跨越午夜的窗口
+      const yesterday = shiftDate(today, -1);
+      if (crossesMidnight && days.includes(yesterday.weekday) && today.minutes < end) {
+        return this.createActiveWindow(window, today, -1, 0, end);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 获取下一个窗口的开始时间（7 天内）
+   */
+  getNextWindowStart(now: Date = new Date()): { window: ScheduleWindow; startsAt: Date } | null {
+    const timezone = this.schedule.timezone;
+    const today = getZonedParts(now, timezone);
+    let next: { window: ScheduleWindow; startsAt: Date } | null = null;
+
+    for (let offset = 0; offset <= 7; offset++) {
+      const { weekday } = shiftDate(today, offset);
+      for (const window of this.schedule.windows) {
+        const days = parseWeekdays(window.days) || [];
+        if (!days.includes(weekday)) {
+          continue;
+        }
+        const startsAt = zonedTimeToDate(today, offset, parseTimeOfDay(window.start) ?? 0, timezone);
+        if (startsAt > now && (!next || startsAt < next.startsAt)) {
+          next = { window, startsAt };
+        }
+      }
+      if (next) {
+        return next;
+      }
+    }
+
+    return next;
+  }
+
+  /**
+   * 在窗口内运行一次喂养会话
+   */
+  private async runWindow(active: ActiveWindow, budget: number): Promise<void> {
+    const minutesLeft = Math.max(1, Math.ceil((active.endsAt.getTime() - Date.now()) / 60000));
+    const feederConfig = this.buildWindowConfig(active.window, budget, minutesLeft);
+
+    logger.info(`▶️  进入窗口 "${active.window.name}" (${active.window.start}-${active.window.end})，最多运行 ${minutesLeft} 分钟${budget === Infinity ? '' : `、播放 ${budget} 个视频`}`);
+    if (active.window.keywords || active.window.expression) {
+      logger.info(`🔍 窗口关键词: ${active.window.expression || feederConfig.matcher.keywords.join(', ')}`);
+    }
+
+    const state = this.loadState(active.startDate);
+    const baseToday = state.videosToday;
+    const baseWindow = state.windows[active.key]?.videos || 0;
+    const startedAt = new Date().toISOString();
+
+    const saveProgress = (videos: number, reason?: SessionStopReason) => {
+      const latest = this.loadState(active.startDate);
+      latest.videosToday = baseToday + videos;
+      latest.windows[active.key] = { videos: baseWindow + videos, completed: false };
+      if (reason !== undefined && reason !== 'manual' && reason !== 'error') {
+        latest.windows[active.key].completed = this.isWindowFinished(active, latest);
+      }
+      latest.lastRun = {
+        window: active.window.name,
+        startedAt,
+        endedAt: reason ? new Date().toISOString() : undefined,
+        videos,
+        reason
+      };
+      this.saveState(latest);
+    };
+
+    saveProgress(0);
+
+    const feeder = this.createFeeder(feederConfig);
+    this.currentFeeder = feeder;
+
+    // 运行期间定期保存进度，避免进程异常退出后重复消耗预算
+    const timer = setInterval(() => saveProgress(feeder.getSessionProgress().videos), (this.schedule.checkInterval ?? 60) * 1000);
+
+    try {
+      await feeder.start();
+    } catch (error) {
+      logger.error(`窗口 "${active.window.name}" 运行出错:`, error);
+    } finally {
+      clearInterval(timer);
+      this.currentFeeder = undefined;
+    }
+
+    const summary = feeder.getLastSummary();
+    const reason = summary?.reason ?? 'error';
+    saveProgress(summary?.videos ?? feeder.getSessionProgress().videos, reason);
+    logger.info(`⏹️  窗口 "${active.window.name}" 会话结束: ${STOP_REASON_LABELS[reason]}, 播放 ${summary?.videos ?? 0} 个视频`);
+
+    if (!this.isRunning || reason === 'manual') {
+      return;
+    }
+
+    // 出错后等待一段时间再重试，避免频繁重启
+    if (reason === 'error') {
+      await this.sleep(60000);
+      return;
+    }
+
+    if (!this.loadState(active.startDate).windows[active.key]?.completed) {
+      const checkInterval = this.schedule.checkInterval ?? 60;
+      logger.info(`🔁 窗口 "${active.window.name}" 仍有剩余时间和预算，${checkInterval} 秒后重新开始会话`);
+      await this.sleep(checkInterval * 1000);
+    }
+  }
+
+  /**
+   * 窗口是否已完成：视频预算用完或窗口时间已到
+   */
+  private isWindowFinished(active: ActiveWindow, state: ScheduleState): boolean {
+    return this.getRemainingVideos(active, state) <= 0 || Date.now() >= active.endsAt.getTime();
+  }
+
+  /**
+   * 生成窗口内使用的配置：替换关键词，并按窗口剩余时间和预算设置会话上限
+   */
+  private buildWindowConfig(window: ScheduleWindow, budget: number, minutesLeft: number): AppConfig {
+    const matcher = { ...this.config.matcher };
+    if (window.expression) {
+      matcher.expression = window.expression;
+      matcher.keywords = window.keywords || collectQueryTerms(parseQuery(window.expression));
+    } else if (window.keywords) {
+      matcher.keywords = window.keywords;
+    }
+
+    const maxSessionMinutes = this.config.maxSessionMinutes
+      ? Math.min(this.config.maxSessionMinutes, minutesLeft)
+      : minutesLeft;
+    let maxVideosPerSession = this.config.maxVideosPerSession;
+    if (budget !== Infinity) {
+      maxVideosPerSession = maxVideosPerSession ? Math.min(maxVideosPerSession, budget) : budget;
+    }
+
+    return { ...this.config, matcher, maxSessionMinutes, maxVideosPerSession };
+  }
+
+  /**
+   * 计算本次会话还能播放的视频数（每日预算与窗口上限取较小值），不限时返回 Infinity
+   */
+  private getRemainingVideos(active: ActiveWindow, state: ScheduleState): number {
+    let remaining = Infinity;
+    if (this.schedule.dailyVideoBudget) {
+      remaining = this.schedule.dailyVideoBudget - state.videosToday;
+    }
+    if (active.window.maxVideos) {
+      remaining = Math.min(remaining, active.window.maxVideos - (state.windows[active.key]?.videos || 0));
+    }
+    return Math.max(0, remaining);
+  }
+
+  private createActiveWindow(window: ScheduleWindow, today: ZonedParts, startOffset: number, endOffset: number, end: number): ActiveWindow {
+    const startDate = shiftDate(today, startOffset).date;
+    return {
+      window,
+      key: `${window.name}@${startDate}`,
+      startDate,
+      endsAt: zonedTimeToDate(today, endOffset, end, this.schedule.timezone)
+    };
+  }
+
+  /**
+   * 读取调度状态，日期变化时重置当日计数
+   */
+  private loadState(date: string): ScheduleState {
+    let state: ScheduleState = { date, videosToday: 0, windows: {} };
+    try {
+      if (existsSync(this.stateFile)) {
+        state = { ...state, ...JSON.parse(readFileSync(this.stateFile, 'utf-8')) };
+      }
+    } catch (error) {
+      logger.warn(`读取调度状态失败，重新开始计数: ${this.stateFile}`);
+    }
+
+    if (state.date !== date) {
+      // 只保留新日期及之后开始的窗口记录
+      const windows = Object.fromEntries(
+        Object.entries(state.windows || {}).filter(([key]) => key.slice(key.lastIndexOf('@') + 1) >= date)
+      );
+      state = { date, videosToday: 0, lastRun: state.lastRun, windows };
+    }
+    return state;
+  }
+
+  private saveState(state: ScheduleState): void {
+    try {
+      const dir = dirname(this.stateFile);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+      writeFileSync(this.stateFile, JSON.stringify(state, null, 2), 'utf-8');
+    } catch (error) {
+      logger.error('保存调度状态失败:', error);
+    }
+  }
+
+  /**
+   * 分段等待，停止调度时尽快返回
+   */
+  private async sleep(ms: number): Promise<void> {
+    const deadline = Date.now() + Math.max(ms, 1000);
+    while (this.isRunning && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, Math.min(1000, deadline - Date.now())));
+    }
+  }
+}
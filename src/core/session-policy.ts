@@ -0,0 +1,145 @@
+import { AppConfig, SessionStopReason, SessionProgress } from '../types/index.js';
+
+/**
+ * 会话结束原因的中文说明
+ */
+export const STOP_REASON_LABELS: Record<SessionStopReason, string> = {
+  'max-rounds': '达到最大搜索轮数',
+  'max-videos': '达到单次会话最大视频数',
+  'max-watch-time': '达到最长观看时长',
+  'max-duration': '达到最长运行时间',
+  'empty-rounds': '连续多轮未找到目标视频',
+  'manual': '手动停止',
+  'error': '运行出错'
+};
+
+/**
+ * 会话终止条件
+ * 所有上限为 0 或未设置时表示不限
+ */
+export interface SessionLimits {
+  maxRounds?: number;
+  maxVideos?: number;
+  maxWatchMinutes?: number;
+  maxDurationMinutes?: number;
+  maxEmptyRounds?: number;
+}
+
+/**
+ * 会话终止策略
+ * 记录搜索轮数和连续空轮数，结合观看进度判断会话是否应当结束
+ */
+export class SessionPolicy {
+  private limits: SessionLimits;
+  private startTime: number;
+  private rounds: number = 0;
+  private emptyRounds: number = 0;
+
+  constructor(limits: SessionLimits, startTime: number = Date.now()) {
+    this.limits = limits;
+    this.startTime = startTime;
+  }
+
+  /**
+   * 根据应用配置创建终止策略
+   */
+  static fromConfig(config: AppConfig): SessionPolicy {
+    return new SessionPolicy({
+      maxRounds: config.browseCount,
+      maxVideos: config.maxVideosPerSession,
+      maxWatchMinutes: config.maxWatchMinutes,
+      maxDurationMinutes: config.maxSessionMinutes,
+      maxEmptyRounds: config.maxEmptyRounds
+    });
+  }
+
+  /**
+   * 记录一轮搜索的结果
+   * @param found 本轮是否找到目标视频
+   */
+  recordRound(found: boolean): void {
+    this.rounds++;
+    this.emptyRounds = found ? 0 : this.emptyRounds + 1;
+  }
+
+  /**
+   * 检查会话是否应当结束
+   * @param progress 当前会话的观看进度
+   * @returns 结束原因，应继续运行时返回 null
+   */
+  check(progress: SessionProgress): SessionStopReason | null {
+    const { maxRounds, maxVideos, maxWatchMinutes, maxEmptyRounds } = this.limits;
+
+    if (isLimited(maxVideos) && progress.videos >= maxVideos!) {
+      return 'max-videos';
+    }
+    if (isLimited(maxWatchMinutes) && progress.watchSeconds >= maxWatchMinutes! * 60) {
+      return 'max-watch-time';
+    }
+    if (this.getRemainingTime() <= 0) {
+      return 'max-duration';
+    }
+    if (isLimited(maxEmptyRounds) && this.emptyRounds >= maxEmptyRounds!) {
+      return 'empty-rounds';
+    }
+    if (isLimited(maxRounds) && this.rounds >= maxRounds!) {
+      return 'max-rounds';
+    }
+    return null;
+  }
+
+  /**
+   * 剩余运行时间（毫秒），不限时返回 Infinity
+   */
+  getRemainingTime(): number {
+    const { maxDurationMinutes } = this.limits;
+    if (!isLimited(maxDurationMinutes)) {
+      return Infinity;
+    }
+    return this.startTime + maxDurationMinutes! * 60000 - Date.now();
+  }
+
+  /**
+   * 还能加入播放队列的视频数，不限时返回 Infinity
+   * @param progress 当前会话的观看进度
+   * @param pending 已在队列中等待播放的视频数
+   */
+  getRemainingVideos(progress: SessionProgress, pending: number): number {
+    const { maxVideos } = this.limits;
+    if (!isLimited(maxVideos)) {
+      return Infinity;
+    }
+    return Math.max(0, maxVideos! - progress.videos - pending);
+  }
+
+  getRoundCount(): number {
+    return this.rounds;
+  }
+
+  getEmptyRoundCount(): number {
+    return this.emptyRounds;
+  }
+
+  getStartTime(): number {
+    return this.startTime;
+  }
+
+  /**
+   * 终止条件的可读描述
+   */
+  describe(): string {
+    const { maxRounds, maxVideos, maxWatchMinutes, maxDurationMinutes, maxEmptyRounds } = this.limits;
+    const parts = [
+      isLimited(maxRounds) ? `${maxRounds} 轮` : null,
+      isLimited(maxVideos) ? `${maxVideos} 个视频` : null,
+      isLimited(maxWatchMinutes) ? `观看 ${maxWatchMinutes} 分钟` : null,
+      isLimited(maxDurationMinutes) ? `运行 ${maxDurationMinutes} 分钟` : null,
+      isLimited(maxEmptyRounds) ? `连续 ${maxEmptyRounds} 轮无目标` : null
+    ].filter(part => part !== null);
+    return parts.length > 0 ? parts.join(', ') : '不限';
+  }
+}
+
+function isLimited(value?: number): boolean {
+  return value !== undefined && !isNaN(value) && value > 0;
+}
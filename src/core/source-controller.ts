@@ -0,0 +1,128 @@
+/**
+ * 可切换的推荐视频源
+ */
+export type VideoSource = 'home' | 'related' | 'short';
+
+/**
+ * 自适应视频源的设置
+ */
+export interface SourceControllerOptions {
+  sources: VideoSource[];            // 参与选择的视频源
+  window: number;                    // 每个视频源统计最近多少轮
+  exploration: number;               // 探索概率 0-1，以该概率随机选择非最优视频源
+}
+
+/**
+ * 一轮推荐的命中情况
+ */
+export interface SourceObservation {
+  source: VideoSource;
+  fetched: number;
+  matched: number;
+}
+
+/**
+ * 本轮的视频源选择
+ */
+export interface SourceChoice {
+  source: VideoSource;
+  explored: boolean;                 // 是否为探索选择
+}
+
+/**
+ * 自适应视频源控制器
+ * 按各视频源最近若干轮的目标视频命中率选择本轮视频源（epsilon-greedy）
+ * 尚未尝试过的视频源优先；related 需要已有匹配视频作为种子
+ */
+export class SourceController {
+  private options: SourceControllerOptions;
+  private observations: SourceObservation[] = [];
+  private hasRelatedSeed: boolean = false;
+
+  /**
+   * @param options 视频源设置
+   * @param history 之前会话记录的轮次（按时间从早到晚），用于延续学习结果
+   */
+  constructor(options: SourceControllerOptions, history: SourceObservation[] = []) {
+    this.options = options;
+    history.forEach(round => this.observe(round));
+  }
+
+  /**
+   * 设置是否已有 related 的种子视频
+   */
+  setRelatedSeedAvailable(available: boolean): void {
+    this.hasRelatedSeed = available;
+  }
+
+  /**
+   * 选择本轮的视频源
+   */
+  selectSource(): SourceChoice {
+    const candidates = this.getAvailableSources();
+    if (candidates.length === 1) {
+      return { source: candidates[0], explored: false };
+    }
+
+    const untried = candidates.filter(source => this.getRounds(source).length === 0);
+    if (untried.length > 0) {
+      return { source: untried[0], explored: true };
+    }
+
+    const best = candidates.reduce((a, b) => (this.getHitRate(b) > this.getHitRate(a) ? b : a));
+    if (Math.random() < this.options.exploration) {
+      const others = candidates.filter(source => source !== best);
+      return { source: others[Math.floor(Math.random() * others.length)], explored: true };
+    }
+    return { source: best, explored: false };
+  }
+
+  /**
+   * 记录一轮推荐的结果
+   * @returns 本轮命中率
+   */
+  recordRound(source: VideoSource, fetched: number, matched: number): number {
+    this.observe({ source, fetched, matched });
+    return fetched > 0 ? matched / fetched : 0;
+  }
+
+  /**
+   * 视频源最近若干轮的命中率（目标视频数 / 获取视频数），没有记录时为 0
+   */
+  getHitRate(source: VideoSource): number {
+    const rounds = this.getRounds(source);
+    const fetched = rounds.reduce((sum, round) => sum + round.fetched, 0);
+    const matched = rounds.reduce((sum, round) => sum + round.matched, 0);
+    return fetched > 0 ? matched / fetched : 0;
+  }
+
+  /**
+   * 各视频源命中率的可读描述
+   */
+  describe(): string {
+    return this.options.sources
+      .map(source => `${source} ${(this.getHitRate(source) * 100).toFixed(1)}% (${this.getRounds(source).length}轮)`)
+      .join(', ');
+  }
+
+  private getAvailableSources(): VideoSource[] {
+    const sources = this.options.sources.filter(source => source !== 'related' || this.hasRelatedSeed);
+    return sources.length > 0 ? sources : ['home'];
+  }
+
+  private getRounds(source: VideoSource): SourceObservation[] {
+    return this.observations.filter(round => round.source === source);
+  }
+
+  /**
+   * 保存观察结果，每个视频源只保留最近 window 轮
+   */
+  private observe(round: SourceObservation): void {
+    this.observations.push({ source: round.source, fetched: round.fetched, matched: round.matched });
+    const rounds = this.getRounds(round.source);
+    if (rounds.length > this.options.window) {
+      const oldest = rounds[0];
+      this.observations.splice(this.observations.indexOf(oldest), 1);
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { createInterface } from 'readline';
+import { ConfigManager } from './config/config.js';
+import { HistoryService } from './services/history-service.js';
+import { FeedSnapshotService } from './services/feed-snapshot-service.js';
+import { KeywordDiscovery, KeywordSuggestion } from './core/keyword-discovery.js';
+import { logger } from './core/logger.js';
+import { AppConfig, CampaignConfig, VideoInfo } from './types/index.js';
+
+/**
+ * 关键词发现工具
+ * 从观看历史和推荐快照中找出目标视频里常见、未匹配推荐里少见的词，
+ * 可交互地把候选词加入投放计划的关键词
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  if (args[0] === 'help' || args.includes('--help')) {
+    printHelp();
+    return;
+  }
+
+  // 只输出分析结果，避免日志干扰
+  logger.setLevel('warn');
+
+  const config = ConfigManager.getOfflineInstance().getConfig();
+  const campaignName = getOption(args, '--campaign');
+  const days = parseInt(getOption(args, '--days') || '30');
+  const campaign = campaignName ? config.campaigns?.campaigns.find(profile => profile.name === campaignName) : undefined;
+
+  if (campaignName && !campaign) {
+    console.log(`❌ 未找到投放计划: ${campaignName}（请检查 CAMPAIGN_FILE）`);
+    process.exit(1);
+  }
+
+  const discovery = loadVideos(config, days, campaignName);
+  const counts = discovery.getCounts();
+  const existing = campaign ? campaign.keywords || [] : config.matcher.keywords;
+  const suggestions = discovery.suggest({
+    minSupport: parseInt(getOption(args, '--min-support') || '3'),
+    minLift: parseFloat(getOption(args, '--min-lift') || '2'),
+    limit: parseInt(getOption(args, '--limit') || '20'),
+    exclude: [...existing, ...(config.matcher.excludeKeywords || [])]
+  });
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(suggestions, null, 2));
+    return;
+  }
+
+  console.log(`🔍 候选关键词${campaignName ? ` (投放计划: ${campaignName})` : ''} - 最近 ${days} 天, 目标视频 ${counts.matched} 个, 未匹配推荐 ${counts.unmatched} 个`);
+  console.log('='.repeat(50));
+
+  if (suggestions.length === 0) {
+    console.log('暂无候选关键词（目标视频或推荐快照太少时可降低 --min-support）');
+    return;
+  }
+
+  suggestions.forEach((suggestion, index) => console.log(formatSuggestion(suggestion, index)));
+
+  if (args.includes('--accept')) {
+    await acceptSuggestions(config, suggestions, campaignName);
+  }
+}
+
+/**
+ * 收集目标视频和未匹配的推荐视频
+ * 观看历史中只有真正匹配的记录算作目标视频（主动搜索时为引导算法播放的未匹配视频不算），
+ * 同一视频在观看历史和推荐快照中只计一次；指定投放计划时只有归入该计划的视频算作目标视频
+ */
+function loadVideos(config: AppConfig, days: number, campaignName?: string): KeywordDiscovery {
+  const discovery = new KeywordDiscovery();
+  const cutoff = days > 0 ? Date.now() - days * 24 * 60 * 60 * 1000 : 0;
+  const threshold = getSimilarityThreshold(config);
+  const matched = new Map<string, VideoInfo>();
+  const unmatched = new Map<string, VideoInfo>();
+
+  const history = new HistoryService(config.platformType).getRecentHistory(Infinity).filter(record =>
+    record.platform === config.platformType &&
+    new Date(record.timestamp).getTime() >= cutoff &&
+    (!campaignName || record.campaign === campaignName) &&
+    (record.matchedKeywords?.length > 0 || (threshold !== undefined && (record.matchScore || 0) > 0 && record.matchScore! >= threshold))
+  );
+  history.forEach(record => matched.set(record.video.id, record.video));
+
+  const snapshots = new FeedSnapshotService(config.platformType).getSnapshots(days);
+  for (const snapshot of snapshots) {
+    for (const item of snapshot.videos) {
+      if (!item.match.matched) {
+        unmatched.set(item.video.id, item.video);
+      } else if ((!campaignName || item.match.campaign === campaignName) && !matched.has(item.video.id)) {
+        matched.set(item.video.id, item.video);
+      }
+    }
+  }
+
+  discovery.addMatched(Array.from(matched.values()));
+  discovery.addUnmatched(Array.from(unmatched.values()));
+  return discovery;
+}
+
+/**
+ * 语义匹配时没有命中关键词的目标视频按相似度判断，返回视为匹配的最低相似度；其他匹配器返回 undefined
+ */
+function getSimilarityThreshold(config: AppConfig): number | undefined {
+  const { type, pipeline, semantic } = config.matcher;
+  const usesSemantic = type === 'semantic' || !!pipeline?.some(stage => stage.split('|').includes('semantic'));
+  return usesSemantic ? semantic?.minSimilarity ?? 0.2 : undefined;
+}
+
+/**
+ * 逐个询问是否接受候选词，接受的词写入投放计划文件
+ */
+async function acceptSuggestions(config: AppConfig, suggestions: KeywordSuggestion[], campaignName?: string): Promise<void> {
+  const campaignFile = process.env.CAMPAIGN_FILE;
+  const target = campaignName || (config.campaigns?.campaigns.length === 1 ? config.campaigns.campaigns[0].name : undefined);
+  if (!campaignFile || !target) {
+    console.log('');
+    console.log('❌ 接受候选词需要配置 CAMPAIGN_FILE，且有多个投放计划时需用 --campaign 指定计划');
+    return;
+  }
+
+  // 逐行读取回答（输入结束时视为 q），支持通过管道提供回答
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const answers = rl[Symbol.asyncIterator]();
+  const accepted: string[] = [];
+
+  console.log('');
+  console.log(`📝 逐个确认要加入投放计划 "${target}" 的关键词 (y: 加入, n: 跳过, q: 结束)`);
+  for (const suggestion of suggestions) {
+    process.stdout.write(`加入 "${suggestion.term}"? [y/N/q] `);
+    const next = await answers.next();
+    const answer = next.done ? 'q' : next.value.trim().toLowerCase();
+    if (answer === 'q') {
+      break;
+    }
+    if (answer === 'y' || answer === 'yes') {
+      accepted.push(suggestion.term);
+    }
+  }
+  rl.close();
+
+  if (accepted.length === 0) {
+    console.log('未加入任何关键词');
+    return;
+  }
+
+  addCampaignKeywords(campaignFile, target, accepted);
+  console.log(`✅ 已将 ${accepted.join(', ')} 加入投放计划 "${target}" (${campaignFile})`);
+}
+
+/**
+ * 把关键词追加到投放计划文件中指定计划的 keywords
+ */
+function addCampaignKeywords(campaignFile: string, name: string, keywords: string[]): void {
+  const campaigns: CampaignConfig = JSON.parse(readFileSync(campaignFile, 'utf-8'));
+  const profile = campaigns.campaigns.find(item => item.name === name);
+  if (!profile) {
+    throw new Error(`Campaign "${name}" not found in ${campaignFile}`);
+  }
+
+  profile.keywords = Array.from(new Set([...(profile.keywords || []), ...keywords]));
+  writeFileSync(campaignFile, JSON.stringify(campaigns, null, 2) + '\n', 'utf-8');
+
+  if (profile.expression) {
+    console.log(`⚠️  投放计划 "${name}" 使用布尔表达式匹配，新关键词只用于主动搜索，需要时请手动加入表达式`);
+  }
+}
+
+function formatSuggestion(suggestion: KeywordSuggestion, index: number): string {
+  const source = suggestion.fromTag ? '标签' : '标题';
+  return `${String(index + 1).padStart(2)}. ${suggestion.term}  提升度 ${suggestion.lift.toFixed(1)}, 目标视频 ${suggestion.matchedCount} 个, 未匹配推荐 ${suggestion.unmatchedCount} 个 (${source})`;
+}
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function printHelp() {
+  console.log('📖 关键词发现工具使用说明:');
+  console.log('');
+  console.log('npm run discover-keywords -- [选项]');
+  console.log('');
+  console.log('从观看历史 (history/watch-history.jsonl) 和推荐快照 (history/feed-snapshots.jsonl) 中');
+  console.log('找出在目标视频中常见、在未匹配推荐中少见的标签和标题词，按提升度排序');
+  console.log('');
+  console.log('选项:');
+  console.log('  --campaign <名称>    只统计归入该投放计划的目标视频，排除该计划已有的关键词');
+  console.log('  --days <天数>        统计最近多少天的记录 (默认30, 0 表示全部)');
+  console.log('  --min-support <数量> 候选词最少出现在多少个目标视频中 (默认3)');
+  console.log('  --min-lift <倍数>    最低提升度 (默认2)');
+  console.log('  --limit <数量>       最多显示的候选词数 (默认20)');
+  console.log('  --accept             逐个确认候选词，接受的词写入 CAMPAIGN_FILE 中的投放计划');
+  console.log('  --json               以 JSON 格式输出候选词');
+  console.log('');
+  console.log('示例:');
+  console.log('  npm run discover-keywords');
+  console.log('  npm run discover-keywords -- --campaign anime --days 14');
+  console.log('  npm run discover-keywords -- --campaign anime --accept');
+}
+
+// 运行工具
+main().catch(error => {
+  logger.error('关键词发现工具运行失败:', error);
+  process.exit(1);
+});
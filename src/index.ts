@@ -1,8 +1,10 @@
 import { AlgorithmFeeder } from './core/feeder.js';
+import { FeedingScheduler } from './core/scheduler.js';
 import { PlatformFactory } from './platforms/platform-factory.js';
-import { KeywordMatcher } from './matchers/keyword-matcher.js';
+import { MatcherFactory } from './matchers/matcher-factory.js';
 import { ConfigManager } from './config/config.js';
 import { logger } from './core/logger.js';
+import { AppConfig } from './types/index.js';
 
 /**
  * 应用程序入口点
@@ -25,7 +27,25 @@ async function main() {
     
     // 显示配置信息
     logger.info(`🎯 平台: ${config.platformType} (${config.platform.baseUrl})`);
-    logger.info(`🔍 目标关键词: ${config.matcher.keywords.join(', ')}`);
+    if (config.campaigns) {
+      logger.info(`🎯 投放计划: ${config.campaigns.campaigns.map(profile => profile.name).join(', ')} (${config.campaigns.strategy || 'balance'} 策略, 统计最近 ${config.campaigns.lookbackDays ?? 7} 天)`);
+    } else if (config.matcher.expression) {
+      logger.info(`🔍 关键词表达式: ${config.matcher.expression}`);
+    } else {
+      logger.info(`🔍 目标关键词: ${config.matcher.keywords.join(', ')}`);
+    }
+    const filter = config.matcher.metadataFilter;
+    if (filter && Object.values(filter).some(value => value !== undefined && value !== false)) {
+      logger.info(`📏 元数据过滤: 时长 ${filter.minDuration ?? '-'}~${filter.maxDuration ?? '-'}秒, 最少播放 ${filter.minViews ?? '-'}, 最大发布 ${filter.maxAgeDays ?? '-'}天${filter.requireThumbnail ? ', 需要封面' : ''}`);
+    }
+    const fuzzy = config.matcher.fuzzy;
+    if (fuzzy) {
+      logger.info(`🧩 模糊匹配: 编辑距离 ≤${fuzzy.maxEditDistance ?? 1}, 拼音${fuzzy.pinyin !== false ? '开' : '关'}, 罗马字${fuzzy.romaji !== false ? '开' : '关'}, 别名 ${Object.keys(fuzzy.aliases || {}).length} 组, 最低置信度 ${fuzzy.minConfidence ?? 0.6}`);
+    }
+    const semantic = config.matcher.semantic;
+    if (config.matcher.type === 'semantic' || semantic?.rerank) {
+      logger.info(`🧠 语义匹配: 种子 ${semantic?.seedFile}, ${semantic?.mode || 'centroid'} 模式, ${config.matcher.type === 'semantic' ? `最低相似度 ${semantic?.minSimilarity ?? 0.2}` : `第二阶段排序权重 ${semantic?.weight ?? 10}`}`);
+    }
     logger.info(`🎬 播放时长: ${config.playDuration / 1000}秒`);
     logger.info(`⏱️  搜索间隔: ${config.searchInterval / 1000}秒`);
     logger.info(`🎭 并发播放器: ${config.concurrentPlayers || 1} 个`);
@@ -34,6 +54,10 @@ async function main() {
     logger.info(`📺 初始视频源: ${config.initialVideoSource || 'home'}`);
     logger.info(`📊 每页视频数: ${config.videosPerPage || 12}`);
     logger.info(`🔍 主动搜索: ${config.enableActiveSearch ? '启用' : '禁用'} (阈值: ${config.activeSearchThreshold || 10}轮, 策略: ${config.activeSearchStrategy || 'random'})`);
+    if (config.suppress) {
+      const rules = [...config.suppress.keywords, ...(config.suppress.authors || []).map(author => `@${author}`)];
+      logger.info(`🚫 负反馈规则: ${rules.join(', ')} (每天最多 ${config.suppress.dailyLimit} 次)`);
+    }
     logger.info(`📋 队列管理: 每轮最多${config.maxVideosPerQueue || 5}个视频, 队列最大${config.maxQueueSize || 20}个`);
     logger.info(`🎭 模拟播放: ${config.useSimulatedPlayback ? '启用' : '禁用'}${config.useSimulatedPlayback ? ` (模拟${config.simulatedWatchDuration || 30}秒, 实际等待${config.simulatedActualWaitTime || 5}秒, ${config.simulatedPlaybackSpeed || 2}x速度, ${config.concurrentPlayers || 1}个并发工作器)` : ''}`);
     
@@ -44,32 +68,16 @@ async function main() {
       }
     }
     
-    // 创建平台实例
-    const platform = PlatformFactory.createPlatform(
-      config.platformType,
-      config.platform, 
-      config.headless,
-      config.videosPerPage || 12,
-      config.apiTimeout || 30000,
-      config.useSimulatedPlayback || false,
-      {
-        watchDuration: config.simulatedWatchDuration || 30,
-        minWaitTime: config.simulatedActualWaitTime || 5,
-        playbackSpeed: config.simulatedPlaybackSpeed || 2,
-        durationVariation: config.simulatedDurationVariation || 5
-      }
-    );
-    
-    // 设置初始视频源
-    if (config.initialVideoSource && platform.switchVideoSource) {
-      platform.switchVideoSource(config.initialVideoSource);
+    if (config.schedule) {
+      // 定时调度模式：只在配置的时间窗口内运行喂养会话
+      const scheduler = new FeedingScheduler(config, createFeeder);
+      setupGracefulShutdown(scheduler);
+      await scheduler.start();
+      return;
     }
     
-    // 创建匹配器实例
-    const matcher = new KeywordMatcher(config.matcher);
-    
     // 创建喂养器实例
-    const feeder = new AlgorithmFeeder(platform, matcher, config);
+    const feeder = createFeeder(config);
     
     // 处理进程退出信号
     setupGracefulShutdown(feeder);
@@ -83,10 +91,43 @@ async function main() {
   }
 }
 
+/**
+ * 根据配置创建平台、匹配器和喂养器实例
+ */
+function createFeeder(config: AppConfig): AlgorithmFeeder {
+  // 创建平台实例
+  const platform = PlatformFactory.createPlatform(
+    config.platformType,
+    config.platform, 
+    config.headless,
+    config.videosPerPage || 12,
+    config.apiTimeout || 30000,
+    config.useSimulatedPlayback || false,
+    {
+      watchDuration: config.simulatedWatchDuration || 30,
+      minWaitTime: config.simulatedActualWaitTime || 5,
+      playbackSpeed: config.simulatedPlaybackSpeed || 2,
+      durationVariation: config.simulatedDurationVariation || 5
+    }
+  );
+  
+  // 设置初始视频源
+  if (config.initialVideoSource && platform.switchVideoSource) {
+    platform.switchVideoSource(config.initialVideoSource);
+  }
+  
+  // 创建匹配器实例（配置了投放计划时每个计划使用独立的匹配器）
+  const matcher = config.campaigns
+    ? MatcherFactory.createCampaignMatcher(config.matcher, config.campaigns.campaigns)
+    : MatcherFactory.createMatcher(config.matcher);
+  
+  return new AlgorithmFeeder(platform, matcher, config);
+}
+
 /**
  * 设置优雅退出处理
  */
-function setupGracefulShutdown(feeder: AlgorithmFeeder) {
+function setupGracefulShutdown(feeder: { stop(): Promise<void> }) {
   const signals = ['SIGINT', 'SIGTERM', 'SIGQUIT'];
   
   signals.forEach(signal => {
@@ -0,0 +1,105 @@
+import { existsSync } from 'fs';
+import { ConfigManager } from './config/config.js';
+import { HistoryService } from './services/history-service.js';
+import { MatcherFactory } from './matchers/matcher-factory.js';
+import { explainMatch, formatExplanation } from './matchers/match-explainer.js';
+import { logger } from './core/logger.js';
+import { VideoInfo } from './types/index.js';
+import { readVideoFile } from './utils/video-file.js';
+
+/**
+ * 匹配解释工具
+ * 在当前匹配配置下离线解释视频为何匹配或不匹配
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const asJson = args.includes('--json');
+  const target = args.find(arg => !arg.startsWith('--'));
+
+  if (!target || target === 'help') {
+    printHelp();
+    return;
+  }
+
+  // 只输出解释结果，避免日志干扰
+  logger.setLevel('warn');
+
+  const config = ConfigManager.getOfflineInstance().getConfig();
+  const videos = loadVideos(target, config.platformType);
+  if (videos.length === 0) {
+    process.exit(1);
+  }
+
+  const matcher = MatcherFactory.createMatcher(config.matcher);
+  const explanations = videos.map(video => explainMatch(video, config.matcher, matcher));
+
+  if (asJson) {
+    console.log(JSON.stringify(explanations, null, 2));
+    return;
+  }
+
+  explanations.forEach((explanation, index) => {
+    if (index > 0) {
+      console.log('-'.repeat(50));
+    }
+    console.log(formatExplanation(explanation));
+  });
+
+  if (explanations.length > 1) {
+    const matched = explanations.filter(e => e.result.matched).length;
+    const vetoed = explanations.filter(e => e.result.vetoRule).length;
+    console.log('='.repeat(50));
+    console.log(`📋 共 ${explanations.length} 个视频: 匹配 ${matched} 个, 被否决 ${vetoed} 个, 未匹配 ${explanations.length - matched - vetoed} 个`);
+  }
+}
+
+/**
+ * 加载待解释的视频
+ * 支持视频文件（见 readVideoFile）以及观看历史中的视频ID/链接
+ */
+function loadVideos(target: string, platform: string): VideoInfo[] {
+  if (existsSync(target)) {
+    try {
+      const videos = readVideoFile(target);
+      if (videos.length === 0) {
+        console.log(`❌ 文件中没有有效的视频信息: ${target}`);
+      }
+      return videos;
+    } catch (error) {
+      console.log(`❌ 无法解析文件 ${target}: ${error.message}`);
+      return [];
+    }
+  }
+
+  const record = new HistoryService(platform).findRecord(target);
+  if (!record) {
+    console.log(`❌ 观看历史中未找到视频: ${target}`);
+    console.log('   可以改为提供保存的 VideoInfo JSON 文件');
+    return [];
+  }
+  return [record.video];
+}
+
+function printHelp() {
+  console.log('📖 匹配解释工具使用说明:');
+  console.log('');
+  console.log('npm run match-explain <视频ID|视频链接|JSON/JSONL文件> [--json]');
+  console.log('');
+  console.log('输入:');
+  console.log('  视频ID/链接        从观看历史 (history/watch-history.jsonl) 中查找视频');
+  console.log('  JSON/JSONL文件     单个 VideoInfo、VideoInfo 数组、推荐快照 ({ "videos": [...] }) 或观看历史');
+  console.log('');
+  console.log('选项:');
+  console.log('  --json             以 JSON 格式输出解释结果');
+  console.log('');
+  console.log('示例:');
+  console.log('  npm run match-explain BV1234567890');
+  console.log('  npm run match-explain https://www.youtube.com/watch?v=dQw4w9WgXcQ');
+  console.log('  npm run match-explain snapshots/home.json');
+}
+
+// 运行工具
+main().catch(error => {
+  logger.error('匹配解释工具运行失败:', error);
+  process.exit(1);
+});
@@ -0,0 +1,165 @@
+import { MatcherInterface, MatcherConfig, VideoInfo, MatchResult, KeywordHit, MatchField } from '../types/index.js';
+import { logger } from '../core/logger.js';
+import { ExclusionFilter } from './exclusion-filter.js';
+import { FuzzyMatcher } from './fuzzy-matcher.js';
+import { createMatchResult, createVetoedResult } from './match-result.js';
+import { normalizeForMatching } from '../utils/text-normalizer.js';
+import { parseQuery, evaluateQuery, formatQuery, collectQueryTermNodes, QueryNode, QueryFields, QueryTerm } from './query-parser.js';
+
+/**
+ * 布尔表达式匹配器
+ * 支持 AND/OR/NOT、括号、引号短语和字段前缀的关键词表达式
+ */
+export class BooleanMatcher implements MatcherInterface {
+  private config: MatcherConfig;
+  private query: QueryNode | null = null;
+  private exclusionFilter: ExclusionFilter;
+  private fuzzyMatcher: FuzzyMatcher;
+
+  constructor(config?: MatcherConfig) {
+    this.config = config || {
+      keywords: [],
+      matchMode: 'any',
+      caseSensitive: false,
+      type: 'boolean',
+      expression: ''
+    };
+    this.exclusionFilter = new ExclusionFilter(this.config);
+    this.fuzzyMatcher = new FuzzyMatcher(this.config);
+    this.compile();
+  }
+
+  /**
+   * 配置匹配器
+   */
+  configure(config: MatcherConfig): void {
+    this.config = config;
+    this.exclusionFilter.configure(config);
+    this.fuzzyMatcher.configure(config);
+    this.compile();
+    logger.debug(`布尔表达式匹配器配置更新: ${JSON.stringify(config)}`);
+  }
+
+  /**
+   * 匹配视频是否符合表达式
+   */
+  match(video: VideoInfo): boolean {
+    if (!this.query) {
+      logger.warn('关键词表达式为空或无效，跳过匹配');
+      return false;
+    }
+
+    const result = this.evaluate(video);
+    if (result.vetoRule) {
+      logger.debug(`视频被排除规则否决: ${video.title} (${result.vetoRule})`);
+      return false;
+    }
+
+    result.hits.filter(hit => hit.type !== 'exact').forEach(hit => {
+      logger.debug(`模糊匹配: ${hit.keyword} ≈ ${hit.variant} (${hit.type}, 置信度 ${hit.confidence})`);
+    });
+
+    if (result.matched) {
+      logger.info(`视频匹配成功: ${video.title}`);
+    } else {
+      logger.debug(`视频不匹配: ${video.title}`);
+    }
+
+    return result.matched;
+  }
+
+  /**
+   * 计算结构化匹配结果
+   * 表达式成立时，命中的正向词作为匹配关键词
+   */
+  evaluate(video: VideoInfo): MatchResult {
+    // 排除规则优先于正向匹配
+    const exclusionRule = this.exclusionFilter.check(video);
+    if (exclusionRule) {
+      return createVetoedResult(exclusionRule);
+    }
+
+    if (!this.query) {
+      return createMatchResult(false, []);
+    }
+
+    const fields = this.prepareFields(video);
+    const matched = evaluateQuery(this.query, fields, (term, texts) => this.fuzzyMatcher.find(term, texts) !== null);
+    if (!matched) {
+      return createMatchResult(false, []);
+    }
+
+    const hits: KeywordHit[] = [];
+    for (const term of collectQueryTermNodes(this.query)) {
+      const hit = this.fuzzyMatcher.findInFields(term.value, this.getTermFields(term, fields));
+      if (hit && !hits.some(existing => existing.keyword === hit.keyword)) {
+        hits.push(hit);
+      }
+    }
+
+    return createMatchResult(true, hits);
+  }
+
+  /**
+   * 词所限定的字段，未指定字段时为标题、标签、作者
+   */
+  private getTermFields(term: QueryTerm, fields: QueryFields): Partial<Record<MatchField, string[]>> {
+    switch (term.field) {
+      case 'title':
+        return { title: [fields.title] };
+      case 'author':
+        return { author: [fields.author] };
+      case 'tag':
+        return { tag: fields.tags };
+      case 'description':
+        return { description: [fields.description] };
+      default:
+        return { title: [fields.title], tag: fields.tags, author: [fields.author] };
+    }
+  }
+
+  /**
+   * 解析表达式
+   */
+  private compile(): void {
+    const expression = this.config.expression ?? this.config.keywords.join(',');
+    if (!expression.trim()) {
+      this.query = null;
+      return;
+    }
+
+    try {
+      this.query = parseQuery(expression);
+      logger.debug(`关键词表达式解析结果: ${formatQuery(this.query)}`);
+    } catch (error) {
+      this.query = null;
+      logger.error(`关键词表达式解析失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 准备用于匹配的字段文本
+   */
+  private prepareFields(video: VideoInfo): QueryFields {
+    return {
+      title: this.normalize(video.title || ''),
+      author: this.normalize(video.author || ''),
+      tags: (video.tags || []).map(tag => this.normalize(tag)),
+      description: this.normalize(video.description || '')
+    };
+  }
+
+  /**
+   * 按配置规范化文本（繁简、全半角、标点、大小写）
+   */
+  private normalize(text: string): string {
+    return normalizeForMatching(text, this.config);
+  }
+
+  /**
+   * 获取当前配置
+   */
+  public getConfig(): MatcherConfig {
+    return { ...this.config };
+  }
+}
@@ -0,0 +1,99 @@
+import { MatcherInterface, MatcherConfig, VideoInfo, MatchScore, MatchResult, CampaignProfile } from '../types/index.js';
+import { createMatchResult } from './match-result.js';
+
+/**
+ * 投放计划匹配器
+ * 每个投放计划使用独立的关键词和匹配器设置，按优先级依次匹配，匹配结果标记所属计划
+ */
+export class CampaignMatcher implements MatcherInterface {
+  private profiles: CampaignProfile[];
+  private matchers: Map<string, MatcherInterface> = new Map();
+  private priority: string[];
+
+  /**
+   * @param config 全局匹配器配置，投放计划的设置在此基础上覆盖
+   * @param profiles 投放计划列表
+   * @param createMatcher 按配置创建单个计划的匹配器
+   */
+  constructor(
+    config: MatcherConfig,
+    profiles: CampaignProfile[],
+    createMatcher: (config: MatcherConfig) => MatcherInterface
+  ) {
+    this.profiles = profiles;
+    this.priority = profiles.map(profile => profile.name);
+    for (const profile of profiles) {
+      this.matchers.set(profile.name, createMatcher(CampaignMatcher.buildConfig(config, profile)));
+    }
+  }
+
+  /**
+   * 合并全局配置和投放计划的设置
+   * 关键词和表达式以计划为准，排除规则在全局规则基础上追加
+   */
+  static buildConfig(config: MatcherConfig, profile: CampaignProfile): MatcherConfig {
+    const overrides = profile.matcher || {};
+    return {
+      ...config,
+      ...overrides,
+      keywords: profile.keywords || [],
+      expression: profile.expression ?? overrides.expression,
+      excludeKeywords: [...(config.excludeKeywords || []), ...(overrides.excludeKeywords || [])],
+      blockedAuthors: [...(config.blockedAuthors || []), ...(overrides.blockedAuthors || [])],
+      blockedTags: [...(config.blockedTags || []), ...(overrides.blockedTags || [])]
+    };
+  }
+
+  /**
+   * 配置匹配器，各计划的匹配器按新的全局配置重新合并
+   */
+  configure(config: MatcherConfig): void {
+    for (const profile of this.profiles) {
+      this.matchers.get(profile.name)!.configure(CampaignMatcher.buildConfig(config, profile));
+    }
+  }
+
+  /**
+   * 设置计划的匹配优先级，同时匹配多个计划的视频归入优先级最高的计划
+   * @param names 计划名称，按优先级从高到低
+   */
+  setPriority(names: string[]): void {
+    const known = Array.from(new Set(names.filter(name => this.matchers.has(name))));
+    const rest = this.priority.filter(name => !known.includes(name));
+    this.priority = [...known, ...rest];
+  }
+
+  getPriority(): string[] {
+    return [...this.priority];
+  }
+
+  match(video: VideoInfo): boolean {
+    return this.evaluate(video).matched;
+  }
+
+  /**
+   * 按优先级依次匹配各计划，返回第一个匹配计划的结果
+   */
+  evaluate(video: VideoInfo): MatchResult {
+    for (const name of this.priority) {
+      const result = this.matchers.get(name)!.evaluate(video);
+      if (result.matched && !result.vetoRule) {
+        return { ...result, campaign: name };
+      }
+    }
+    return createMatchResult(false, []);
+  }
+
+  /**
+   * 排序得分取所属计划匹配器的得分，不匹配任何计划时为 0
+   */
+  score(video: VideoInfo): MatchScore {
+    const campaign = this.evaluate(video).campaign;
+    if (!campaign) {
+      return { score: 0, breakdown: [] };
+    }
+    const matcher = this.matchers.get(campaign)!;
+    const { score, breakdown } = matcher.score ? matcher.score(video) : matcher.evaluate(video);
+    return { score, breakdown };
+  }
+}
@@ -0,0 +1,70 @@
+import { MatcherConfig, VideoInfo } from '../types/index.js';
+import { normalizeForMatching } from '../utils/text-normalizer.js';
+
+/**
+ * 排除规则过滤器
+ * 在任何正向匹配之前检查排除关键词、屏蔽作者和屏蔽标签
+ */
+export class ExclusionFilter {
+  private config: MatcherConfig;
+
+  constructor(config: MatcherConfig) {
+    this.config = config;
+  }
+
+  /**
+   * 检查视频是否被排除规则否决
+   * @returns 否决该视频的规则（如 "keyword:reaction"），未被否决时返回 null
+   */
+  check(video: VideoInfo): string | null {
+    return this.checkAll(video)[0] ?? null;
+  }
+
+  /**
+   * 列出所有否决该视频的排除规则（用于匹配解释）
+   */
+  checkAll(video: VideoInfo): string[] {
+    const rules: string[] = [];
+
+    const excludeKeywords = this.config.excludeKeywords || [];
+    if (excludeKeywords.length > 0) {
+      const text = [video.title, video.author, ...(video.tags || [])].map(t => this.normalize(t || '')).join('\n');
+      excludeKeywords
+        .filter(k => text.includes(this.normalize(k)))
+        .forEach(k => rules.push(`keyword:${k}`));
+    }
+
+    const blockedAuthors = this.config.blockedAuthors || [];
+    if (blockedAuthors.length > 0) {
+      // 作者名称不区分大小写，mid/频道ID 精确匹配
+      const author = (video.author || '').toLowerCase();
+      blockedAuthors
+        .filter(a => a.toLowerCase() === author || (!!video.authorId && a === video.authorId))
+        .forEach(a => rules.push(`author:${a}`));
+    }
+
+    const blockedTags = this.config.blockedTags || [];
+    if (blockedTags.length > 0 && video.tags && video.tags.length > 0) {
+      const tags = video.tags.map(tag => tag.toLowerCase());
+      blockedTags
+        .filter(t => tags.includes(t.toLowerCase()))
+        .forEach(t => rules.push(`tag:${t}`));
+    }
+
+    return rules;
+  }
+
+  /**
+   * 更新配置
+   */
+  configure(config: MatcherConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * 按配置规范化文本（繁简、全半角、标点、大小写）
+   */
+  private normalize(text: string): string {
+    return normalizeForMatching(text, this.config);
+  }
+}
@@ -0,0 +1,208 @@
+import { MatcherConfig, KeywordMatch, KeywordMatchType, KeywordHit, MatchField } from '../types/index.js';
+import { normalizeForMatching } from '../utils/text-normalizer.js';
+import { containsHan, containsKana, toPinyin, toPinyinInitials, toPinyinSyllables, kanaToRomaji } from '../utils/transliteration.js';
+
+/**
+ * 各命中方式的基础置信度
+ */
+const BASE_CONFIDENCE: Record<KeywordMatchType, number> = {
+  exact: 1,
+  alias: 0.95,
+  pinyin: 0.9,
+  romaji: 0.9,
+  fuzzy: 1
+};
+
+const INITIALS_CONFIDENCE = 0.7;
+
+// 过短的词容易在编辑距离下误匹配，拼音首字母同理
+const MIN_EDIT_LENGTH = 4;
+const MIN_INITIALS_LENGTH = 3;
+// 拉丁字母关键词反向匹配拼音/罗马字的最短长度，如 "ai" 会误中 "我爱你" 的拼音
+const MIN_REVERSE_LENGTH = 4;
+
+interface Variant {
+  text: string;
+  type: KeywordMatchType;
+  confidence: number;
+}
+
+/**
+ * 模糊关键词匹配
+ * 在精确匹配之外，依次尝试别名、拼音、罗马字和编辑距离，并给出置信度
+ * 未配置 fuzzy 时只做精确匹配
+ */
+export class FuzzyMatcher {
+  private config: MatcherConfig;
+
+  constructor(config: MatcherConfig) {
+    this.config = config;
+  }
+
+  /**
+   * 在已规范化的字段文本中查找关键词
+   * @param keyword 配置中的原始关键词
+   * @param texts 经 normalizeForMatching 处理后的字段文本
+   * @returns 置信度最高的命中，未命中时返回 null
+   */
+  find(keyword: string, texts: string[]): KeywordMatch | null {
+    const term = normalizeForMatching(keyword, this.config);
+    if (texts.some(text => text.includes(term))) {
+      return { keyword, type: 'exact', variant: keyword, confidence: 1 };
+    }
+
+    const fuzzy = this.config.fuzzy;
+    if (!fuzzy) {
+      return null;
+    }
+
+    // 模糊匹配统一忽略大小写
+    const lowerTexts = texts.map(text => text.toLowerCase());
+    const variants = this.getVariants(keyword, term.toLowerCase());
+    let best: KeywordMatch | null = null;
+
+    const consider = (type: KeywordMatchType, variant: string, confidence: number) => {
+      if (!best || confidence > best.confidence) {
+        best = { keyword, type, variant, confidence };
+      }
+    };
+
+    for (const variant of variants) {
+      if (variant.type !== 'exact' && lowerTexts.some(text => text.includes(variant.text))) {
+        consider(variant.type, variant.text, variant.confidence);
+      }
+    }
+
+    // 拉丁字母关键词反向匹配：把视频文本转写后再查找，拼音须从音节边界开始并在音节边界结束
+    const latin = term.toLowerCase();
+    if (/^[a-z0-9]+$/.test(latin) && latin.length >= MIN_REVERSE_LENGTH) {
+      if (fuzzy.pinyin !== false && lowerTexts.some(text => containsHan(text) && matchesSyllables(toPinyinSyllables(text), latin))) {
+        consider('pinyin', latin, BASE_CONFIDENCE.pinyin);
+      }
+      if (fuzzy.romaji !== false && lowerTexts.some(text => containsKana(text) && kanaToRomaji(text).includes(latin))) {
+        consider('romaji', latin, BASE_CONFIDENCE.romaji);
+      }
+    }
+
+    // 编辑距离：容忍拼写错误
+    const maxDistance = fuzzy.maxEditDistance ?? 1;
+    if (maxDistance > 0) {
+      for (const variant of variants) {
+        if (variant.type === 'alias' || variant.text.length < MIN_EDIT_LENGTH) {
+          continue;
+        }
+        for (const text of lowerTexts) {
+          const distance = substringEditDistance(variant.text, text, maxDistance);
+          if (distance > 0 && distance <= maxDistance) {
+            const confidence = variant.confidence * (1 - distance / variant.text.length);
+            consider('fuzzy', variant.text, confidence);
+          }
+        }
+      }
+    }
+
+    const result = best as KeywordMatch | null;
+    if (!result || result.confidence < (fuzzy.minConfidence ?? 0.6)) {
+      return null;
+    }
+    return { ...result, confidence: Math.round(result.confidence * 100) / 100 };
+  }
+
+  /**
+   * 在多个字段中查找关键词，返回置信度最高的命中及其字段
+   * 置信度相同时按 fields 中字段的先后顺序优先
+   */
+  findInFields(keyword: string, fields: Partial<Record<MatchField, string[]>>): KeywordHit | null {
+    let best: KeywordHit | null = null;
+    for (const [field, texts] of Object.entries(fields) as [MatchField, string[]][]) {
+      const match = this.find(keyword, texts);
+      if (match && (!best || match.confidence > best.confidence)) {
+        best = { ...match, field };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * 更新配置
+   */
+  configure(config: MatcherConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * 生成关键词的各种写法：原文、别名、拼音、拼音首字母、罗马字
+   */
+  private getVariants(keyword: string, term: string): Variant[] {
+    const fuzzy = this.config.fuzzy || {};
+    const variants: Variant[] = [{ text: term, type: 'exact', confidence: BASE_CONFIDENCE.exact }];
+
+    for (const alias of fuzzy.aliases?.[keyword] || []) {
+      const text = normalizeForMatching(alias, this.config).toLowerCase();
+      if (text) {
+        variants.push({ text, type: 'alias', confidence: BASE_CONFIDENCE.alias });
+      }
+    }
+
+    if (fuzzy.pinyin !== false && containsHan(term)) {
+      variants.push({ text: toPinyin(term), type: 'pinyin', confidence: BASE_CONFIDENCE.pinyin });
+      const initials = toPinyinInitials(term);
+      if (initials.length >= MIN_INITIALS_LENGTH) {
+        variants.push({ text: initials, type: 'pinyin', confidence: INITIALS_CONFIDENCE });
+      }
+    }
+
+    if (fuzzy.romaji !== false && containsKana(term)) {
+      variants.push({ text: kanaToRomaji(term), type: 'romaji', confidence: BASE_CONFIDENCE.romaji });
+    }
+
+    return variants;
+  }
+}
+
+/**
+ * 连续若干个音节拼起来是否恰好等于 term
+ */
+function matchesSyllables(syllables: string[], term: string): boolean {
+  for (let start = 0; start < syllables.length; start++) {
+    let joined = '';
+    for (let end = start; end < syllables.length && joined.length < term.length; end++) {
+      joined += syllables[end];
+    }
+    if (joined === term) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * 计算 pattern 与 text 任意子串之间的最小编辑距离（Sellers 算法）
+ * 超过 limit 时提前返回 limit + 1
+ */
+export function substringEditDistance(pattern: string, text: string, limit: number = Infinity): number {
+  const a = [...pattern];
+  const b = [...text];
+  if (a.length === 0) {
+    return 0;
+  }
+
+  // 第 0 行全为 0：匹配可以从 text 的任意位置开始
+  let previous = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const current = new Array<number>(b.length + 1);
+    current[0] = i;
+    let rowMin = current[0];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) {
+      return limit + 1;
+    }
+    previous = current;
+  }
+
+  return Math.min(...previous);
+}
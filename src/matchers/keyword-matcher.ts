@@ -1,5 +1,9 @@
-import { MatcherInterface, MatcherConfig, VideoInfo } from '../types/index.js';
+import { MatcherInterface, MatcherConfig, VideoInfo, MatchResult, KeywordHit, MatchField } from '../types/index.js';
 import { logger } from '../core/logger.js';
+import { ExclusionFilter } from './exclusion-filter.js';
+import { FuzzyMatcher } from './fuzzy-matcher.js';
+import { createMatchResult, createVetoedResult } from './match-result.js';
+import { normalizeForMatching } from '../utils/text-normalizer.js';
 
 /**
  * 关键词匹配器
@@ -7,6 +11,8 @@ import { logger } from '../core/logger.js';
  */
 export class KeywordMatcher implements MatcherInterface {
   private config: MatcherConfig;
+  private exclusionFilter: ExclusionFilter;
+  private fuzzyMatcher: FuzzyMatcher;
 
   constructor(config?: MatcherConfig) {
     this.config = config || {
@@ -14,6 +20,8 @@ export class KeywordMatcher implements MatcherInterface {
       matchMode: 'any',
       caseSensitive: false
     };
+    this.exclusionFilter = new ExclusionFilter(this.config);
+    this.fuzzyMatcher = new FuzzyMatcher(this.config);
   }
 
   /**
@@ -21,6 +29,8 @@ export class KeywordMatcher implements MatcherInterface {
    */
   configure(config: MatcherConfig): void {
     this.config = config;
+    this.exclusionFilter.configure(config);
+    this.fuzzyMatcher.configure(config);
     logger.debug(`关键词匹配器配置更新: ${JSON.stringify(config)}`);
   }
 
@@ -33,60 +43,68 @@ export class KeywordMatcher implements MatcherInterface {
       return false;
     }
 
-    // 准备要匹配的文本内容
-    const textToMatch = this.prepareTextForMatching(video);
-    
-    // 执行匹配逻辑
-    const matchResult = this.performMatching(textToMatch);
-    
-    if (matchResult) {
+    const result = this.evaluate(video);
+    if (result.vetoRule) {
+      logger.debug(`视频被排除规则否决: ${video.title} (${result.vetoRule})`);
+      return false;
+    }
+
+    result.hits.filter(hit => hit.type !== 'exact').forEach(hit => {
+      logger.debug(`模糊匹配: ${hit.keyword} ≈ ${hit.variant} (${hit.type}, 置信度 ${hit.confidence})`);
+    });
+
+    if (result.matched) {
       logger.info(`视频匹配成功: ${video.title}`);
     } else {
       logger.debug(`视频不匹配: ${video.title}`);
     }
     
-    return matchResult;
+    return result.matched;
   }
 
   /**
-   * 准备用于匹配的文本内容
+   * 计算结构化匹配结果：命中的关键词、字段和置信度
    */
-  private prepareTextForMatching(video: VideoInfo): string {
-    const texts = [video.title];
-    
-    // 添加作者信息
-    if (video.author) {
-      texts.push(video.author);
-    }
-    
-    // 添加标签信息
-    if (video.tags && video.tags.length > 0) {
-      texts.push(...video.tags);
+  evaluate(video: VideoInfo): MatchResult {
+    // 排除规则优先于正向匹配
+    const exclusionRule = this.exclusionFilter.check(video);
+    if (exclusionRule) {
+      return createVetoedResult(exclusionRule);
     }
-    
-    const combinedText = texts.join(' ');
-    
-    // 根据配置决定是否区分大小写
-    return this.config.caseSensitive ? combinedText : combinedText.toLowerCase();
+
+    const fields = this.prepareFields(video);
+    const hits = this.config.keywords
+      .map(keyword => this.fuzzyMatcher.findInFields(keyword, fields))
+      .filter((hit): hit is KeywordHit => hit !== null);
+
+    return createMatchResult(this.isMatched(hits), hits);
   }
 
   /**
-   * 执行具体的匹配逻辑
+   * 准备用于匹配的字段文本（标题、标签、作者）
+   * 逐字段规范化，避免去除空白后跨字段误匹配
    */
-  private performMatching(text: string): boolean {
-    const keywords = this.config.caseSensitive 
-      ? this.config.keywords 
-      : this.config.keywords.map(k => k.toLowerCase());
+  private prepareFields(video: VideoInfo): Partial<Record<MatchField, string[]>> {
+    return {
+      title: [normalizeForMatching(video.title || '', this.config)],
+      tag: (video.tags || []).map(tag => normalizeForMatching(tag, this.config)),
+      author: [normalizeForMatching(video.author || '', this.config)]
+    };
+  }
 
+  /**
+   * 根据匹配模式判断命中是否足够
+   */
+  private isMatched(hits: KeywordHit[]): boolean {
     switch (this.config.matchMode) {
       case 'all':
         // 所有关键词都必须匹配
-        return keywords.every(keyword => text.includes(keyword));
+        return hits.length > 0 && hits.length === this.config.keywords.length;
       
       case 'any':
       default:
         // 任意一个关键词匹配即可
-        return keywords.some(keyword => text.includes(keyword));
+        return hits.length > 0;
     }
   }
 
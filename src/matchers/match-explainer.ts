@@ -0,0 +1,189 @@
+import { VideoInfo, MatcherConfig, MatcherInterface, MatchResult, MatchField, KeywordHit } from '../types/index.js';
+import { ExclusionFilter } from './exclusion-filter.js';
+import { MetadataFilter } from './metadata-filter.js';
+import { FuzzyMatcher } from './fuzzy-matcher.js';
+import { createVetoedResult } from './match-result.js';
+import { getPipelineMatchers } from './match-pipeline.js';
+import { parseQuery, formatQuery, QueryNode, QueryTerm } from './query-parser.js';
+import { normalizeForMatching } from '../utils/text-normalizer.js';
+
+/**
+ * 单条正向规则（关键词或表达式中的词）的解释
+ */
+export interface RuleExplanation {
+  rule: string;                      // 关键词或表达式中的词（含字段前缀）
+  negated: boolean;                  // 是否位于 NOT 之下
+  hit: KeywordHit | null;            // 命中情况，未命中为 null
+}
+
+/**
+ * 单个视频的匹配解释
+ */
+export interface MatchExplanation {
+  video: VideoInfo;
+  matcherType: string;
+  expression?: string;               // 布尔表达式（格式化后）
+  exclusions: string[];              // 触发的排除规则
+  metadata: string[];                // 触发的元数据条件
+  rules: RuleExplanation[];
+  result: MatchResult;
+}
+
+const FIELD_LABELS: Record<MatchField, string> = {
+  title: '标题',
+  tag: '标签',
+  author: '作者',
+  description: '简介'
+};
+
+/**
+ * 在当前匹配配置下解释视频为何匹配或不匹配
+ * 与 MatchService.evaluate 使用相同的判定顺序：排除规则 → 元数据条件 → 匹配器
+ * 配置了匹配流水线时只检查流水线中声明的过滤阶段
+ */
+export function explainMatch(video: VideoInfo, config: MatcherConfig, matcher: MatcherInterface): MatchExplanation {
+  const pipeline = config.pipeline;
+  const exclusions = !pipeline || pipeline.includes('exclusion') ? new ExclusionFilter(config).checkAll(video) : [];
+  const metadata = !pipeline || pipeline.includes('metadata') ? new MetadataFilter(config.metadataFilter).checkAll(video) : [];
+  const vetoRule = matcher.getVetoRule ? matcher.getVetoRule(video) : exclusions[0] ?? metadata[0];
+
+  const result: MatchResult = vetoRule ? createVetoedResult(vetoRule) : matcher.evaluate(video);
+  const matcherTypes = pipeline ? getPipelineMatchers(pipeline) : [config.type || 'keyword'];
+
+  const explanation: MatchExplanation = {
+    video,
+    matcherType: pipeline ? pipeline.join(' → ') : config.type || 'keyword',
+    exclusions,
+    metadata,
+    rules: [],
+    result
+  };
+
+  const fuzzyMatcher = new FuzzyMatcher(config);
+  const fields = prepareFields(video, config);
+
+  if (matcherTypes.includes('boolean')) {
+    const expression = config.expression ?? config.keywords.join(',');
+    try {
+      const query = parseQuery(expression);
+      explanation.expression = formatQuery(query);
+      explanation.rules = collectTerms(query).map(({ term, negated }) => ({
+        rule: term.field ? `${term.field}:${term.value}` : term.value,
+        negated,
+        hit: fuzzyMatcher.findInFields(term.value, selectFields(fields, term.field))
+      }));
+    } catch (error) {
+      explanation.expression = `(表达式解析失败: ${error.message})`;
+    }
+    return explanation;
+  }
+
+  // 语义等不基于关键词的匹配器没有逐条规则
+  if (!matcherTypes.some(type => type === 'keyword' || type === 'scoring')) {
+    return explanation;
+  }
+
+  // 评分匹配器额外检查简介
+  const scope = matcherTypes.includes('scoring') ? fields : selectFields(fields);
+  explanation.rules = config.keywords.map(keyword => ({
+    rule: keyword,
+    negated: false,
+    hit: fuzzyMatcher.findInFields(keyword, scope)
+  }));
+
+  return explanation;
+}
+
+/**
+ * 将匹配解释格式化为可读文本
+ */
+export function formatExplanation(explanation: MatchExplanation): string {
+  const { video, result } = explanation;
+  const lines: string[] = [];
+
+  lines.push(`📺 ${video.title}`);
+  lines.push(`   ID: ${video.id}  作者: ${video.author || '-'}${video.authorId ? ` (${video.authorId})` : ''}`);
+  if (video.tags && video.tags.length > 0) {
+    lines.push(`   标签: ${video.tags.join(', ')}`);
+  }
+  const meta = [
+    video.duration !== undefined ? `时长 ${video.duration}秒` : null,
+    video.viewCount !== undefined ? `播放 ${video.viewCount}` : null,
+    video.publishTime ? `发布 ${video.publishTime}` : null,
+    video.thumbnail ? null : '无封面'
+  ].filter(item => item !== null);
+  if (meta.length > 0) {
+    lines.push(`   元数据: ${meta.join(', ')}`);
+  }
+
+  lines.push('');
+  lines.push(`🚫 排除规则: ${explanation.exclusions.length > 0 ? explanation.exclusions.join(', ') : '无'}`);
+  lines.push(`📏 元数据条件: ${explanation.metadata.length > 0 ? explanation.metadata.join(', ') : '无'}`);
+
+  lines.push('');
+  lines.push(`🔍 匹配器: ${explanation.matcherType}${explanation.expression ? `  表达式: ${explanation.expression}` : ''}`);
+  for (const rule of explanation.rules) {
+    // NOT 之下的词命中会使表达式不成立
+    const prefix = rule.negated ? 'NOT ' : '';
+    if (!rule.hit) {
+      lines.push(`   ${rule.negated ? '✓' : '✗'} ${prefix}${rule.rule}  未命中`);
+      continue;
+    }
+    const how = rule.hit.type === 'exact'
+      ? '精确'
+      : `${rule.hit.type} ≈ ${rule.hit.variant}, 置信度 ${rule.hit.confidence}`;
+    lines.push(`   ${rule.negated ? '⛔' : '✓'} ${prefix}${rule.rule}  命中${FIELD_LABELS[rule.hit.field]} (${how})`);
+  }
+
+  if (result.breakdown.length > 0) {
+    lines.push('');
+    lines.push('📊 得分明细:');
+    for (const component of result.breakdown) {
+      const field = component.field ? ` @${FIELD_LABELS[component.field]}` : '';
+      lines.push(`   ${component.type.padEnd(9)} ${component.label}${field}: ${component.value.toFixed(2)}`);
+    }
+  }
+
+  lines.push('');
+  if (result.vetoRule) {
+    lines.push(`❌ 结论: 不匹配（被 ${result.vetoRule} 否决）`);
+  } else if (result.matched) {
+    lines.push(`✅ 结论: 匹配  得分 ${result.score.toFixed(2)}  关键词: ${result.keywords.join(', ') || '-'}`);
+  } else {
+    lines.push(`❌ 结论: 不匹配  得分 ${result.score.toFixed(2)}`);
+  }
+
+  return lines.join('\n');
+}
+
+function prepareFields(video: VideoInfo, config: MatcherConfig): Record<MatchField, string[]> {
+  const normalize = (text: string) => normalizeForMatching(text, config);
+  return {
+    title: [normalize(video.title || '')],
+    tag: (video.tags || []).map(normalize),
+    author: [normalize(video.author || '')],
+    description: [normalize(video.description || '')]
+  };
+}
+
+/**
+ * 选取规则适用的字段，未限定字段时为标题、标签、作者
+ */
+function selectFields(fields: Record<MatchField, string[]>, field?: MatchField): Partial<Record<MatchField, string[]>> {
+  if (field) {
+    return { [field]: fields[field] };
+  }
+  return { title: fields.title, tag: fields.tag, author: fields.author };
+}
+
+function collectTerms(node: QueryNode, negated: boolean = false): Array<{ term: QueryTerm; negated: boolean }> {
+  switch (node.type) {
+    case 'term':
+      return [{ term: node, negated }];
+    case 'not':
+      return collectTerms(node.operand, !negated);
+    case 'and':
+    case 'or':
+      return [...collectTerms(node.left, negated), ...collectTerms(node.right, negated)];
+  }
+}
@@ -0,0 +1,287 @@
+import { MatcherInterface, MatcherConfig, VideoInfo, MatchScore, MatchResult, ScoreComponent } from '../types/index.js';
+import { logger } from '../core/logger.js';
+import { ExclusionFilter } from './exclusion-filter.js';
+import { MetadataFilter } from './metadata-filter.js';
+import { SemanticMatcher } from './semantic-matcher.js';
+import { createVetoedResult } from './match-result.js';
+
+/**
+ * 流水线中的过滤阶段，返回否决规则或 null
+ */
+interface PipelineFilter {
+  name: string;
+  check(video: VideoInfo): string | null;
+  configure(config: MatcherConfig): void;
+}
+
+/**
+ * 解析后的流水线定义
+ */
+export interface PipelineDefinition {
+  normalize: boolean;                // 是否规范化文本
+  filters: string[];                 // 过滤阶段（exclusion / metadata），按顺序执行
+  matchers: string[];                // 匹配阶段的候选匹配器，任一匹配即视为匹配
+  rank?: 'score' | 'semantic';       // 排序阶段：按匹配得分，或叠加语义相似度
+}
+
+const FILTER_STAGES = ['exclusion', 'metadata'];
+
+/**
+ * 解析流水线阶段列表
+ * 阶段顺序固定为 normalize → 过滤 → 匹配 → rank，匹配阶段用 | 连接多个匹配器（如 keyword|semantic）
+ * @param stages 阶段列表，如 ['normalize', 'exclusion', 'metadata', 'keyword|semantic', 'rank']
+ * @param isMatcher 判断匹配器名称是否已注册
+ */
+export function parsePipeline(stages: string[], isMatcher: (name: string) => boolean): PipelineDefinition {
+  const definition: PipelineDefinition = { normalize: false, filters: [], matchers: [] };
+
+  stages.forEach((stage, index) => {
+    if (stage === 'normalize') {
+      if (index !== 0) {
+        throw new Error('Pipeline stage "normalize" must come first');
+      }
+      definition.normalize = true;
+      return;
+    }
+
+    if (FILTER_STAGES.includes(stage)) {
+      if (definition.matchers.length > 0) {
+        throw new Error(`Pipeline stage "${stage}" must come before the match stage`);
+      }
+      definition.filters.push(stage);
+      return;
+    }
+
+    if (stage === 'rank' || stage === 'rank:semantic') {
+      if (definition.matchers.length === 0 || index !== stages.length - 1) {
+        throw new Error('Pipeline stage "rank" must be the last stage, after the match stage');
+      }
+      definition.rank = stage === 'rank' ? 'score' : 'semantic';
+      return;
+    }
+
+    if (definition.matchers.length > 0) {
+      throw new Error(`Pipeline can only have one match stage, use "|" to combine matchers: ${stage}`);
+    }
+    const matchers = stage.split('|').map(name => name.trim()).filter(name => name);
+    const unknown = matchers.find(name => !isMatcher(name));
+    if (unknown) {
+      throw new Error(`Unknown pipeline stage or matcher: ${unknown}`);
+    }
+    definition.matchers = matchers;
+  });
+
+  if (definition.matchers.length === 0) {
+    throw new Error('Pipeline requires a match stage (e.g. keyword, semantic or keyword|semantic)');
+  }
+
+  return definition;
+}
+
+/**
+ * 列出流水线匹配阶段使用的匹配器（不校验，用于配置检查和匹配解释）
+ */
+export function getPipelineMatchers(stages: string[]): string[] {
+  return stages
+    .filter(stage => stage !== 'normalize' && stage !== 'rank' && stage !== 'rank:semantic' && !FILTER_STAGES.includes(stage))
+    .flatMap(stage => stage.split('|').map(name => name.trim()).filter(name => name));
+}
+
+/**
+ * 可组合的匹配流水线
+ * 过滤阶段和文本规范化由流水线统一处理，匹配阶段的各匹配器只负责正向匹配
+ */
+export class MatchPipeline implements MatcherInterface {
+  private definition: PipelineDefinition;
+  private filters: PipelineFilter[];
+  private matchers: MatcherInterface[];
+  private ranker?: SemanticMatcher;
+  private config: MatcherConfig;
+
+  /**
+   * @param definition 解析后的流水线定义
+   * @param createMatcher 按名称创建匹配阶段的匹配器（通常为 MatcherFactory 注册表）
+   */
+  constructor(
+    definition: PipelineDefinition,
+    config: MatcherConfig,
+    createMatcher: (name: string, config: MatcherConfig) => MatcherInterface
+  ) {
+    this.definition = definition;
+    this.config = config;
+
+    const stageConfig = this.getStageConfig(config);
+    const matcherConfig = this.getMatcherConfig(config);
+    this.filters = definition.filters.map(name => createFilter(name, stageConfig));
+    this.matchers = definition.matchers.map(name => createMatcher(name, matcherConfig));
+
+    if (definition.rank === 'semantic') {
+      // 匹配阶段已有语义匹配器时复用其画像
+      const existing = this.matchers.find(matcher => matcher instanceof SemanticMatcher);
+      this.ranker = existing instanceof SemanticMatcher ? existing : new SemanticMatcher(matcherConfig);
+    }
+  }
+
+  /**
+   * 配置流水线及各阶段
+   */
+  configure(config: MatcherConfig): void {
+    this.config = config;
+    const stageConfig = this.getStageConfig(config);
+    this.filters.forEach(filter => filter.configure(stageConfig));
+    const matcherConfig = this.getMatcherConfig(config);
+    this.matchers.forEach(matcher => matcher.configure(matcherConfig));
+    if (this.ranker && !this.matchers.includes(this.ranker)) {
+      this.ranker.configure(matcherConfig);
+    }
+    logger.debug(`匹配流水线配置更新: ${this.describe()}`);
+  }
+
+  /**
+   * 匹配视频是否符合条件
+   */
+  match(video: VideoInfo): boolean {
+    const result = this.evaluate(video);
+    if (result.vetoRule) {
+      logger.debug(`视频被否决: ${video.title} (${result.vetoRule})`);
+      return false;
+    }
+
+    if (result.matched) {
+      logger.info(`视频匹配成功: ${video.title} (得分 ${result.score.toFixed(2)})`);
+    } else {
+      logger.debug(`视频不匹配: ${video.title}`);
+    }
+
+    return result.matched;
+  }
+
+  /**
+   * 依次执行过滤阶段，返回第一个否决规则
+   */
+  getVetoRule(video: VideoInfo): string | null {
+    for (const filter of this.filters) {
+      const rule = filter.check(video);
+      if (rule) {
+        return rule;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 计算结构化匹配结果
+   * 匹配阶段的多个匹配器按 OR 组合：任一匹配即为匹配，合并各匹配器的命中和得分明细
+   */
+  evaluate(video: VideoInfo): MatchResult {
+    const vetoRule = this.getVetoRule(video);
+    if (vetoRule) {
+      return createVetoedResult(vetoRule);
+    }
+
+    const results = this.matchers.map(matcher => matcher.evaluate(video));
+    const vetoed = results.find(result => result.vetoRule);
+    if (vetoed) {
+      return vetoed;
+    }
+
+    const matchedResults = results.filter(result => result.matched);
+    const combined = matchedResults.length > 0 ? matchedResults : results;
+    const result: MatchResult = {
+      matched: matchedResults.length > 0,
+      keywords: [...new Set(combined.flatMap(r => r.keywords))],
+      hits: combined.flatMap(r => r.hits),
+      score: combined.reduce((sum, r) => sum + r.score, 0),
+      breakdown: combined.flatMap(r => r.breakdown)
+    };
+
+    if (result.matched && this.ranker) {
+      const component = this.getRankComponent(video);
+      if (component.value > 0) {
+        result.breakdown = [...result.breakdown, component];
+        result.score += component.value;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 排序得分
+   * 没有 rank 阶段时所有视频得分相同，保持平台返回的顺序
+   */
+  score(video: VideoInfo): MatchScore {
+    if (!this.definition.rank) {
+      return { score: 0, breakdown: [] };
+    }
+    const { score, breakdown } = this.evaluate(video);
+    return { score, breakdown };
+  }
+
+  /**
+   * 流水线的可读描述
+   */
+  describe(): string {
+    const stages = [
+      ...(this.definition.normalize ? ['normalize'] : []),
+      ...this.definition.filters,
+      this.definition.matchers.join(' | '),
+      ...(this.definition.rank ? [this.definition.rank === 'semantic' ? 'rank:semantic' : 'rank'] : [])
+    ];
+    return stages.join(' → ');
+  }
+
+  /**
+   * 获取当前配置
+   */
+  public getConfig(): MatcherConfig {
+    return { ...this.config };
+  }
+
+  private getRankComponent(video: VideoInfo): ScoreComponent {
+    const weight = this.config.semantic?.weight ?? 10;
+    const { breakdown, score } = this.ranker!.score(video);
+    return {
+      type: 'semantic',
+      label: breakdown[0]?.label || '种子画像',
+      value: weight * score
+    };
+  }
+
+  /**
+   * 各阶段共用的配置：文本规范化由 normalize 阶段决定
+   */
+  private getStageConfig(config: MatcherConfig): MatcherConfig {
+    return { ...config, normalizeText: this.definition.normalize };
+  }
+
+  /**
+   * 匹配阶段的配置：排除规则已由过滤阶段处理
+   */
+  private getMatcherConfig(config: MatcherConfig): MatcherConfig {
+    return {
+      ...this.getStageConfig(config),
+      excludeKeywords: [],
+      blockedAuthors: [],
+      blockedTags: []
+    };
+  }
+}
+
+function createFilter(name: string, config: MatcherConfig): PipelineFilter {
+  if (name === 'exclusion') {
+    const filter = new ExclusionFilter(config);
+    return {
+      name,
+      check: video => filter.check(video),
+      configure: newConfig => filter.configure(newConfig)
+    };
+  }
+
+  const filter = new MetadataFilter(config.metadataFilter);
+  return {
+    name,
+    check: video => filter.check(video),
+    configure: newConfig => filter.configure(newConfig.metadataFilter)
+  };
+}
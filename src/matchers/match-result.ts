@@ -0,0 +1,35 @@
+import { KeywordHit, MatchResult, ScoreComponent } from '../types/index.js';
+
+/**
+ * 由关键词命中构造匹配结果
+ * @param breakdown 匹配器自带的得分明细，未提供时按命中置信度生成
+ */
+export function createMatchResult(matched: boolean, hits: KeywordHit[], breakdown?: ScoreComponent[]): MatchResult {
+  const components = breakdown ?? hits.map(hit => hitToComponent(hit));
+  return {
+    matched,
+    keywords: hits.map(hit => hit.keyword),
+    hits,
+    score: components.reduce((sum, component) => sum + component.value, 0),
+    breakdown: components
+  };
+}
+
+/**
+ * 被排除规则或元数据条件否决的结果
+ */
+export function createVetoedResult(vetoRule: string): MatchResult {
+  return { matched: false, keywords: [], hits: [], score: 0, breakdown: [], vetoRule };
+}
+
+/**
+ * 关键词命中对应的得分项，非精确命中附带命中方式和置信度
+ */
+export function hitToComponent(hit: KeywordHit, value: number = hit.confidence): ScoreComponent {
+  const component: ScoreComponent = { type: 'keyword', label: hit.keyword, field: hit.field, value };
+  if (hit.type !== 'exact') {
+    component.matchType = hit.type;
+    component.confidence = hit.confidence;
+  }
+  return component;
+}
@@ -0,0 +1,98 @@
+import { MatcherConfig, MatcherInterface, CampaignProfile } from '../types/index.js';
+import { KeywordMatcher } from './keyword-matcher.js';
+import { BooleanMatcher } from './boolean-matcher.js';
+import { ScoringMatcher } from './scoring-matcher.js';
+import { SemanticMatcher } from './semantic-matcher.js';
+import { SemanticRerankMatcher } from './semantic-reranker.js';
+import { MatchPipeline, parsePipeline } from './match-pipeline.js';
+import { CampaignMatcher } from './campaign-matcher.js';
+import { logger } from '../core/logger.js';
+
+/**
+ * 匹配器构造函数
+ */
+export type MatcherCreator = (config: MatcherConfig) => MatcherInterface;
+
+/**
+ * 匹配器工厂类
+ * 维护匹配器注册表，根据 MatcherConfig.type 或 MatcherConfig.pipeline 创建匹配器实例
+ */
+export class MatcherFactory {
+  private static registry: Map<string, MatcherCreator> = new Map<string, MatcherCreator>([
+    ['keyword', config => new KeywordMatcher(config)],
+    ['boolean', config => new BooleanMatcher(config)],
+    ['scoring', config => new ScoringMatcher(config)],
+    ['semantic', config => new SemanticMatcher(config)]
+  ]);
+
+  /**
+   * 注册自定义匹配器，注册后可在匹配流水线中按名称使用
+   * @param name 匹配器名称（同名时覆盖已注册的匹配器）
+   * @param creator 匹配器构造函数
+   */
+  static registerMatcher(name: string, creator: MatcherCreator): void {
+    if (this.registry.has(name)) {
+      logger.warn(`覆盖已注册的匹配器: ${name}`);
+    }
+    this.registry.set(name, creator);
+  }
+
+  /**
+   * 创建匹配器实例
+   * 配置了 pipeline 时按流水线组合；否则开启 semantic.rerank 时，关键词类匹配器外层包装语义第二阶段排序
+   */
+  static createMatcher(config: MatcherConfig): MatcherInterface {
+    if (config.pipeline && config.pipeline.length > 0) {
+      return this.createPipeline(config);
+    }
+
+    if (config.type === 'semantic') {
+      return new SemanticMatcher(config);
+    }
+
+    const matcher = this.createBaseMatcher(config);
+    return config.semantic?.rerank ? new SemanticRerankMatcher(matcher, config) : matcher;
+  }
+
+  /**
+   * 按 config.pipeline 创建匹配流水线
+   */
+  static createPipeline(config: MatcherConfig): MatchPipeline {
+    const definition = parsePipeline(config.pipeline || [], name => this.isMatcherRegistered(name));
+    const pipeline = new MatchPipeline(definition, config, (name, stageConfig) => this.registry.get(name)!(stageConfig));
+    logger.info(`创建匹配流水线: ${pipeline.describe()}`);
+    return pipeline;
+  }
+
+  /**
+   * 创建投放计划匹配器，每个计划按合并后的配置单独创建匹配器
+   */
+  static createCampaignMatcher(config: MatcherConfig, profiles: CampaignProfile[]): CampaignMatcher {
+    const matcher = new CampaignMatcher(config, profiles, profileConfig => this.createMatcher(profileConfig));
+    logger.info(`创建投放计划匹配器: ${profiles.map(profile => profile.name).join(', ')}`);
+    return matcher;
+  }
+
+  /**
+   * 获取已注册的匹配器列表
+   */
+  static getRegisteredMatchers(): string[] {
+    return Array.from(this.registry.keys());
+  }
+
+  /**
+   * 检查匹配器是否已注册
+   */
+  static isMatcherRegistered(name: string): boolean {
+    return this.registry.has(name);
+  }
+
+  private static createBaseMatcher(config: MatcherConfig): MatcherInterface {
+    const creator = this.registry.get(config.type || 'keyword');
+    if (!creator) {
+      logger.warn(`不支持的匹配器类型: ${config.type}，使用默认关键词匹配器`);
+      return new KeywordMatcher(config);
+    }
+    return creator(config);
+  }
+}
@@ -0,0 +1,105 @@
+import { MetadataFilterConfig, VideoInfo } from '../types/index.js';
+
+const UNIT_SECONDS: Record<string, number> = {
+  second: 1,
+  minute: 60,
+  hour: 3600,
+  day: 86400,
+  week: 604800,
+  month: 2592000,
+  year: 31536000,
+  '秒': 1,
+  '分钟': 60,
+  '小时': 3600,
+  '天': 86400,
+  '周': 604800,
+  '个月': 2592000,
+  '月': 2592000,
+  '年': 31536000
+};
+
+/**
+ * 元数据过滤器
+ * 根据时长、播放量、发布时间和封面对视频进行筛选
+ * 缺少对应元数据的视频不会被过滤
+ */
+export class MetadataFilter {
+  private config: MetadataFilterConfig;
+
+  constructor(config?: MetadataFilterConfig) {
+    this.config = config || {};
+  }
+
+  /**
+   * 检查视频是否被元数据条件否决
+   * @returns 否决该视频的规则（如 "metadata:duration<60"），通过时返回 null
+   */
+  check(video: VideoInfo, now: Date = new Date()): string | null {
+    return this.checkAll(video, now)[0] ?? null;
+  }
+
+  /**
+   * 列出所有否决该视频的元数据条件（用于匹配解释）
+   */
+  checkAll(video: VideoInfo, now: Date = new Date()): string[] {
+    const { minDuration, maxDuration, minViews, maxAgeDays, requireThumbnail } = this.config;
+    const rules: string[] = [];
+
+    if (video.duration !== undefined && video.duration > 0) {
+      if (minDuration !== undefined && video.duration < minDuration) {
+        rules.push(`metadata:duration<${minDuration}`);
+      }
+      if (maxDuration !== undefined && video.duration > maxDuration) {
+        rules.push(`metadata:duration>${maxDuration}`);
+      }
+    }
+
+    if (minViews !== undefined && video.viewCount !== undefined && video.viewCount < minViews) {
+      rules.push(`metadata:views<${minViews}`);
+    }
+
+    if (maxAgeDays !== undefined && video.publishTime) {
+      const publishedAt = parsePublishTime(video.publishTime, now);
+      if (publishedAt) {
+        const ageDays = (now.getTime() - publishedAt.getTime()) / 86400000;
+        if (ageDays > maxAgeDays) {
+          rules.push(`metadata:age>${maxAgeDays}d`);
+        }
+      }
+    }
+
+    if (requireThumbnail && !video.thumbnail) {
+      rules.push('metadata:thumbnail-missing');
+    }
+
+    return rules;
+  }
+
+  /**
+   * 更新配置
+   */
+  configure(config?: MetadataFilterConfig): void {
+    this.config = config || {};
+  }
+}
+
+/**
+ * 解析发布时间
+ * 支持 ISO 时间戳以及 YouTube 的相对时间（"3 days ago" / "3天前"）
+ */
+export function parsePublishTime(publishTime: string, now: Date = new Date()): Date | null {
+  const timestamp = Date.parse(publishTime);
+  if (!isNaN(timestamp)) {
+    return new Date(timestamp);
+  }
+
+  const english = publishTime.match(/(\d+)\s*(second|minute|hour|day|week|month|year)s?\s+ago/i);
+  const chinese = publishTime.match(/(\d+)\s*(秒|分钟|小时|天|周|个月|月|年)前/);
+  const match = english || chinese;
+  if (!match) {
+    return null;
+  }
+
+  const seconds = parseInt(match[1]) * UNIT_SECONDS[match[2].toLowerCase()];
+  return new Date(now.getTime() - seconds * 1000);
+}
@@ -0,0 +1,338 @@
+/**
+ * 关键词查询表达式解析器
+ *
+ * 支持的语法：
+ *   - AND / OR / NOT（大写），相邻的词默认按 AND 连接，逗号等同于 OR
+ *   - 括号分组: (mujica OR "ave mujica") AND NOT reaction
+ *   - 引号短语: "ave mujica"
+ *   - 字段前缀: title:、author:、tag:、desc:
+ *   - 减号取反: -reaction 等同于 NOT reaction
+ */
+
+/**
+ * 可限定的匹配字段
+ */
+export type QueryField = 'title' | 'author' | 'tag' | 'description';
+
+/**
+ * 查询表达式语法树节点
+ */
+export type QueryNode =
+  | { type: 'term'; value: string; field?: QueryField }
+  | { type: 'and'; left: QueryNode; right: QueryNode }
+  | { type: 'or'; left: QueryNode; right: QueryNode }
+  | { type: 'not'; operand: QueryNode };
+
+/**
+ * 词节点
+ */
+export type QueryTerm = Extract<QueryNode, { type: 'term' }>;
+
+/**
+ * 用于求值的视频文本字段
+ */
+export interface QueryFields {
+  title: string;
+  author: string;
+  tags: string[];
+  description: string;
+}
+
+type Token =
+  | { kind: 'lparen'; pos: number }
+  | { kind: 'rparen'; pos: number }
+  | { kind: 'and'; pos: number }
+  | { kind: 'or'; pos: number }
+  | { kind: 'not'; pos: number }
+  | { kind: 'term'; pos: number; value: string; field?: QueryField };
+
+const FIELD_ALIASES: Record<string, QueryField> = {
+  title: 'title',
+  author: 'author',
+  up: 'author',
+  tag: 'tag',
+  tags: 'tag',
+  desc: 'description',
+  description: 'description'
+};
+
+/**
+ * 解析查询表达式
+ * @throws Error 表达式语法错误时抛出，错误信息包含出错位置
+ */
+export function parseQuery(expression: string): QueryNode {
+  const tokens = tokenize(expression);
+  if (tokens.length === 0) {
+    throw new Error('表达式为空');
+  }
+
+  let index = 0;
+
+  const peek = (): Token | undefined => tokens[index];
+
+  const parseOr = (): QueryNode => {
+    let node = parseAnd();
+    while (peek()?.kind === 'or') {
+      index++;
+      node = { type: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const parseAnd = (): QueryNode => {
+    let node = parseNot();
+    for (;;) {
+      const token = peek();
+      if (token?.kind === 'and') {
+        index++;
+        node = { type: 'and', left: node, right: parseNot() };
+      } else if (token && (token.kind === 'term' || token.kind === 'not' || token.kind === 'lparen')) {
+        // 相邻的词隐式按 AND 连接
+        node = { type: 'and', left: node, right: parseNot() };
+      } else {
+        return node;
+      }
+    }
+  };
+
+  const parseNot = (): QueryNode => {
+    if (peek()?.kind === 'not') {
+      index++;
+      return { type: 'not', operand: parseNot() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = peek();
+    if (!token) {
+      throw new Error(`表达式意外结束 (位置 ${expression.length})`);
+    }
+
+    if (token.kind === 'lparen') {
+      index++;
+      const node = parseOr();
+      const closing = peek();
+      if (closing?.kind !== 'rparen') {
+        throw new Error(`缺少右括号，对应位置 ${token.pos} 的左括号`);
+      }
+      index++;
+      return node;
+    }
+
+    if (token.kind === 'term') {
+      index++;
+      return token.field
+        ? { type: 'term', value: token.value, field: token.field }
+        : { type: 'term', value: token.value };
+    }
+
+    throw new Error(`意外的 ${describeToken(token)} (位置 ${token.pos})`);
+  };
+
+  const root = parseOr();
+  const rest = peek();
+  if (rest) {
+    throw new Error(`意外的 ${describeToken(rest)} (位置 ${rest.pos})`);
+  }
+
+  return root;
+}
+
+/**
+ * 收集表达式中的正向关键词（不在 NOT 之下的词）
+ * 用于主动搜索和历史统计
+ */
+export function collectQueryTerms(node: QueryNode): string[] {
+  return Array.from(new Set(collectQueryTermNodes(node).map(term => term.value)));
+}
+
+/**
+ * 收集表达式中的正向词节点（保留字段前缀）
+ */
+export function collectQueryTermNodes(node: QueryNode, negated: boolean = false): QueryTerm[] {
+  switch (node.type) {
+    case 'term':
+      return negated ? [] : [node];
+    case 'not':
+      return collectQueryTermNodes(node.operand, !negated);
+    case 'and':
+    case 'or':
+      return [
+        ...collectQueryTermNodes(node.left, negated),
+        ...collectQueryTermNodes(node.right, negated)
+      ];
+  }
+}
+
+/**
+ * 判断某个词是否出现在给定文本中
+ * @param term 表达式中的原始词
+ * @param texts 该词所限定字段的文本
+ */
+export type TermMatcher = (term: string, texts: string[]) => boolean;
+
+/**
+ * 对视频字段求值
+ * @param node 语法树
+ * @param fields 已经过规范化处理的字段文本
+ * @param matchTerm 词匹配函数，默认为子串包含
+ */
+export function evaluateQuery(
+  node: QueryNode,
+  fields: QueryFields,
+  matchTerm: TermMatcher = (term, texts) => texts.some(text => text.includes(term))
+): boolean {
+  switch (node.type) {
+    case 'term':
+      return matchTerm(node.value, getFieldTexts(node, fields));
+    case 'not':
+      return !evaluateQuery(node.operand, fields, matchTerm);
+    case 'and':
+      return evaluateQuery(node.left, fields, matchTerm) && evaluateQuery(node.right, fields, matchTerm);
+    case 'or':
+      return evaluateQuery(node.left, fields, matchTerm) || evaluateQuery(node.right, fields, matchTerm);
+  }
+}
+
+/**
+ * 将语法树还原为可读字符串（用于日志）
+ */
+export function formatQuery(node: QueryNode): string {
+  switch (node.type) {
+    case 'term': {
+      const value = /[\s()",]/.test(node.value) ? `"${node.value}"` : node.value;
+      return node.field ? `${node.field}:${value}` : value;
+    }
+    case 'not':
+      return `NOT ${formatQuery(node.operand)}`;
+    case 'and':
+      return `(${formatQuery(node.left)} AND ${formatQuery(node.right)})`;
+    case 'or':
+      return `(${formatQuery(node.left)} OR ${formatQuery(node.right)})`;
+  }
+}
+
+function getFieldTexts(node: { field?: QueryField }, fields: QueryFields): string[] {
+  switch (node.field) {
+    case 'title':
+      return [fields.title];
+    case 'author':
+      return [fields.author];
+    case 'tag':
+      return fields.tags;
+    case 'description':
+      return [fields.description];
+    default:
+      // 未指定字段时与 KeywordMatcher 一致：标题、作者、标签
+      return [fields.title, fields.author, ...fields.tags];
+  }
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(') {
+      tokens.push({ kind: 'lparen', pos: i });
+      i++;
+      continue;
+    }
+
+    if (char === ')') {
+      tokens.push({ kind: 'rparen', pos: i });
+      i++;
+      continue;
+    }
+
+    if (char === ',') {
+      tokens.push({ kind: 'or', pos: i });
+      i++;
+      continue;
+    }
+
+    if (char === '-' && i + 1 < expression.length && !/[\s(),]/.test(expression[i + 1])) {
+      tokens.push({ kind: 'not', pos: i });
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let field: QueryField | undefined;
+
+    // 字段前缀
+    const prefixMatch = /^([a-zA-Z]+):/.exec(expression.slice(i));
+    if (prefixMatch && FIELD_ALIASES[prefixMatch[1].toLowerCase()]) {
+      field = FIELD_ALIASES[prefixMatch[1].toLowerCase()];
+      i += prefixMatch[0].length;
+    }
+
+    let value: string;
+    if (expression[i] === '"') {
+      const closing = expression.indexOf('"', i + 1);
+      if (closing === -1) {
+        throw new Error(`引号未闭合 (位置 ${i})`);
+      }
+      value = expression.slice(i + 1, closing);
+      i = closing + 1;
+      if (!value.trim()) {
+        throw new Error(`空的引号短语 (位置 ${start})`);
+      }
+    } else {
+      let end = i;
+      while (end < expression.length && !/[\s(),"]/.test(expression[end])) {
+        end++;
+      }
+      value = expression.slice(i, end);
+      i = end;
+
+      if (!value) {
+        throw new Error(`字段 ${field} 缺少匹配内容 (位置 ${start})`);
+      }
+
+      if (!field) {
+        if (value === 'AND') {
+          tokens.push({ kind: 'and', pos: start });
+          continue;
+        }
+        if (value === 'OR') {
+          tokens.push({ kind: 'or', pos: start });
+          continue;
+        }
+        if (value === 'NOT') {
+          tokens.push({ kind: 'not', pos: start });
+          continue;
+        }
+      }
+    }
+
+    tokens.push(field ? { kind: 'term', pos: start, value, field } : { kind: 'term', pos: start, value });
+  }
+
+  return tokens;
+}
+
+function describeToken(token: Token): string {
+  switch (token.kind) {
+    case 'lparen':
+      return '左括号';
+    case 'rparen':
+      return '右括号';
+    case 'and':
+      return 'AND';
+    case 'or':
+      return 'OR';
+    case 'not':
+      return 'NOT';
+    case 'term':
+      return `"${token.value}"`;
+  }
+}
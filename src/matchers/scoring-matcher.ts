@@ -0,0 +1,212 @@
+import { MatcherInterface, MatcherConfig, VideoInfo, MatchScore, MatchResult, ScoreComponent, ScoringConfig, KeywordHit, MatchField } from '../types/index.js';
+import { logger } from '../core/logger.js';
+import { ExclusionFilter } from './exclusion-filter.js';
+import { FuzzyMatcher } from './fuzzy-matcher.js';
+import { createMatchResult, createVetoedResult, hitToComponent } from './match-result.js';
+import { normalizeForMatching } from '../utils/text-normalizer.js';
+import { parsePublishTime } from './metadata-filter.js';
+
+/**
+ * 默认字段权重：标题 > 标签 > 作者 > 简介
+ */
+const DEFAULT_FIELD_WEIGHTS: Record<MatchField, number> = {
+  title: 3,
+  tag: 2,
+  author: 1.5,
+  description: 1
+};
+
+/**
+ * 评分匹配器
+ * 根据关键词权重、命中字段、作者偏好和新鲜度为视频打分
+ */
+export class ScoringMatcher implements MatcherInterface {
+  private config: MatcherConfig;
+  private exclusionFilter: ExclusionFilter;
+  private fuzzyMatcher: FuzzyMatcher;
+
+  constructor(config?: MatcherConfig) {
+    this.config = config || {
+      keywords: [],
+      matchMode: 'any',
+      caseSensitive: false,
+      type: 'scoring'
+    };
+    this.exclusionFilter = new ExclusionFilter(this.config);
+    this.fuzzyMatcher = new FuzzyMatcher(this.config);
+  }
+
+  /**
+   * 配置匹配器
+   */
+  configure(config: MatcherConfig): void {
+    this.config = config;
+    this.exclusionFilter.configure(config);
+    this.fuzzyMatcher.configure(config);
+    logger.debug(`评分匹配器配置更新: ${JSON.stringify(config)}`);
+  }
+
+  /**
+   * 匹配视频是否符合条件（得分达到阈值即为匹配）
+   */
+  match(video: VideoInfo): boolean {
+    if (this.config.keywords.length === 0) {
+      logger.warn('关键词列表为空，跳过匹配');
+      return false;
+    }
+
+    const result = this.evaluate(video);
+    if (result.vetoRule) {
+      logger.debug(`视频被排除规则否决: ${video.title} (${result.vetoRule})`);
+      return false;
+    }
+
+    if (result.matched) {
+      logger.info(`视频匹配成功: ${video.title} (得分 ${result.score.toFixed(2)})`);
+    } else {
+      logger.debug(`视频不匹配: ${video.title} (得分 ${result.score.toFixed(2)})`);
+    }
+
+    return result.matched;
+  }
+
+  /**
+   * 计算结构化匹配结果
+   */
+  evaluate(video: VideoInfo, now: Date = new Date()): MatchResult {
+    const exclusionRule = this.exclusionFilter.check(video);
+    if (exclusionRule) {
+      return createVetoedResult(exclusionRule);
+    }
+
+    const { hits, breakdown } = this.computeScore(video, now);
+    const result = createMatchResult(false, hits, breakdown);
+    result.matched = this.isMatched(result);
+    return result;
+  }
+
+  /**
+   * 计算视频的相关度得分及明细
+   */
+  score(video: VideoInfo, now: Date = new Date()): MatchScore {
+    const { breakdown } = this.computeScore(video, now);
+    const score = breakdown.reduce((sum, component) => sum + component.value, 0);
+    return { score, breakdown };
+  }
+
+  private computeScore(video: VideoInfo, now: Date): { hits: KeywordHit[]; breakdown: ScoreComponent[] } {
+    const scoring = this.getScoringConfig();
+    const fieldWeights = { ...DEFAULT_FIELD_WEIGHTS, ...scoring.fieldWeights };
+    const fields = this.prepareFields(video);
+    const hits: KeywordHit[] = [];
+    const breakdown: ScoreComponent[] = [];
+
+    // 关键词得分：每个关键词只取（字段权重 × 命中置信度）最高的字段
+    for (const keyword of this.config.keywords) {
+      const keywordWeight = scoring.keywordWeights?.[keyword] ?? 1;
+      let best: KeywordHit | null = null;
+
+      for (const field of Object.keys(fields) as MatchField[]) {
+        const match = this.fuzzyMatcher.find(keyword, fields[field]);
+        if (match && (!best ||
+            fieldWeights[field] * match.confidence > fieldWeights[best.field] * best.confidence)) {
+          best = { ...match, field };
+        }
+      }
+
+      if (best) {
+        hits.push(best);
+        breakdown.push(hitToComponent(best, keywordWeight * fieldWeights[best.field] * best.confidence));
+      }
+    }
+
+    // 作者偏好和新鲜度只对命中关键词的视频加分
+    if (hits.length > 0) {
+      const affinity = this.getAuthorAffinity(video, scoring);
+      if (affinity !== 0) {
+        breakdown.push({ type: 'author', label: video.author, value: affinity });
+      }
+
+      const freshness = this.getFreshness(video, scoring, now);
+      if (freshness > 0) {
+        breakdown.push({ type: 'freshness', label: video.publishTime || '', value: freshness });
+      }
+    }
+
+    return { hits, breakdown };
+  }
+
+  /**
+   * 根据匹配模式和最低得分判断是否匹配
+   */
+  private isMatched(result: MatchScore): boolean {
+    const keywordHits = result.breakdown.filter(c => c.type === 'keyword').length;
+    if (keywordHits === 0) {
+      return false;
+    }
+    if (this.config.matchMode === 'all' && keywordHits < this.config.keywords.length) {
+      return false;
+    }
+    return result.score >= (this.getScoringConfig().minScore ?? 0);
+  }
+
+  /**
+   * 作者偏好加分（按作者名称或作者ID配置）
+   */
+  private getAuthorAffinity(video: VideoInfo, scoring: ScoringConfig): number {
+    const affinity = scoring.authorAffinity || {};
+    if (video.authorId && affinity[video.authorId] !== undefined) {
+      return affinity[video.authorId];
+    }
+    return affinity[video.author] ?? 0;
+  }
+
+  /**
+   * 新鲜度加分：按半衰期指数衰减
+   */
+  private getFreshness(video: VideoInfo, scoring: ScoringConfig, now: Date): number {
+    const weight = scoring.freshnessWeight ?? 1;
+    const halfLife = scoring.freshnessHalfLifeDays ?? 7;
+    if (!video.publishTime || weight <= 0 || halfLife <= 0) {
+      return 0;
+    }
+
+    const publishedAt = parsePublishTime(video.publishTime, now);
+    if (!publishedAt) {
+      return 0;
+    }
+
+    const ageDays = Math.max(0, (now.getTime() - publishedAt.getTime()) / 86400000);
+    return weight * Math.pow(0.5, ageDays / halfLife);
+  }
+
+  /**
+   * 准备用于评分的各字段文本
+   */
+  private prepareFields(video: VideoInfo): Record<MatchField, string[]> {
+    return {
+      title: [this.normalize(video.title || '')],
+      tag: (video.tags || []).map(tag => this.normalize(tag)),
+      author: [this.normalize(video.author || '')],
+      description: [this.normalize(video.description || '')]
+    };
+  }
+
+  /**
+   * 按配置规范化文本（繁简、全半角、标点、大小写）
+   */
+  private normalize(text: string): string {
+    return normalizeForMatching(text, this.config);
+  }
+
+  private getScoringConfig(): ScoringConfig {
+    return this.config.scoring || {};
+  }
+
+  /**
+   * 获取当前配置
+   */
+  public getConfig(): MatcherConfig {
+    return { ...this.config };
+  }
+}
@@ -0,0 +1,285 @@
+import { existsSync } from 'fs';
+import { MatcherInterface, MatcherConfig, VideoInfo, MatchScore, MatchResult, SemanticConfig } from '../types/index.js';
+import { logger } from '../core/logger.js';
+import { ExclusionFilter } from './exclusion-filter.js';
+import { createVetoedResult } from './match-result.js';
+import { normalizeText } from '../utils/text-normalizer.js';
+import { readVideoFile } from '../utils/video-file.js';
+
+type SparseVector = Map<string, number>;
+
+/**
+ * 语义相似度匹配器
+ * 用种子视频的字符 n-gram 构建本地 TF-IDF 画像，按余弦相似度为候选视频打分
+ * 完全离线运行，不依赖网络或 GPU
+ */
+export class SemanticMatcher implements MatcherInterface {
+  private config: MatcherConfig;
+  private exclusionFilter: ExclusionFilter;
+  private seeds: VideoInfo[] = [];
+  private seedVectors: SparseVector[] = [];
+  private centroid: SparseVector = new Map();
+  private idf: Map<string, number> = new Map();
+  private loadedSeedFile?: string;
+
+  /**
+   * @param seeds 直接提供种子视频（不指定时从 semantic.seedFile 加载）
+   */
+  constructor(config?: MatcherConfig, seeds?: VideoInfo[]) {
+    this.config = config || {
+      keywords: [],
+      matchMode: 'any',
+      caseSensitive: false,
+      type: 'semantic'
+    };
+    this.exclusionFilter = new ExclusionFilter(this.config);
+
+    if (seeds) {
+      this.setSeeds(seeds);
+    } else {
+      this.loadSeeds();
+    }
+  }
+
+  /**
+   * 配置匹配器
+   */
+  configure(config: MatcherConfig): void {
+    this.config = config;
+    this.exclusionFilter.configure(config);
+    if (this.getSemanticConfig().seedFile !== this.loadedSeedFile) {
+      this.loadSeeds();
+    }
+    logger.debug(`语义匹配器配置更新: ${JSON.stringify(config.semantic || {})}`);
+  }
+
+  /**
+   * 匹配视频是否符合条件（相似度达到阈值即为匹配）
+   */
+  match(video: VideoInfo): boolean {
+    if (this.seeds.length === 0) {
+      logger.warn('没有可用的种子视频，跳过语义匹配');
+      return false;
+    }
+
+    const result = this.evaluate(video);
+    if (result.vetoRule) {
+      logger.debug(`视频被排除规则否决: ${video.title} (${result.vetoRule})`);
+      return false;
+    }
+
+    if (result.matched) {
+      logger.info(`视频匹配成功: ${video.title} (相似度 ${result.score.toFixed(3)})`);
+    } else {
+      logger.debug(`视频不匹配: ${video.title} (相似度 ${result.score.toFixed(3)})`);
+    }
+
+    return result.matched;
+  }
+
+  /**
+   * 计算结构化匹配结果
+   */
+  evaluate(video: VideoInfo): MatchResult {
+    const exclusionRule = this.exclusionFilter.check(video);
+    if (exclusionRule) {
+      return createVetoedResult(exclusionRule);
+    }
+
+    const { score, breakdown } = this.score(video);
+    return {
+      matched: this.seeds.length > 0 && score >= (this.getSemanticConfig().minSimilarity ?? 0.2),
+      keywords: [],
+      hits: [],
+      score,
+      breakdown
+    };
+  }
+
+  /**
+   * 计算与种子画像的余弦相似度
+   */
+  score(video: VideoInfo): MatchScore {
+    const { similarity, nearest } = this.similarity(video);
+    const label = nearest ? `最相似种子: ${nearest.title}` : '种子画像';
+    return {
+      score: similarity,
+      breakdown: similarity > 0 ? [{ type: 'semantic', label, value: similarity }] : []
+    };
+  }
+
+  /**
+   * 计算相似度
+   * centroid 模式与所有种子的平均向量比较；nearest 模式取最相似的单个种子
+   */
+  similarity(video: VideoInfo): { similarity: number; nearest?: VideoInfo } {
+    if (this.seeds.length === 0) {
+      return { similarity: 0 };
+    }
+
+    const vector = this.vectorize(video);
+    if (this.getSemanticConfig().mode === 'nearest') {
+      let best = 0;
+      let nearest: VideoInfo | undefined;
+      this.seedVectors.forEach((seedVector, index) => {
+        const similarity = dot(vector, seedVector);
+        if (similarity > best) {
+          best = similarity;
+          nearest = this.seeds[index];
+        }
+      });
+      return { similarity: best, nearest };
+    }
+
+    return { similarity: dot(vector, this.centroid) };
+  }
+
+  /**
+   * 设置种子视频并重新构建画像
+   */
+  setSeeds(seeds: VideoInfo[]): void {
+    // 按视频ID去重
+    const unique = new Map<string, VideoInfo>();
+    seeds.forEach(seed => unique.set(seed.id, seed));
+    this.seeds = Array.from(unique.values());
+
+    const counts = this.seeds.map(seed => this.countNgrams(seed));
+
+    const documentFrequency = new Map<string, number>();
+    for (const count of counts) {
+      for (const gram of count.keys()) {
+        documentFrequency.set(gram, (documentFrequency.get(gram) || 0) + 1);
+      }
+    }
+
+    // 平滑 IDF: ln((1 + N) / (1 + df)) + 1
+    const total = this.seeds.length;
+    this.idf = new Map();
+    documentFrequency.forEach((df, gram) => {
+      this.idf.set(gram, Math.log((1 + total) / (1 + df)) + 1);
+    });
+
+    this.seedVectors = counts.map(count => this.weigh(count));
+
+    const centroid: SparseVector = new Map();
+    for (const vector of this.seedVectors) {
+      vector.forEach((value, gram) => centroid.set(gram, (centroid.get(gram) || 0) + value / total));
+    }
+    this.centroid = normalize(centroid);
+
+    logger.info(`🧠 语义画像已构建: ${this.seeds.length} 个种子视频, ${this.idf.size} 个特征`);
+  }
+
+  /**
+   * 获取种子视频数量
+   */
+  getSeedCount(): number {
+    return this.seeds.length;
+  }
+
+  /**
+   * 从配置的种子文件加载种子视频
+   */
+  private loadSeeds(): void {
+    const { seedFile, seedLimit } = this.getSemanticConfig();
+    this.loadedSeedFile = seedFile;
+
+    if (!seedFile) {
+      this.setSeeds([]);
+      return;
+    }
+
+    if (!existsSync(seedFile)) {
+      logger.warn(`种子视频文件不存在: ${seedFile}`);
+      this.setSeeds([]);
+      return;
+    }
+
+    try {
+      const videos = readVideoFile(seedFile);
+      const limit = seedLimit ?? 200;
+      // 观看历史按时间追加，取最新的记录；人工整理的文件按顺序取前面的
+      const selected = seedFile.endsWith('.jsonl') ? videos.slice(-limit) : videos.slice(0, limit);
+      this.setSeeds(selected);
+    } catch (error) {
+      logger.error(`读取种子视频文件失败: ${seedFile}`, error);
+      this.setSeeds([]);
+    }
+  }
+
+  /**
+   * 将视频转换为归一化的 TF-IDF 向量（种子中未出现的特征取最大 IDF）
+   */
+  private vectorize(video: VideoInfo): SparseVector {
+    return this.weigh(this.countNgrams(video));
+  }
+
+  private weigh(count: Map<string, number>): SparseVector {
+    const unseenIdf = Math.log(1 + this.seeds.length) + 1;
+    const vector: SparseVector = new Map();
+    count.forEach((tf, gram) => {
+      // 次线性 TF，避免重复字符主导
+      vector.set(gram, (1 + Math.log(tf)) * (this.idf.get(gram) ?? unseenIdf));
+    });
+    return normalize(vector);
+  }
+
+  /**
+   * 统计标题和标签的字符 n-gram
+   * 逐字段提取，避免跨字段拼接产生无意义的特征
+   */
+  private countNgrams(video: VideoInfo): Map<string, number> {
+    const { ngramMin = 2, ngramMax = 3 } = this.getSemanticConfig();
+    const counts = new Map<string, number>();
+    const texts = [video.title || '', ...(video.tags || [])];
+
+    for (const text of texts) {
+      const chars = [...normalizeText(text)];
+      for (let n = ngramMin; n <= ngramMax; n++) {
+        for (let i = 0; i + n <= chars.length; i++) {
+          const gram = chars.slice(i, i + n).join('');
+          counts.set(gram, (counts.get(gram) || 0) + 1);
+        }
+      }
+    }
+
+    return counts;
+  }
+
+  private getSemanticConfig(): SemanticConfig {
+    return this.config.semantic || {};
+  }
+
+  /**
+   * 获取当前配置
+   */
+  public getConfig(): MatcherConfig {
+    return { ...this.config };
+  }
+}
+
+function normalize(vector: SparseVector): SparseVector {
+  let norm = 0;
+  vector.forEach(value => {
+    norm += value * value;
+  });
+  norm = Math.sqrt(norm);
+  if (norm === 0) {
+    return vector;
+  }
+  const result: SparseVector = new Map();
+  vector.forEach((value, key) => result.set(key, value / norm));
+  return result;
+}
+
+function dot(a: SparseVector, b: SparseVector): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let sum = 0;
+  small.forEach((value, key) => {
+    const other = large.get(key);
+    if (other !== undefined) {
+      sum += value * other;
+    }
+  });
+  return sum;
+}
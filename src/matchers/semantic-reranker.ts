@@ -0,0 +1,76 @@
+import { MatcherInterface, MatcherConfig, VideoInfo, MatchScore, MatchResult, ScoreComponent } from '../types/index.js';
+import { SemanticMatcher } from './semantic-matcher.js';
+
+/**
+ * 语义第二阶段排序
+ * 由基础匹配器（关键词/布尔/评分）决定是否匹配，再叠加与种子视频的相似度用于排序
+ */
+export class SemanticRerankMatcher implements MatcherInterface {
+  private base: MatcherInterface;
+  private semantic: SemanticMatcher;
+  private config: MatcherConfig;
+
+  constructor(base: MatcherInterface, config: MatcherConfig, semantic?: SemanticMatcher) {
+    this.base = base;
+    this.config = config;
+    this.semantic = semantic || new SemanticMatcher(config);
+  }
+
+  /**
+   * 配置匹配器
+   */
+  configure(config: MatcherConfig): void {
+    this.config = config;
+    this.base.configure(config);
+    this.semantic.configure(config);
+  }
+
+  /**
+   * 是否匹配完全由基础匹配器决定
+   */
+  match(video: VideoInfo): boolean {
+    return this.base.match(video);
+  }
+
+  /**
+   * 基础匹配结果上叠加相似度得分项
+   */
+  evaluate(video: VideoInfo): MatchResult {
+    const result = this.base.evaluate(video);
+    if (result.vetoRule || !result.matched) {
+      return result;
+    }
+
+    const component = this.getSemanticComponent(video);
+    if (component.value > 0) {
+      result.breakdown = [...result.breakdown, component];
+      result.score += component.value;
+    }
+    return result;
+  }
+
+  /**
+   * 排序得分 = 基础得分 + 权重 × 相似度
+   */
+  score(video: VideoInfo): MatchScore {
+    const base = this.base.score ? this.base.score(video) : this.base.evaluate(video);
+    const component = this.getSemanticComponent(video);
+    if (component.value <= 0) {
+      return { score: base.score, breakdown: base.breakdown };
+    }
+    return {
+      score: base.score + component.value,
+      breakdown: [...base.breakdown, component]
+    };
+  }
+
+  private getSemanticComponent(video: VideoInfo): ScoreComponent {
+    const weight = this.config.semantic?.weight ?? 10;
+    const { breakdown, score } = this.semantic.score(video);
+    return {
+      type: 'semantic',
+      label: breakdown[0]?.label || '种子画像',
+      value: weight * score
+    };
+  }
+}
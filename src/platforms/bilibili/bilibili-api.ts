@@ -1,6 +1,8 @@
 import axios, { AxiosInstance } from 'axios';
-import { VideoInfo, PlatformConfig } from '../../types/index.js';
+import { VideoInfo, PlatformConfig, FeedFreshness, NotInterestedResult } from '../../types/index.js';
 import { logger } from '../../core/logger.js';
+import { FeedCursor, FeedPageParams } from './feed-cursor.js';
+import { WbiSigner, WbiNavData } from './wbi-signer.js';
 
 /**
  * B站API响应接口
@@ -47,6 +49,16 @@ interface RecommendVideoItem {
     content?: string;
     reason_type: number;
   };
+  track_id?: string;
+}
+
+/**
+ * 发送首页推荐反馈所需的推荐项信息
+ */
+interface FeedItemRef {
+  aid: number;
+  mid?: number;
+  trackId?: string;
 }
 
 /**
@@ -135,10 +147,17 @@ export class BilibiliAPI {
   private client: AxiosInstance;
   private config: PlatformConfig;
   private videosPerPage: number;
+  private feedItems: Map<string, FeedItemRef> = new Map(); // 最近一次首页推荐中各视频的 aid 等信息
+  private feedCursor: FeedCursor = new FeedCursor();
+  private feedPages: number;
+  private lastFeedFreshness: FeedFreshness | null = null;
+  private wbiSigner: WbiSigner;
 
   constructor(config: PlatformConfig, videosPerPage: number = 12, timeout: number = 30000) {
     this.config = config;
     this.videosPerPage = videosPerPage;
+    this.feedPages = Math.max(1, config.feedPages || 1);
+    this.wbiSigner = new WbiSigner(() => this.fetchNavData());
     this.client = this.createHttpClient(timeout);
   }
 
@@ -158,8 +177,11 @@ export class BilibiliAPI {
       }
     });
 
-    // 请求拦截器
-    client.interceptors.request.use(request => {
+    // 请求拦截器：/wbi/ 接口的参数需要带上 w_rid 和 wts 签名
+    client.interceptors.request.use(async request => {
+      if (WbiSigner.isProtected(request.url)) {
+        request.params = await this.wbiSigner.sign(request.params);
+      }
       logger.debug(`API请求: ${request.method?.toUpperCase()} ${request.url}`);
       return request;
     });
@@ -171,6 +193,10 @@ export class BilibiliAPI {
         if (data.code !== 0) {
           logger.warn(`API返回错误: ${data.code} - ${data.message}`);
         }
+        // 签名被拒绝（风控校验失败）时可能是密钥已更换，下次重新获取
+        if (data.code === -352 && WbiSigner.isProtected(response.config.url)) {
+          this.wbiSigner.invalidate();
+        }
         return response;
       },
       error => {
@@ -184,34 +210,99 @@ export class BilibiliAPI {
 
   /**
    * 获取首页推荐视频列表
+   * 沿游标连续请求多页，直到凑够 videosPerPage 个之前没见过的视频或用完本轮的页数；
+   * 全部是见过的视频时返回这些重复视频，避免本轮无视频可处理
    */
-  async getHomeFeedRecommendations(params?: {
-    fresh_type?: number;
-    ps?: number;
-    fresh_idx?: number;
-  }): Promise<VideoInfo[]> {
-    try {
-      const defaultParams = {
-        fresh_type: 4,
-        ps: this.videosPerPage,
-        fresh_idx: 1,
-        ...params
-      };
+  async getHomeFeedRecommendations(): Promise<VideoInfo[]> {
+    const fresh: VideoInfo[] = [];
+    const repeats: Map<string, VideoInfo> = new Map();
+    let repeatCount = 0;
+    let pages = 0;
 
-      const response = await this.client.get<BilibiliResponse<RecommendFeedData>>(
-        'https://api.bilibili.com/x/web-interface/wbi/index/top/feed/rcmd',
-        { params: defaultParams }
-      );
+    this.feedItems.clear();
+    try {
+      while (pages < this.feedPages && fresh.length < this.videosPerPage) {
+        const videos = this.parseRecommendVideos(await this.fetchFeedPage(this.feedCursor.next()));
+        pages++;
+        if (videos.length === 0) {
+          break;
+        }
 
-      if (response.data.code !== 0) {
-        throw new Error(`API错误: ${response.data.message}`);
+        const freshIds = new Set(this.feedCursor.partition(videos.map(video => video.id)).fresh);
+        for (const video of videos) {
+          if (freshIds.has(video.id)) {
+            fresh.push(video);
+          } else {
+            repeatCount++;
+            repeats.set(video.id, video);
+          }
+        }
       }
-
-      return this.parseRecommendVideos(response.data.data.item);
     } catch (error) {
       logger.error('获取首页推荐失败:', error);
+    }
+
+    if (pages === 0) {
+      this.lastFeedFreshness = null;
       return [];
     }
+
+    this.lastFeedFreshness = { pages, fresh: fresh.length, repeats: repeatCount };
+    logger.info(`📰 首页推荐: ${pages} 页, 新视频 ${fresh.length} 个, 重复 ${repeatCount} 个`);
+
+    if (fresh.length === 0) {
+      logger.warn('首页推荐全部是之前见过的视频，推荐可能已停滞');
+      return Array.from(repeats.values());
+    }
+    return fresh;
+  }
+
+  /**
+   * 最近一次获取首页推荐时的新旧视频统计
+   */
+  getLastFeedFreshness(): FeedFreshness | null {
+    return this.lastFeedFreshness;
+  }
+
+  /**
+   * 对首页推荐中的视频发送"不感兴趣"反馈
+   * 只能用于最近一次首页推荐返回的视频（需要推荐项的 aid 和 track_id）
+   * @param reasonId 反馈原因，1 为"不感兴趣"
+   */
+  async dislikeFeedVideo(bvid: string, reasonId: number = 1): Promise<NotInterestedResult> {
+    const item = this.feedItems.get(bvid);
+    if (!item) {
+      logger.debug(`无法发送不感兴趣反馈: 视频不在最近的首页推荐中 (${bvid})`);
+      return 'not_found';
+    }
+    const csrf = this.config.cookies.match(/bili_jct=([^;]+)/)?.[1];
+    if (!csrf) {
+      logger.warn('无法发送不感兴趣反馈: Cookie 中缺少 bili_jct');
+      return 'failed';
+    }
+
+    try {
+      const form = new URLSearchParams({
+        goto: 'av',
+        id: item.aid.toString(),
+        mid: item.mid?.toString() || '',
+        reason_id: reasonId.toString(),
+        feedback_page: '1',
+        track_id: item.trackId || '',
+        spmid: '333.1007.0.0',
+        csrf
+      });
+
+      const response = await this.client.post<BilibiliResponse<any>>(
+        'https://api.bilibili.com/x/web-interface/feedback/dislike',
+        form.toString(),
+        { headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Origin': 'https://www.bilibili.com' } }
+      );
+      return response.data.code === 0 ? 'success' : 'failed';
+    } catch (error) {
+      logger.error(`发送不感兴趣反馈失败: ${bvid}`, error);
+      return 'failed';
+    }
   }
 
   /**
@@ -290,7 +381,7 @@ export class BilibiliAPI {
       logger.info(`搜索B站视频: "${keyword}" (页码: ${defaultParams.page})`);
 
       const response = await this.client.get<BilibiliResponse<SearchData>>(
-        'https://api.bilibili.com/x/web-interface/search/type',
+        'https://api.bilibili.com/x/web-interface/wbi/search/type',
         { params: defaultParams }
       );
 
@@ -320,7 +411,7 @@ export class BilibiliAPI {
       logger.info(`B站综合搜索: "${keyword}"`);
 
       const response = await this.client.get<BilibiliResponse<any>>(
-        'https://api.bilibili.com/x/web-interface/search/all/v2',
+        'https://api.bilibili.com/x/web-interface/wbi/search/all/v2',
         { params: { keyword } }
       );
 
@@ -357,19 +448,48 @@ export class BilibiliAPI {
     }
   }
 
+  /**
+   * 请求一页首页推荐
+   */
+  private async fetchFeedPage(cursor: FeedPageParams): Promise<RecommendVideoItem[]> {
+    const response = await this.client.get<BilibiliResponse<RecommendFeedData>>(
+      'https://api.bilibili.com/x/web-interface/wbi/index/top/feed/rcmd',
+      { params: { fresh_type: 4, ps: this.videosPerPage, ...cursor } }
+    );
+
+    if (response.data.code !== 0) {
+      throw new Error(`API错误: ${response.data.message}`);
+    }
+
+    logger.debug(`首页推荐第 ${cursor.fresh_idx} 页 (fresh_idx_1h: ${cursor.fresh_idx_1h})`);
+    return response.data.data.item || [];
+  }
+
   /**
    * 解析首页推荐视频数据
    */
   private parseRecommendVideos(items: RecommendVideoItem[]): VideoInfo[] {
-    return items
-      .filter(item => item.goto === 'av') // 只处理视频类型
+    const videoItems = items.filter(item => item.goto === 'av'); // 只处理视频类型
+
+    videoItems.forEach(item => this.feedItems.set(item.bvid || item.id.toString(), {
+      aid: item.id,
+      mid: item.owner?.mid,
+      trackId: item.track_id
+    }));
+
+    return videoItems
       .map(item => ({
         id: item.bvid || item.id.toString(),
         title: item.title,
         author: item.owner?.name || '未知UP主',
+        authorId: item.owner?.mid?.toString(),
         url: this.buildVideoUrl(item.bvid || item.id.toString()),
         duration: item.duration,
-        tags: item.rcmd_reason?.content ? [item.rcmd_reason.content] : []
+        tags: item.rcmd_reason?.content ? [item.rcmd_reason.content] : [],
+        viewCount: item.stat?.view,
+        publishTime: item.pubdate ? new Date(item.pubdate * 1000).toISOString() : undefined,
+        thumbnail: item.pic,
+        platform: 'bilibili'
       }));
   }
 
@@ -381,9 +501,14 @@ export class BilibiliAPI {
       id: item.bvid || item.aid.toString(),
       title: item.title,
       author: item.owner?.name || '未知UP主',
+      authorId: item.owner?.mid?.toString(),
       url: this.buildVideoUrl(item.bvid || item.aid.toString()),
       duration: item.duration,
-      tags: []
+      tags: [],
+      viewCount: item.stat?.view,
+      publishTime: item.pubdate ? new Date(item.pubdate * 1000).toISOString() : undefined,
+      thumbnail: item.pic,
+      platform: 'bilibili'
     }));
   }
 
@@ -423,6 +548,7 @@ export class BilibiliAPI {
           id: item.bvid,
           title: cleanTitle,
           author: item.author || '未知UP主',
+          authorId: item.mid ? item.mid.toString() : undefined,
           url: this.buildVideoUrl(item.bvid),
           duration: durationInSeconds,
           description: item.description || '',
@@ -484,13 +610,25 @@ export class BilibiliAPI {
    */
   async checkConnection(): Promise<boolean> {
     try {
-      const response = await this.client.get<BilibiliResponse<any>>(
+      const response = await this.client.get<BilibiliResponse<WbiNavData>>(
         'https://api.bilibili.com/x/web-interface/nav'
       );
+      // 顺便缓存 WBI 密钥，省去第一次签名时的请求
+      this.wbiSigner.updateKeys(response.data.data);
       return response.data.code === 0;
     } catch (error) {
       logger.error('API连接检查失败:', error);
       return false;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * 请求 nav 接口，用于获取 WBI 密钥（未登录时也会返回）
+   */
+  private async fetchNavData(): Promise<WbiNavData | undefined> {
+    const response = await this.client.get<BilibiliResponse<WbiNavData>>(
+      'https://api.bilibili.com/x/web-interface/nav'
+    );
+    return response.data.data;
+  }
+}
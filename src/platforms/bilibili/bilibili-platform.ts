@@ -1,5 +1,5 @@
 import { chromium, Browser, Page } from 'playwright';
-import { PlatformInterface, VideoInfo, PlatformConfig } from '../../types/index.js';
+import { PlatformInterface, VideoInfo, PlatformConfig, FeedFreshness, NotInterestedResult } from '../../types/index.js';
 import { logger } from '../../core/logger.js';
 import { BilibiliAPI } from './bilibili-api.js';
 import { BilibiliPlaybackSimulator } from './bilibili-simulator.js';
@@ -15,10 +15,12 @@ export class BilibiliPlatform implements PlatformInterface {
   private config: PlatformConfig;
   private headless: boolean;
   private currentVideoSource: 'home' | 'related' | 'short' = 'home';
+  private fallbackSource: 'home' | 'related' | 'short' | null = null; // 本轮回退到的视频源，不改变 currentVideoSource
   private lastPlayedVideoId: string | null = null;
   private useSimulatedPlayback: boolean;
   private simulator: BilibiliPlaybackSimulator | null = null;
   private playbackSpeed: number;
+  private feedFreshness: FeedFreshness | null = null;
 
   constructor(
     config: PlatformConfig, 
@@ -83,20 +85,24 @@ export class BilibiliPlatform implements PlatformInterface {
       logger.info(`获取推荐视频列表 (来源: ${this.currentVideoSource})...`);
       
       let videos: VideoInfo[] = [];
+      this.feedFreshness = null;
+      this.fallbackSource = null;
 
       switch (this.currentVideoSource) {
         case 'home':
           videos = await this.api.getHomeFeedRecommendations();
+          this.feedFreshness = this.api.getLastFeedFreshness();
           break;
         
         case 'related':
           if (this.lastPlayedVideoId) {
             videos = await this.api.getRelatedVideos(this.lastPlayedVideoId);
           }
-          // 如果没有获取到相关视频，回退到首页推荐
+          // 如果没有获取到相关视频，本轮回退到首页推荐
           if (videos.length === 0) {
             videos = await this.api.getHomeFeedRecommendations();
-            this.currentVideoSource = 'home';
+            this.feedFreshness = this.api.getLastFeedFreshness();
+            this.fallbackSource = 'home';
           }
           break;
         
@@ -116,6 +122,20 @@ export class BilibiliPlatform implements PlatformInterface {
     }
   }
 
+  /**
+   * 最近一次获取推荐时首页推荐的新旧视频统计（不是首页推荐时为 null）
+   */
+  getFeedFreshness(): FeedFreshness | null {
+    return this.feedFreshness;
+  }
+
+  /**
+   * 最近一次获取推荐时回退到的视频源（没有回退时为 null）
+   */
+  getFallbackSource(): 'home' | 'related' | 'short' | null {
+    return this.fallbackSource;
+  }
+
   /**
    * 搜索视频
    */
@@ -396,6 +416,110 @@ export class BilibiliPlatform implements PlatformInterface {
     logger.info(`切换视频源到: ${source}`);
   }
 
+  /**
+   * 获取指定视频的相关视频
+   */
+  async getRelatedVideos(videoId: string): Promise<VideoInfo[]> {
+    return this.api.getRelatedVideos(videoId);
+  }
+
+  /**
+   * 对首页推荐的视频发送"不感兴趣"反馈
+   */
+  async markNotInterested(video: VideoInfo): Promise<NotInterestedResult> {
+    return this.api.dislikeFeedVideo(video.id);
+  }
+
+  /**
+   * 点赞视频：模拟播放模式下调用接口，真实播放模式下点击播放页的点赞按钮
+   */
+  async likeVideo(video: VideoInfo): Promise<boolean> {
+    if (this.useSimulatedPlayback) {
+      return this.simulator ? this.simulator.likeVideo(video) : false;
+    }
+
+    const page = await this.openVideoPage(video);
+    const button = page.locator('.video-like').first();
+    if (await button.evaluate(element => element.classList.contains('on'))) {
+      return true;
+    }
+    await button.click();
+    await page.waitForTimeout(1000);
+    return button.evaluate(element => element.classList.contains('on'));
+  }
+
+  /**
+   * 收藏视频到指定名称的收藏夹
+   */
+  async favoriteVideo(video: VideoInfo, folder: string): Promise<boolean> {
+    if (this.useSimulatedPlayback) {
+      return this.simulator ? this.simulator.favoriteVideo(video, folder) : false;
+    }
+
+    const page = await this.openVideoPage(video);
+    await page.locator('.video-fav').first().click();
+
+    const dialog = page.locator('.collection-m-exp, .bili-dialog-m').first();
+    await dialog.waitFor({ timeout: 5000 });
+    const item = dialog.locator('.group-list li, .fav-list li').filter({ hasText: folder }).first();
+    if (await item.count() === 0) {
+      logger.warn(`⚠️  未找到收藏夹: ${folder}`);
+      await page.keyboard.press('Escape');
+      return false;
+    }
+
+    const checkbox = item.locator('input[type="checkbox"]').first();
+    if (!(await checkbox.isChecked().catch(() => false))) {
+      await item.click();
+    }
+    await dialog.locator('.submit-move, button:has-text("确定")').first().click();
+    await page.waitForTimeout(1000);
+    return true;
+  }
+
+  /**
+   * 关注视频的UP主
+   */
+  async followAuthor(video: VideoInfo): Promise<boolean> {
+    if (this.useSimulatedPlayback) {
+      return this.simulator ? this.simulator.followAuthor(video) : false;
+    }
+
+    const page = await this.openVideoPage(video);
+    const button = page.locator('.up-info-container .follow-btn, .up-detail .follow-btn').first();
+    if ((await button.textContent() || '').includes('已关注')) {
+      return true;
+    }
+    await button.click();
+    await page.waitForTimeout(1000);
+    return (await button.textContent() || '').includes('已关注');
+  }
+
+  /**
+   * 获取停留在该视频播放页的浏览器页面，不在时先打开
+   */
+  private async openVideoPage(video: VideoInfo): Promise<Page> {
+    if (!this.browser) {
+      await this.initializeBrowser();
+    }
+    if (!this.page) {
+      throw new Error('浏览器页面未初始化');
+    }
+
+    if (!this.page.url().includes(video.id)) {
+      await this.page.goto(video.url, { timeout: 60000 });
+      await this.page.waitForLoadState('domcontentloaded', { timeout: 15000 });
+    }
+    return this.page;
+  }
+
+  /**
+   * 设置 related 视频源的种子视频
+   */
+  public setRelatedSeed(videoId: string): void {
+    this.lastPlayedVideoId = videoId;
+  }
+
   /**
    * 更新Cookie
    */
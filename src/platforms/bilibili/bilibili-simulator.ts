@@ -1,11 +1,11 @@
-import { VideoInfo } from '../../types/index.js';
+import { VideoInfo, PlaybackSimulator } from '../../types/index.js';
 import { logger } from '../../core/logger.js';
 
 /**
  * B站播放模拟器
  * 模拟播放行为，发送必要的API请求让B站认为我们观看了视频
  */
-export class BilibiliPlaybackSimulator {
+export class BilibiliPlaybackSimulator implements PlaybackSimulator {
   private cookies: string;
   private userAgent: string;
   private csrfToken: string = '';
@@ -329,6 +329,106 @@ export class BilibiliPlaybackSimulator {
     }
   }
 
+  /**
+   * 点赞视频
+   */
+  async likeVideo(video: VideoInfo): Promise<boolean> {
+    const videoInfo = await this.getVideoInfo(video.id);
+    return this.postAction('https://api.bilibili.com/x/web-interface/archive/like', {
+      aid: videoInfo.aid.toString(),
+      like: '1'
+    }, video.id, '点赞');
+  }
+
+  /**
+   * 收藏视频到指定名称的收藏夹
+   */
+  async favoriteVideo(video: VideoInfo, folder: string): Promise<boolean> {
+    const videoInfo = await this.getVideoInfo(video.id);
+    const folderId = await this.findFavoriteFolder(folder);
+    if (!folderId) {
+      logger.warn(`⚠️  未找到收藏夹: ${folder}`);
+      return false;
+    }
+
+    return this.postAction('https://api.bilibili.com/x/v3/fav/resource/deal', {
+      rid: videoInfo.aid.toString(),
+      type: '2',
+      add_media_ids: folderId.toString(),
+      del_media_ids: ''
+    }, video.id, '收藏');
+  }
+
+  /**
+   * 关注视频的UP主
+   */
+  async followAuthor(video: VideoInfo): Promise<boolean> {
+    if (!video.authorId) {
+      logger.debug(`视频缺少UP主ID，无法关注: ${video.title}`);
+      return false;
+    }
+
+    return this.postAction('https://api.bilibili.com/x/relation/modify', {
+      fid: video.authorId,
+      act: '1', // 1: 关注
+      re_src: '11' // 来源: 视频播放页
+    }, video.id, '关注');
+  }
+
+  /**
+   * 按名称查找当前用户创建的收藏夹ID
+   */
+  private async findFavoriteFolder(title: string): Promise<number | null> {
+    const response = await fetch(`https://api.bilibili.com/x/v3/fav/folder/created/list-all?up_mid=${this.userMid}&type=2`, {
+      method: 'GET',
+      headers: {
+        'Cookie': this.cookies,
+        'User-Agent': this.userAgent,
+        'Accept': 'application/json, text/plain, */*',
+        'Referer': 'https://www.bilibili.com/'
+      }
+    });
+
+    const data = await response.json();
+    if (data.code !== 0) {
+      throw new Error(`获取收藏夹列表失败: ${data.message}`);
+    }
+
+    const folder = (data.data?.list || []).find((item: any) => item.title === title);
+    return folder ? folder.id : null;
+  }
+
+  /**
+   * 发送带CSRF Token的互动请求
+   */
+  private async postAction(url: string, params: Record<string, string>, bvid: string, label: string): Promise<boolean> {
+    if (!this.csrfToken) {
+      logger.warn(`⚠️  缺少CSRF Token，无法${label}`);
+      return false;
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Cookie': this.cookies,
+        'User-Agent': this.userAgent,
+        'Content-Type': 'application/x-www-form-urlencoded; charset=UTF-8',
+        'Accept': 'application/json, text/plain, */*',
+        'Referer': `https://www.bilibili.com/video/${bvid}`,
+        'Origin': 'https://www.bilibili.com'
+      },
+      body: new URLSearchParams({ ...params, csrf: this.csrfToken }).toString()
+    });
+
+    const result = await response.json();
+    if (result.code === 0) {
+      logger.debug(`B站${label}成功: ${bvid}`);
+      return true;
+    }
+    logger.debug(`B站${label}响应: ${result.code} ${result.message}`);
+    return false;
+  }
+
   /**
    * 从Cookie中提取CSRF Token
    */
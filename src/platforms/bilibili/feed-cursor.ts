@@ -0,0 +1,79 @@
+/**
+ * 首页推荐的翻页参数
+ */
+export interface FeedPageParams {
+  fresh_idx: number;
+  fresh_idx_1h: number;
+  brush: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * 首页推荐游标
+ * 和网页端"换一换"一样，每请求一页就推进 fresh_idx / brush，fresh_idx_1h 只统计最近一小时内的刷新次数；
+ * 同时记住最近见过的 bvid，用于区分新推荐和重复推荐
+ */
+export class FeedCursor {
+  private refreshCount = 0;
+  private hourlyCount = 0;
+  private hourStart = 0;
+  private seen: Set<string> = new Set();
+  private maxSeen: number;
+
+  constructor(maxSeen: number = 5000) {
+    this.maxSeen = maxSeen;
+  }
+
+  /**
+   * 下一页的翻页参数，调用后游标前进一页
+   */
+  next(now: number = Date.now()): FeedPageParams {
+    if (now - this.hourStart >= HOUR) {
+      this.hourStart = now;
+      this.hourlyCount = 0;
+    }
+
+    this.refreshCount++;
+    this.hourlyCount++;
+    return {
+      fresh_idx: this.refreshCount,
+      fresh_idx_1h: this.hourlyCount,
+      brush: this.refreshCount - 1
+    };
+  }
+
+  /**
+   * 把一页推荐分为新视频和见过的视频，新视频随即记为已见
+   */
+  partition(ids: string[]): { fresh: string[]; repeats: string[] } {
+    const fresh: string[] = [];
+    const repeats: string[] = [];
+
+    for (const id of ids) {
+      if (this.seen.has(id)) {
+        repeats.push(id);
+        continue;
+      }
+      fresh.push(id);
+      this.seen.add(id);
+    }
+
+    // 超出上限时淘汰最早见过的
+    for (const id of this.seen) {
+      if (this.seen.size <= this.maxSeen) {
+        break;
+      }
+      this.seen.delete(id);
+    }
+
+    return { fresh, repeats };
+  }
+
+  /**
+   * 已记住的视频数
+   */
+  getSeenCount(): number {
+    return this.seen.size;
+  }
+}
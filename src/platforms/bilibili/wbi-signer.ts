@@ -0,0 +1,156 @@
+import { createHash } from 'crypto';
+import { logger } from '../../core/logger.js';
+
+/**
+ * 打乱 img_key + sub_key 得到 mixin key 的下标表
+ */
+const MIXIN_KEY_ENC_TAB = [
+  46, 47, 18, 2, 53, 8, 23, 32, 15, 50, 10, 31, 58, 3, 45, 35, 27, 43, 5, 49,
+  33, 9, 42, 19, 29, 28, 14, 39, 12, 38, 41, 13, 37, 48, 7, 16, 24, 55, 40,
+  61, 26, 17, 0, 1, 60, 51, 30, 4, 22, 25, 54, 21, 56, 59, 6, 63, 57, 62, 11,
+  36, 20, 34, 44, 52
+];
+
+// 参数值中会被服务端过滤掉的字符，签名前同样去掉
+const FILTERED_CHARS = /[!'()*]/g;
+
+// 密钥每天更换，缓存超过这个时间后重新获取
+const KEY_TTL = 6 * 60 * 60 * 1000;
+
+/**
+ * /x/web-interface/nav 响应中的 WBI 密钥部分（未登录时也会返回）
+ */
+export interface WbiNavData {
+  wbi_img?: {
+    img_url: string;
+    sub_url: string;
+  };
+}
+
+export interface WbiKeys {
+  imgKey: string;
+  subKey: string;
+}
+
+export type WbiParams = Record<string, string | number | boolean | undefined>;
+
+/**
+ * 从 nav 数据中取出 img_key / sub_key（图片URL的文件名）
+ */
+export function extractWbiKeys(data?: WbiNavData): WbiKeys | null {
+  const imgUrl = data?.wbi_img?.img_url;
+  const subUrl = data?.wbi_img?.sub_url;
+  if (!imgUrl || !subUrl) {
+    return null;
+  }
+
+  const fileName = (url: string) => url.slice(url.lastIndexOf('/') + 1).split('.')[0];
+  return { imgKey: fileName(imgUrl), subKey: fileName(subUrl) };
+}
+
+/**
+ * 按下标表打乱 img_key + sub_key，取前32位
+ */
+export function getMixinKey(keys: WbiKeys): string {
+  const raw = keys.imgKey + keys.subKey;
+  return MIXIN_KEY_ENC_TAB.map(index => raw[index]).join('').slice(0, 32);
+}
+
+/**
+ * 为请求参数签名：加入 wts，按键名排序后拼接，与 mixin key 一起计算 MD5 作为 w_rid
+ * @param wts 签名时间戳(秒)，默认为当前时间
+ */
+export function signWbiParams(params: WbiParams, mixinKey: string, wts: number = Math.round(Date.now() / 1000)): Record<string, string> {
+  const signed: Record<string, string> = {};
+  for (const [key, value] of Object.entries({ ...params, wts })) {
+    if (value !== undefined) {
+      signed[key] = String(value).replace(FILTERED_CHARS, '');
+    }
+  }
+
+  const query = Object.keys(signed)
+    .sort()
+    .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(signed[key])}`)
+    .join('&');
+  signed.w_rid = createHash('md5').update(query + mixinKey).digest('hex');
+  return signed;
+}
+
+/**
+ * WBI 签名器
+ * 缓存从 nav 接口获取的密钥，为 /wbi/ 接口的请求参数加上 w_rid 和 wts
+ */
+export class WbiSigner {
+  private fetchNav: () => Promise<WbiNavData | undefined>;
+  private keys: WbiKeys | null = null;
+  private fetchedAt = 0;
+  private pending: Promise<WbiKeys | null> | null = null;
+
+  /**
+   * @param fetchNav 请求 nav 接口并返回其 data 字段
+   */
+  constructor(fetchNav: () => Promise<WbiNavData | undefined>) {
+    this.fetchNav = fetchNav;
+  }
+
+  /**
+   * 是否为需要签名的接口
+   */
+  static isProtected(url?: string): boolean {
+    return !!url && url.includes('/wbi/');
+  }
+
+  /**
+   * 用 nav 接口的数据更新缓存的密钥（其他地方已请求过 nav 时复用其结果）
+   */
+  updateKeys(data?: WbiNavData): void {
+    const keys = extractWbiKeys(data);
+    if (keys) {
+      this.keys = keys;
+      this.fetchedAt = Date.now();
+    }
+  }
+
+  /**
+   * 签名请求参数，无法获取密钥时原样返回（接口可能返回风控错误）
+   */
+  async sign(params: WbiParams = {}): Promise<WbiParams> {
+    const keys = await this.getKeys();
+    if (!keys) {
+      logger.warn('无法获取WBI密钥，请求将不带签名');
+      return params;
+    }
+    return signWbiParams(params, getMixinKey(keys));
+  }
+
+  /**
+   * 使缓存的密钥失效，下次签名时重新获取
+   */
+  invalidate(): void {
+    this.keys = null;
+  }
+
+  private async getKeys(): Promise<WbiKeys | null> {
+    if (this.keys && Date.now() - this.fetchedAt < KEY_TTL) {
+      return this.keys;
+    }
+
+    // 并发的请求共用一次获取
+    if (!this.pending) {
+      this.pending = this.fetchNav()
+        .then(data => {
+          this.updateKeys(data);
+          logger.debug(this.keys ? 'WBI密钥已更新' : 'nav接口没有返回WBI密钥');
+          return this.keys;
+        })
+        .catch(error => {
+          logger.warn('获取WBI密钥失败:', error);
+          return this.keys;
+        })
+        .finally(() => {
+          this.pending = null;
+        });
+    }
+    return this.pending;
+  }
+}
@@ -1,6 +1,7 @@
 import { PlatformInterface, PlatformConfig } from '../types/index.js';
 import { BilibiliPlatform } from './bilibili/bilibili-platform.js';
 import { YouTubePlatform } from './youtube/youtube-platform.js';
+import { TwitchPlatform } from './twitch/twitch-platform.js';
 import { logger } from '../core/logger.js';
 
 /**
@@ -28,11 +29,10 @@ export class PlatformFactory {
         return new BilibiliPlatform(config, headless, videosPerPage, apiTimeout, useSimulatedPlayback, simulatedConfig);
       
       case 'youtube':
-        return new YouTubePlatform(config, headless, videosPerPage, apiTimeout, useSimulatedPlayback);
+        return new YouTubePlatform(config, headless, videosPerPage, apiTimeout, useSimulatedPlayback, simulatedConfig);
       
       case 'twitch':
-        logger.warn('Twitch平台尚未实现，回退到Bilibili');
-        return new BilibiliPlatform(config, headless, videosPerPage, apiTimeout, useSimulatedPlayback, simulatedConfig);
+        return new TwitchPlatform(config, headless, videosPerPage, apiTimeout, useSimulatedPlayback);
       
       default:
         logger.warn(`不支持的平台类型: ${platformType}，使用默认Bilibili平台`);
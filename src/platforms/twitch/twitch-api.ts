@@ -0,0 +1,427 @@
+import { VideoInfo } from '../../types/index.js';
+import { logger } from '../../core/logger.js';
+
+/**
+ * Twitch GQL 响应
+ */
+interface TwitchGqlResponse<T> {
+  data?: T;
+  errors?: Array<{ message: string }>;
+}
+
+interface TwitchUser {
+  id: string;
+  login: string;
+  displayName: string;
+}
+
+interface TwitchGame {
+  id: string;
+  name: string;
+  displayName?: string;
+}
+
+/**
+ * 直播
+ */
+interface TwitchStream {
+  id: string;
+  title: string | null;
+  viewersCount: number;
+  createdAt: string;
+  previewImageURL?: string;
+  broadcaster: TwitchUser | null;
+  game: TwitchGame | null;
+  freeformTags?: Array<{ name: string }>;
+}
+
+/**
+ * 录播（VOD）
+ */
+interface TwitchVideo {
+  id: string;
+  title: string | null;
+  description?: string | null;
+  lengthSeconds: number;
+  viewCount: number;
+  publishedAt: string;
+  previewThumbnailURL?: string;
+  owner: TwitchUser | null;
+  game: TwitchGame | null;
+}
+
+interface TwitchEdges<T> {
+  edges: Array<{ node: T }> | null;
+}
+
+interface RecommendedStreamsData {
+  personalSections: Array<{
+    type: string;
+    items: Array<{ content: (TwitchStream & { __typename: string }) | null }>;
+  }> | null;
+}
+
+interface TopStreamsData {
+  streams: TwitchEdges<TwitchStream> | null;
+}
+
+interface CategoryStreamsData {
+  game: (TwitchGame & { streams: TwitchEdges<TwitchStream> | null }) | null;
+}
+
+interface ChannelVideosData {
+  user: (TwitchUser & { videos: TwitchEdges<TwitchVideo> | null }) | null;
+}
+
+interface SearchData {
+  searchFor: {
+    channels: { edges: Array<{ item: (TwitchUser & { stream: TwitchStream | null }) | null }> | null } | null;
+    games: { edges: Array<{ item: TwitchGame | null }> | null } | null;
+  } | null;
+}
+
+/**
+ * 推荐过的直播/录播所属的频道和分区，用于获取相关内容
+ */
+interface ContentRef {
+  login: string;
+  category?: string;
+}
+
+const GQL_URL = 'https://gql.twitch.tv/gql';
+const WEB_CLIENT_ID = 'kimne78kx3ncx6brgo4mv6wki5h1ko'; // Twitch 网页端使用的公开 Client-ID
+
+const STREAM_FIELDS = `
+fragment StreamFields on Stream {
+  id
+  title
+  viewersCount
+  createdAt
+  previewImageURL(width: 440, height: 248)
+  broadcaster { id login displayName }
+  game { id name displayName }
+  freeformTags { name }
+}`;
+
+const VIDEO_FIELDS = `
+fragment VideoFields on Video {
+  id
+  title
+  description
+  lengthSeconds
+  viewCount
+  publishedAt
+  previewThumbnailURL(width: 320, height: 180)
+  owner { id login displayName }
+  game { id name displayName }
+}`;
+
+/**
+ * Twitch API客户端
+ * 通过网页端使用的 GQL 接口获取推荐直播、分区直播、频道录播和搜索结果
+ */
+export class TwitchAPI {
+  private cookies: string;
+  private userAgent: string;
+  private timeout: number;
+  private contents: Map<string, ContentRef> = new Map(); // 获取过的直播/录播所属的频道和分区
+
+  constructor(cookies: string, timeout: number = 30000, userAgent?: string) {
+    this.cookies = cookies;
+    this.timeout = timeout;
+    this.userAgent = userAgent || 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/138.0.0.0 Safari/537.36';
+
+    logger.info(`Twitch API客户端初始化完成${this.getAuthToken() ? '' : ' (未登录，只能获取公开推荐)'}`);
+  }
+
+  /**
+   * 获取首页推荐直播
+   * 登录时使用个性化推荐，推荐为空或未登录时回退到热门直播
+   */
+  async getRecommendedStreams(count: number = 20): Promise<VideoInfo[]> {
+    try {
+      if (this.getAuthToken()) {
+        const data = await this.query<RecommendedStreamsData>('RecommendedStreams', `
+query RecommendedStreams {
+  personalSections(input: { sectionInputs: [RECOMMENDED_SECTION], recommendationContext: { platform: "web" } }) {
+    type
+    items {
+      content {
+        __typename
+        ...StreamFields
+      }
+    }
+  }
+}${STREAM_FIELDS}`);
+
+        const streams = (data.personalSections || [])
+          .flatMap(section => section.items || [])
+          .map(item => item.content)
+          .filter((content): content is TwitchStream & { __typename: string } => !!content && content.__typename === 'Stream');
+        const videos = this.mapStreams(streams).slice(0, count);
+        if (videos.length > 0) {
+          logger.info(`获取到 ${videos.length} 个Twitch个性化推荐直播`);
+          return videos;
+        }
+        logger.warn('Twitch个性化推荐为空，回退到热门直播');
+      }
+
+      return await this.getTopStreams(count);
+    } catch (error) {
+      logger.error('获取Twitch推荐直播失败:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 获取热门直播
+   */
+  async getTopStreams(count: number = 20): Promise<VideoInfo[]> {
+    const data = await this.query<TopStreamsData>('TopStreams', `
+query TopStreams($first: Int!) {
+  streams(first: $first, options: { sort: RELEVANCE }) {
+    edges { node { ...StreamFields } }
+  }
+}${STREAM_FIELDS}`, { first: count });
+
+    const videos = this.mapStreams(nodes(data.streams));
+    logger.info(`获取到 ${videos.length} 个Twitch热门直播`);
+    return videos;
+  }
+
+  /**
+   * 浏览分区（游戏/类别）中的直播
+   */
+  async getCategoryStreams(category: string, count: number = 20): Promise<VideoInfo[]> {
+    try {
+      const data = await this.query<CategoryStreamsData>('CategoryStreams', `
+query CategoryStreams($name: String!, $first: Int!) {
+  game(name: $name) {
+    id
+    name
+    displayName
+    streams(first: $first, options: { sort: RELEVANCE }) {
+      edges { node { ...StreamFields } }
+    }
+  }
+}${STREAM_FIELDS}`, { name: category, first: count });
+
+      if (!data.game) {
+        logger.warn(`未找到Twitch分区: ${category}`);
+        return [];
+      }
+      const videos = this.mapStreams(nodes(data.game.streams));
+      logger.info(`Twitch分区 "${data.game.displayName || data.game.name}" 中获取到 ${videos.length} 个直播`);
+      return videos;
+    } catch (error) {
+      logger.error(`获取Twitch分区直播失败: ${category}`, error);
+      return [];
+    }
+  }
+
+  /**
+   * 获取频道最近的录播
+   */
+  async getChannelVideos(login: string, count: number = 10): Promise<VideoInfo[]> {
+    try {
+      const data = await this.query<ChannelVideosData>('ChannelVideos', `
+query ChannelVideos($login: String!, $first: Int!) {
+  user(login: $login) {
+    id
+    login
+    displayName
+    videos(first: $first, sort: TIME) {
+      edges { node { ...VideoFields } }
+    }
+  }
+}${VIDEO_FIELDS}`, { login, first: count });
+
+      if (!data.user) {
+        logger.warn(`未找到Twitch频道: ${login}`);
+        return [];
+      }
+      return this.mapVideos(nodes(data.user.videos));
+    } catch (error) {
+      logger.error(`获取Twitch频道录播失败: ${login}`, error);
+      return [];
+    }
+  }
+
+  /**
+   * 获取与指定直播/录播相关的内容：同分区的其他直播，以及同一频道的录播
+   * 只能查找本客户端获取过的内容
+   */
+  async getRelatedVideos(videoId: string, count: number = 20): Promise<VideoInfo[]> {
+    const ref = this.contents.get(videoId);
+    if (!ref) {
+      logger.debug(`没有Twitch内容 ${videoId} 的频道信息，无法获取相关内容`);
+      return [];
+    }
+
+    const streams = ref.category ? await this.getCategoryStreams(ref.category, count) : [];
+    const vods = await this.getChannelVideos(ref.login, Math.max(1, Math.floor(count / 4)));
+    return [...streams, ...vods].filter(video => video.id !== videoId).slice(0, count);
+  }
+
+  /**
+   * 搜索频道和分区
+   * 返回匹配频道的直播（未开播时为最近的录播）和匹配分区中的直播
+   */
+  async searchVideos(query: string, count: number = 20): Promise<VideoInfo[]> {
+    try {
+      logger.info(`搜索Twitch频道和分区: "${query}" (数量: ${count})`);
+
+      const data = await this.query<SearchData>('SearchChannelsAndCategories', `
+query SearchChannelsAndCategories($query: String!) {
+  searchFor(userQuery: $query, platform: "web") {
+    channels {
+      edges {
+        item {
+          ... on User {
+            id
+            login
+            displayName
+            stream { ...StreamFields }
+          }
+        }
+      }
+    }
+    games {
+      edges {
+        item {
+          ... on Game { id name displayName }
+        }
+      }
+    }
+  }
+}${STREAM_FIELDS}`, { query });
+
+      const channels = (data.searchFor?.channels?.edges || []).map(edge => edge.item).filter((item): item is NonNullable<typeof item> => !!item);
+      const games = (data.searchFor?.games?.edges || []).map(edge => edge.item).filter((item): item is TwitchGame => !!item);
+
+      const results: VideoInfo[] = this.mapStreams(channels.map(channel => channel.stream).filter((stream): stream is TwitchStream => !!stream));
+
+      // 未开播的频道用最近的录播代替
+      for (const channel of channels.filter(item => !item.stream)) {
+        if (results.length >= count) break;
+        results.push(...await this.getChannelVideos(channel.login, 1));
+      }
+
+      for (const game of games) {
+        if (results.length >= count) break;
+        results.push(...await this.getCategoryStreams(game.name, count - results.length));
+      }
+
+      const unique = Array.from(new Map(results.map(video => [video.id, video])).values()).slice(0, count);
+      logger.info(`Twitch搜索到 ${unique.length} 个直播/录播 (${channels.length} 个频道, ${games.length} 个分区)`);
+      return unique;
+    } catch (error) {
+      logger.error(`搜索Twitch失败: "${query}"`, error);
+      return [];
+    }
+  }
+
+  /**
+   * 更新Cookie
+   */
+  updateCookies(cookies: string): void {
+    this.cookies = cookies;
+    logger.info('Twitch API Cookie已更新');
+  }
+
+  /**
+   * 发送 GQL 请求，返回 data，出错时抛出异常
+   */
+  private async query<T>(operationName: string, query: string, variables: Record<string, unknown> = {}): Promise<T> {
+    const headers: Record<string, string> = {
+      'Client-Id': WEB_CLIENT_ID,
+      'Content-Type': 'text/plain;charset=UTF-8',
+      'User-Agent': this.userAgent,
+      'Accept': '*/*',
+      'Origin': 'https://www.twitch.tv',
+      'Referer': 'https://www.twitch.tv/'
+    };
+    const token = this.getAuthToken();
+    if (token) {
+      headers['Authorization'] = `OAuth ${token}`;
+    }
+
+    logger.debug(`Twitch GQL请求: ${operationName}`);
+    const response = await fetch(GQL_URL, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ operationName, query, variables }),
+      signal: AbortSignal.timeout(this.timeout)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Twitch GQL请求失败: HTTP ${response.status}`);
+    }
+
+    const result = await response.json() as TwitchGqlResponse<T>;
+    if (result.errors && result.errors.length > 0) {
+      throw new Error(`Twitch GQL返回错误: ${result.errors.map(error => error.message).join('; ')}`);
+    }
+    if (!result.data) {
+      throw new Error(`Twitch GQL响应缺少数据: ${operationName}`);
+    }
+    return result.data;
+  }
+
+  /**
+   * 从Cookie中提取登录令牌
+   */
+  private getAuthToken(): string | null {
+    const match = this.cookies.match(/(?:^|;\s*)auth-token=([^;]+)/);
+    return match ? match[1] : null;
+  }
+
+  private mapStreams(streams: TwitchStream[]): VideoInfo[] {
+    return streams.filter(stream => stream.broadcaster).map(stream => {
+      const broadcaster = stream.broadcaster!;
+      const category = stream.game?.displayName || stream.game?.name;
+      this.contents.set(stream.id, { login: broadcaster.login, category: stream.game?.name });
+
+      return {
+        id: stream.id,
+        title: stream.title || `${broadcaster.displayName} 的直播`,
+        author: broadcaster.displayName,
+        authorId: broadcaster.id,
+        url: `https://www.twitch.tv/${broadcaster.login}`,
+        tags: [category, ...(stream.freeformTags || []).map(tag => tag.name)].filter((tag): tag is string => !!tag),
+        platform: 'twitch',
+        viewCount: stream.viewersCount,
+        publishTime: stream.createdAt,
+        thumbnail: stream.previewImageURL
+      };
+    });
+  }
+
+  private mapVideos(videos: TwitchVideo[]): VideoInfo[] {
+    return videos.filter(video => video.owner).map(video => {
+      const owner = video.owner!;
+      const category = video.game?.displayName || video.game?.name;
+      const id = `v${video.id}`; // 与直播ID区分，Twitch 网页端也用 v 前缀表示录播
+      this.contents.set(id, { login: owner.login, category: video.game?.name });
+
+      return {
+        id,
+        title: video.title || `${owner.displayName} 的录播`,
+        author: owner.displayName,
+        authorId: owner.id,
+        url: `https://www.twitch.tv/videos/${video.id}`,
+        duration: video.lengthSeconds,
+        tags: category ? [category] : [],
+        platform: 'twitch',
+        description: video.description || undefined,
+        viewCount: video.viewCount,
+        publishTime: video.publishedAt,
+        thumbnail: video.previewThumbnailURL
+      };
+    });
+  }
+}
+
+function nodes<T>(connection: TwitchEdges<T> | null): T[] {
+  return (connection?.edges || []).map(edge => edge.node).filter(node => !!node);
+}
@@ -0,0 +1,234 @@
+import { chromium, Browser, Page } from 'playwright';
+import { PlatformInterface, VideoInfo, PlatformConfig } from '../../types/index.js';
+import { TwitchAPI } from './twitch-api.js';
+import { logger } from '../../core/logger.js';
+
+/**
+ * Twitch平台实现
+ * 通过 GQL 接口获取推荐直播、分区直播和录播，在浏览器中观看
+ * 视频源: home(首页推荐直播) | related(同分区直播和同频道录播) | short(推荐频道的最近录播)
+ */
+export class TwitchPlatform implements PlatformInterface {
+  private config: PlatformConfig;
+  private api: TwitchAPI;
+  private browser?: Browser;
+  private page?: Page;
+  private headless: boolean;
+  private videosPerPage: number;
+  private currentVideoSource: 'home' | 'related' | 'short' = 'home';
+  private fallbackSource: 'home' | 'related' | 'short' | null = null; // 本轮回退到的视频源，不改变 currentVideoSource
+  private relatedSeedId: string | null = null;
+
+  constructor(
+    config: PlatformConfig,
+    headless: boolean = true,
+    videosPerPage: number = 20,
+    apiTimeout: number = 30000,
+    useSimulatedPlayback: boolean = false
+  ) {
+    this.config = config;
+    this.headless = headless;
+    this.videosPerPage = videosPerPage;
+    this.api = new TwitchAPI(config.cookies, apiTimeout, config.headers?.['User-Agent']);
+
+    if (useSimulatedPlayback) {
+      logger.warn('Twitch平台不支持模拟播放，将在浏览器中观看');
+    }
+    logger.info('Twitch平台初始化完成');
+  }
+
+  async initialize(): Promise<void> {
+    logger.info('Twitch平台初始化完成');
+  }
+
+  async getRecommendedVideos(): Promise<VideoInfo[]> {
+    logger.info(`从Twitch获取推荐内容 (来源: ${this.currentVideoSource})`);
+    this.fallbackSource = null;
+
+    try {
+      switch (this.currentVideoSource) {
+        case 'related': {
+          const videos = this.relatedSeedId
+            ? await this.api.getRelatedVideos(this.relatedSeedId, this.videosPerPage)
+            : [];
+          if (videos.length > 0) {
+            return videos;
+          }
+          logger.warn('没有可用的相关内容，本轮回退到首页推荐');
+          this.fallbackSource = 'home';
+          return await this.api.getRecommendedStreams(this.videosPerPage);
+        }
+        case 'short':
+          return await this.getRecentVods();
+        case 'home':
+        default:
+          return await this.api.getRecommendedStreams(this.videosPerPage);
+      }
+    } catch (error) {
+      logger.error('获取Twitch推荐内容失败:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 搜索频道和分区
+   */
+  async searchVideos(keyword: string, limit: number = 10): Promise<VideoInfo[]> {
+    return this.api.searchVideos(keyword, limit);
+  }
+
+  /**
+   * 在浏览器中打开直播或录播并开始播放，观看时长由调用方控制
+   */
+  async playVideo(video: VideoInfo): Promise<void> {
+    await this.initializeBrowser();
+    if (!this.page) {
+      logger.error('浏览器页面未初始化');
+      return;
+    }
+
+    try {
+      logger.info(`🎬 开始观看Twitch${video.id.startsWith('v') ? '录播' : '直播'}: ${video.title}`);
+
+      await this.page.goto(video.url, { waitUntil: 'domcontentloaded', timeout: 30000 });
+      await this.page.waitForSelector('video', { timeout: 20000 });
+
+      // 成人内容提示需要点击确认后才会播放
+      const matureAccept = this.page.locator('[data-a-target="player-overlay-mature-accept"]').first();
+      if (await matureAccept.isVisible().catch(() => false)) {
+        await matureAccept.click();
+        logger.debug('已确认成人内容提示');
+      }
+
+      await this.page.evaluate(() => {
+        const player = document.querySelector('video') as HTMLVideoElement;
+        if (player) {
+          player.muted = true;
+          player.play();
+        }
+      });
+
+      await this.page.waitForFunction(() => {
+        const player = document.querySelector('video') as HTMLVideoElement;
+        return player && !player.paused;
+      }, { timeout: 10000 });
+
+      logger.info('Twitch开始播放');
+    } catch (error) {
+      // 不抛出错误，让调用方继续计时，直播偶尔会因为广告等原因晚一些开始播放
+      logger.debug(`观看Twitch内容时发生异常: ${video.title}`, error);
+    }
+  }
+
+  async cleanup(): Promise<void> {
+    try {
+      if (this.page) {
+        await this.page.close();
+        this.page = undefined;
+      }
+      if (this.browser) {
+        await this.browser.close();
+        this.browser = undefined;
+      }
+      logger.info('Twitch浏览器已关闭');
+    } catch (error) {
+      logger.error('关闭Twitch浏览器时出错:', error);
+    }
+  }
+
+  switchVideoSource(source: 'home' | 'related' | 'short'): void {
+    this.currentVideoSource = source;
+    logger.info(`Twitch视频源已切换到: ${source}`);
+  }
+
+  getCurrentVideoSource(): string {
+    return this.currentVideoSource;
+  }
+
+  /**
+   * 最近一次获取推荐时回退到的视频源（没有回退时为 null）
+   */
+  getFallbackSource(): 'home' | 'related' | 'short' | null {
+    return this.fallbackSource;
+  }
+
+  /**
+   * 设置 related 视频源的种子视频
+   */
+  setRelatedSeed(videoId: string): void {
+    this.relatedSeedId = videoId;
+  }
+
+  /**
+   * 获取指定直播/录播的相关内容
+   */
+  async getRelatedVideos(videoId: string): Promise<VideoInfo[]> {
+    return this.api.getRelatedVideos(videoId, this.videosPerPage);
+  }
+
+  /**
+   * 推荐直播所在频道的最近录播
+   */
+  private async getRecentVods(): Promise<VideoInfo[]> {
+    const streams = await this.api.getRecommendedStreams(this.videosPerPage);
+    const logins = Array.from(new Set(streams.map(stream => stream.url.split('/').pop()!))).slice(0, 5);
+
+    const vods: VideoInfo[] = [];
+    for (const login of logins) {
+      vods.push(...await this.api.getChannelVideos(login, 2));
+    }
+    logger.info(`获取到 ${vods.length} 个Twitch录播`);
+    return vods.slice(0, this.videosPerPage);
+  }
+
+  /**
+   * 延迟初始化浏览器（只在需要观看时调用）
+   */
+  private async initializeBrowser(): Promise<void> {
+    if (this.browser) {
+      return;
+    }
+
+    logger.info('初始化Twitch浏览器...');
+    this.browser = await chromium.launch({
+      channel: 'chrome',
+      headless: this.headless,
+      args: [
+        '--no-sandbox',
+        '--disable-setuid-sandbox',
+        '--disable-dev-shm-usage',
+        '--disable-blink-features=AutomationControlled',
+        '--autoplay-policy=no-user-gesture-required',
+        '--mute-audio',
+        '--no-first-run',
+        '--no-default-browser-check'
+      ]
+    });
+
+    const context = await this.browser.newContext({
+      userAgent: this.config.headers?.['User-Agent'],
+      viewport: { width: 1920, height: 1080 }
+    });
+
+    // 使用最低画质，减少长时间观看直播的带宽
+    await context.addInitScript(() => {
+      localStorage.setItem('video-quality', JSON.stringify({ default: '160p30' }));
+      localStorage.setItem('mature', 'true');
+    });
+
+    if (this.config.cookies) {
+      const cookies = this.config.cookies.split(';')
+        .map(pair => pair.trim())
+        .filter(pair => pair.includes('='))
+        .map(pair => {
+          const index = pair.indexOf('=');
+          return { name: pair.slice(0, index), value: pair.slice(index + 1), domain: '.twitch.tv', path: '/' };
+        });
+      await context.addCookies(cookies);
+      logger.debug(`已设置 ${cookies.length} 个Twitch Cookie`);
+    }
+
+    this.page = await context.newPage();
+    logger.info('Twitch浏览器初始化完成');
+  }
+}
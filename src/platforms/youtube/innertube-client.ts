@@ -0,0 +1,244 @@
+import { createHash } from 'crypto';
+import { VideoInfo } from '../../types/index.js';
+import { logger } from '../../core/logger.js';
+import { parseInnerTubeResponse } from './innertube-parser.js';
+
+const ORIGIN = 'https://www.youtube.com';
+const DEFAULT_CLIENT_VERSION = '2.20251017.01.00';
+const DEFAULT_MAX_PAGES = 5;
+
+export type InnerTubeEndpoint = 'browse' | 'next' | 'search';
+
+/**
+ * 发送HTTP请求的函数，由调用方提供（YouTubeAPI 传入带代理的请求，测试中传入录制的响应）
+ */
+export type InnerTubeFetcher = (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body?: string }
+) => Promise<{ text(): Promise<string> }>;
+
+/**
+ * 从页面HTML中读取所有 ytcfg.set({...}) 调用并合并
+ * INNERTUBE_CONTEXT、INNERTUBE_API_KEY 等字段分布在不同的调用中
+ */
+export function extractYtConfig(html: string): Record<string, any> {
+  const config: Record<string, any> = {};
+  const marker = 'ytcfg.set(';
+
+  let index = html.indexOf(marker);
+  while (index >= 0) {
+    const start = index + marker.length;
+    const json = html[start] === '{' ? readJsonObject(html, start) : null;
+    if (json) {
+      try {
+        Object.assign(config, JSON.parse(json));
+      } catch (error) {
+        logger.debug('解析ytcfg失败，已跳过');
+      }
+    }
+    index = html.indexOf(marker, start);
+  }
+
+  return config;
+}
+
+/**
+ * 从 start 处的 { 开始读取一个完整的JSON对象（跳过字符串中的括号）
+ */
+function readJsonObject(text: string, start: number): string | null {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return text.slice(start, i + 1);
+    }
+  }
+  return null;
+}
+
+/**
+ * YouTube InnerTube 客户端
+ * 使用首页 ytcfg 中的 INNERTUBE_CONTEXT 调用 /youtubei/v1/browse、/next、/search，
+ * 并通过 continuation token 翻页，直到获取到足够的视频或没有更多内容
+ */
+export class InnerTubeClient {
+  private cookies: string;
+  private userAgent: string;
+  private fetcher: InnerTubeFetcher;
+  private ytcfg: Record<string, any> | null = null;
+
+  constructor(cookies: string, userAgent: string, fetcher: InnerTubeFetcher) {
+    this.cookies = cookies;
+    this.userAgent = userAgent;
+    this.fetcher = fetcher;
+  }
+
+  /**
+   * 浏览页面，如首页推荐 FEwhat_to_watch、观看历史 FEhistory
+   */
+  async browse(browseId: string, count: number = 20, maxPages: number = DEFAULT_MAX_PAGES): Promise<VideoInfo[]> {
+    return this.collect('browse', { browseId }, count, maxPages);
+  }
+
+  /**
+   * 播放页的相关视频
+   */
+  async next(videoId: string, count: number = 20, maxPages: number = DEFAULT_MAX_PAGES): Promise<VideoInfo[]> {
+    return this.collect('next', { videoId }, count, maxPages);
+  }
+
+  /**
+   * 搜索视频
+   */
+  async search(query: string, count: number = 20, maxPages: number = DEFAULT_MAX_PAGES): Promise<VideoInfo[]> {
+    return this.collect('search', { query }, count, maxPages);
+  }
+
+  updateCookie(newCookie: string): void {
+    this.cookies = newCookie;
+    this.ytcfg = null; // 换号后需要重新读取会话相关的配置
+  }
+
+  /**
+   * 请求第一页，然后沿 continuation token 翻页
+   */
+  private async collect(endpoint: InnerTubeEndpoint, params: Record<string, string>, count: number, maxPages: number): Promise<VideoInfo[]> {
+    const videos: VideoInfo[] = [];
+    const seen = new Set<string>();
+    const usedTokens = new Set<string>();
+    let body: Record<string, string> = params;
+
+    for (let pageIndex = 1; pageIndex <= maxPages; pageIndex++) {
+      const page = parseInnerTubeResponse(await this.post(endpoint, body));
+      const fresh = page.videos.filter(video => !seen.has(video.id));
+      fresh.forEach(video => seen.add(video.id));
+      videos.push(...fresh);
+
+      logger.debug(`📄 InnerTube ${endpoint} 第${pageIndex}页: ${fresh.length} 个新视频${page.continuation ? '' : '，没有更多内容'}`);
+
+      if (videos.length >= count || !page.continuation || usedTokens.has(page.continuation)) {
+        break;
+      }
+      // 续页没有带来新视频时不再继续，避免空转
+      if (pageIndex > 1 && fresh.length === 0) {
+        break;
+      }
+
+      usedTokens.add(page.continuation);
+      body = { continuation: page.continuation };
+    }
+
+    return videos.slice(0, count);
+  }
+
+  private async post(endpoint: InnerTubeEndpoint, params: Record<string, string>): Promise<any> {
+    const ytcfg = await this.getYtConfig();
+    const apiKey = ytcfg.INNERTUBE_API_KEY;
+    const url = `${ORIGIN}/youtubei/v1/${endpoint}?prettyPrint=false${apiKey ? `&key=${apiKey}` : ''}`;
+
+    const response = await this.fetcher(url, {
+      method: 'POST',
+      headers: this.buildHeaders(ytcfg),
+      body: JSON.stringify({ context: this.getContext(ytcfg), ...params })
+    });
+
+    const result = JSON.parse(await response.text());
+    if (result?.error) {
+      throw new Error(`InnerTube ${endpoint}请求失败: ${result.error.code} ${result.error.message}`);
+    }
+    return result;
+  }
+
+  /**
+   * 首次请求前从首页读取 ytcfg，之后复用
+   */
+  private async getYtConfig(): Promise<Record<string, any>> {
+    if (this.ytcfg) {
+      return this.ytcfg;
+    }
+
+    try {
+      const response = await this.fetcher(`${ORIGIN}/`, {
+        method: 'GET',
+        headers: {
+          'Cookie': this.cookies,
+          'User-Agent': this.userAgent,
+          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+          'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8'
+        }
+      });
+      this.ytcfg = extractYtConfig(await response.text());
+    } catch (error) {
+      logger.warn('读取YouTube首页配置失败，使用默认的InnerTube上下文', error);
+      this.ytcfg = {};
+    }
+
+    if (!this.ytcfg.INNERTUBE_CONTEXT) {
+      logger.warn('首页中没有找到INNERTUBE_CONTEXT，使用默认的InnerTube上下文');
+    } else {
+      logger.debug(`InnerTube客户端版本: ${this.ytcfg.INNERTUBE_CONTEXT.client?.clientVersion}`);
+    }
+    return this.ytcfg;
+  }
+
+  private getContext(ytcfg: Record<string, any>): any {
+    return ytcfg.INNERTUBE_CONTEXT || {
+      client: {
+        clientName: 'WEB',
+        clientVersion: DEFAULT_CLIENT_VERSION,
+        hl: 'zh-CN',
+        gl: 'US'
+      }
+    };
+  }
+
+  private buildHeaders(ytcfg: Record<string, any>): Record<string, string> {
+    const client = this.getContext(ytcfg).client;
+    const headers: Record<string, string> = {
+      'Cookie': this.cookies,
+      'User-Agent': this.userAgent,
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      'Origin': ORIGIN,
+      'Referer': `${ORIGIN}/`,
+      'X-Origin': ORIGIN,
+      'X-Youtube-Client-Name': String(ytcfg.INNERTUBE_CONTEXT_CLIENT_NAME || 1),
+      'X-Youtube-Client-Version': client?.clientVersion || DEFAULT_CLIENT_VERSION
+    };
+
+    if (ytcfg.VISITOR_DATA) {
+      headers['X-Goog-Visitor-Id'] = ytcfg.VISITOR_DATA;
+    }
+
+    // 登录状态的个性化内容需要用 SAPISID 生成授权头
+    const sapisid = this.getCookie('SAPISID') || this.getCookie('__Secure-3PAPISID');
+    if (sapisid) {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const hash = createHash('sha1').update(`${timestamp} ${sapisid} ${ORIGIN}`).digest('hex');
+      headers['Authorization'] = `SAPISIDHASH ${timestamp}_${hash}`;
+      headers['X-Goog-AuthUser'] = String(ytcfg.SESSION_INDEX ?? 0);
+    }
+
+    return headers;
+  }
+
+  private getCookie(name: string): string | null {
+    const pair = this.cookies.split(';').map(item => item.trim()).find(item => item.startsWith(`${name}=`));
+    return pair ? pair.slice(name.length + 1) : null;
+  }
+}
@@ -0,0 +1,391 @@
+import { VideoInfo } from '../../types/index.js';
+
+/**
+ * InnerTube 响应解析
+ * /youtubei/v1/browse、/next、/search 以及它们的续页响应都由若干渲染器（renderer / view model）组成，
+ * 这里为常见的视频渲染器提供类型和解析函数，并从任意响应中收集视频和下一页的 continuation token
+ */
+
+export interface InnerTubeRun {
+  text: string;
+  navigationEndpoint?: {
+    browseEndpoint?: { browseId?: string };
+  };
+}
+
+export interface InnerTubeText {
+  simpleText?: string;
+  runs?: InnerTubeRun[];
+}
+
+export interface InnerTubeThumbnails {
+  thumbnails?: Array<{ url: string; width?: number; height?: number }>;
+}
+
+/**
+ * 首页、搜索、频道页的标准视频（gridVideoRenderer 结构相同）
+ */
+export interface VideoRenderer {
+  videoId: string;
+  title?: InnerTubeText;
+  ownerText?: InnerTubeText;
+  longBylineText?: InnerTubeText;
+  shortBylineText?: InnerTubeText;
+  lengthText?: InnerTubeText;
+  viewCountText?: InnerTubeText;
+  publishedTimeText?: InnerTubeText;
+  descriptionSnippet?: InnerTubeText;
+  detailedMetadataSnippets?: Array<{ snippetText?: InnerTubeText }>;
+  thumbnail?: InnerTubeThumbnails;
+}
+
+/**
+ * 旧版播放页右侧的相关视频
+ */
+export interface CompactVideoRenderer {
+  videoId: string;
+  title?: InnerTubeText;
+  longBylineText?: InnerTubeText;
+  shortBylineText?: InnerTubeText;
+  lengthText?: InnerTubeText;
+  viewCountText?: InnerTubeText;
+  publishedTimeText?: InnerTubeText;
+  thumbnail?: InnerTubeThumbnails;
+}
+
+interface ViewModelText {
+  content?: string;
+}
+
+interface InnerTubeCommand {
+  innertubeCommand?: {
+    browseEndpoint?: { browseId?: string };
+    reelWatchEndpoint?: { videoId?: string };
+  };
+}
+
+/**
+ * 新版首页和播放页使用的 lockupViewModel，contentType 区分视频、播放列表等
+ */
+export interface LockupViewModel {
+  contentId: string;
+  contentType?: string;
+  contentImage?: {
+    thumbnailViewModel?: {
+      image?: { sources?: Array<{ url: string }> };
+      overlays?: Array<{
+        thumbnailOverlayBadgeViewModel?: {
+          thumbnailBadges?: Array<{ thumbnailBadgeViewModel?: { text?: string } }>;
+        };
+      }>;
+    };
+  };
+  metadata?: {
+    lockupMetadataViewModel?: {
+      title?: ViewModelText;
+      image?: {
+        decoratedAvatarViewModel?: {
+          rendererContext?: { commandContext?: { onTap?: InnerTubeCommand } };
+        };
+      };
+      metadata?: {
+        contentMetadataViewModel?: {
+          metadataRows?: Array<{ metadataParts?: Array<{ text?: ViewModelText }> }>;
+        };
+      };
+    };
+  };
+}
+
+/**
+ * 首页 Shorts 栏目中的短视频（旧版）
+ */
+export interface ReelItemRenderer {
+  videoId: string;
+  headline?: InnerTubeText;
+  viewCountText?: InnerTubeText;
+  thumbnail?: InnerTubeThumbnails;
+}
+
+/**
+ * 首页 Shorts 栏目中的短视频（新版）
+ */
+export interface ShortsLockupViewModel {
+  entityId?: string;
+  onTap?: InnerTubeCommand;
+  overlayMetadata?: {
+    primaryText?: ViewModelText;
+    secondaryText?: ViewModelText;
+  };
+  thumbnail?: { sources?: Array<{ url: string }> };
+}
+
+/**
+ * 列表末尾的续页入口
+ */
+export interface ContinuationItemRenderer {
+  continuationEndpoint?: { continuationCommand?: { token?: string } };
+  button?: { buttonRenderer?: { command?: { continuationCommand?: { token?: string } } } };
+}
+
+export interface InnerTubePage {
+  videos: VideoInfo[];
+  continuation: string | null;       // 下一页的 token，没有更多内容时为 null
+}
+
+const RENDERER_PARSERS: Record<string, (renderer: any) => VideoInfo | null> = {
+  videoRenderer: parseVideoRenderer,
+  gridVideoRenderer: parseVideoRenderer,
+  compactVideoRenderer: parseCompactVideoRenderer,
+  lockupViewModel: parseLockupViewModel,
+  reelItemRenderer: parseReelItemRenderer,
+  shortsLockupViewModel: parseShortsLockupViewModel
+};
+
+// 广告、侧边栏面板等不包含推荐视频的部分
+const SKIPPED_KEYS = new Set(['adSlotRenderer', 'engagementPanels', 'frameworkUpdates', 'topbar', 'playerOverlays']);
+
+// 播放页评论区也有自己的续页入口，不能当作相关视频的下一页
+const COMMENT_SECTIONS = new Set(['comment-item-section', 'comments-section']);
+
+/**
+ * 从 browse / next / search 响应（包括续页响应）中收集视频和下一页 token
+ * 按出现顺序去重，取最后一个续页入口作为下一页
+ */
+export function parseInnerTubeResponse(response: any): InnerTubePage {
+  const videos: VideoInfo[] = [];
+  const seen = new Set<string>();
+  let continuation: string | null = null;
+
+  const visit = (node: any): void => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+
+    for (const [key, value] of Object.entries(node)) {
+      if (SKIPPED_KEYS.has(key) || !value || typeof value !== 'object') {
+        continue;
+      }
+
+      const parser = RENDERER_PARSERS[key];
+      if (parser) {
+        const video = parser(value);
+        if (video && !seen.has(video.id)) {
+          seen.add(video.id);
+          videos.push(video);
+        }
+        continue;
+      }
+
+      if (key === 'continuationItemRenderer') {
+        continuation = parseContinuationItemRenderer(value as ContinuationItemRenderer) || continuation;
+        continue;
+      }
+
+      const section = value as any;
+      if (key === 'itemSectionRenderer' && (COMMENT_SECTIONS.has(section.sectionIdentifier) || COMMENT_SECTIONS.has(section.targetId))) {
+        continue;
+      }
+
+      visit(value);
+    }
+  };
+
+  visit(response);
+  return { videos, continuation };
+}
+
+/**
+ * 解析标准视频渲染器
+ */
+export function parseVideoRenderer(renderer: VideoRenderer): VideoInfo | null {
+  if (!renderer.videoId || !renderer.title) {
+    return null;
+  }
+
+  const byline = renderer.ownerText || renderer.longBylineText || renderer.shortBylineText;
+  const description = renderer.descriptionSnippet || renderer.detailedMetadataSnippets?.[0]?.snippetText;
+
+  return {
+    id: renderer.videoId,
+    title: getText(renderer.title),
+    author: getText(byline),
+    authorId: getBrowseId(byline),
+    duration: parseDuration(getText(renderer.lengthText)),
+    url: `https://www.youtube.com/watch?v=${renderer.videoId}`,
+    platform: 'youtube',
+    description: getText(description),
+    tags: [],
+    viewCount: parseViewCount(getText(renderer.viewCountText)),
+    publishTime: getText(renderer.publishedTimeText),
+    thumbnail: getThumbnail(renderer.thumbnail, renderer.videoId)
+  };
+}
+
+/**
+ * 解析紧凑视频渲染器
+ */
+export function parseCompactVideoRenderer(renderer: CompactVideoRenderer): VideoInfo | null {
+  if (!renderer.videoId || !renderer.title) {
+    return null;
+  }
+
+  const byline = renderer.longBylineText || renderer.shortBylineText;
+
+  return {
+    id: renderer.videoId,
+    title: getText(renderer.title),
+    author: getText(byline),
+    authorId: getBrowseId(byline),
+    duration: parseDuration(getText(renderer.lengthText)),
+    url: `https://www.youtube.com/watch?v=${renderer.videoId}`,
+    platform: 'youtube',
+    description: '',
+    tags: [],
+    viewCount: parseViewCount(getText(renderer.viewCountText)),
+    publishTime: getText(renderer.publishedTimeText),
+    thumbnail: getThumbnail(renderer.thumbnail, renderer.videoId)
+  };
+}
+
+/**
+ * 解析 lockupViewModel，只接受视频类型
+ * 元数据第一行是频道名，第二行是"播放量 • 发布时间"
+ */
+export function parseLockupViewModel(model: LockupViewModel): VideoInfo | null {
+  if (!model.contentId || model.contentType !== 'LOCKUP_CONTENT_TYPE_VIDEO') {
+    return null;
+  }
+
+  const metadata = model.metadata?.lockupMetadataViewModel;
+  const title = metadata?.title?.content;
+  if (!title) {
+    return null;
+  }
+
+  const rows = metadata?.metadata?.contentMetadataViewModel?.metadataRows || [];
+  const rowParts = rows.map(row => (row.metadataParts || []).map(part => part.text?.content || ''));
+  const [author = ''] = rowParts[0] || [];
+  const [views = '', publishTime = ''] = rowParts[1] || [];
+
+  const thumbnailModel = model.contentImage?.thumbnailViewModel;
+  const badges = (thumbnailModel?.overlays || [])
+    .flatMap(overlay => overlay.thumbnailOverlayBadgeViewModel?.thumbnailBadges || [])
+    .map(badge => badge.thumbnailBadgeViewModel?.text || '');
+
+  return {
+    id: model.contentId,
+    title,
+    author,
+    authorId: metadata?.image?.decoratedAvatarViewModel?.rendererContext?.commandContext?.onTap?.innertubeCommand?.browseEndpoint?.browseId,
+    duration: badges.map(parseDuration).find(duration => duration > 0) || 0,
+    url: `https://www.youtube.com/watch?v=${model.contentId}`,
+    platform: 'youtube',
+    description: '',
+    tags: [],
+    viewCount: parseViewCount(views),
+    publishTime,
+    thumbnail: thumbnailModel?.image?.sources?.[0]?.url || `https://img.youtube.com/vi/${model.contentId}/mqdefault.jpg`
+  };
+}
+
+/**
+ * 解析 Shorts 渲染器（旧版）
+ */
+export function parseReelItemRenderer(renderer: ReelItemRenderer): VideoInfo | null {
+  if (!renderer.videoId || !renderer.headline) {
+    return null;
+  }
+
+  return {
+    id: renderer.videoId,
+    title: getText(renderer.headline),
+    author: '',
+    url: `https://www.youtube.com/shorts/${renderer.videoId}`,
+    platform: 'youtube',
+    description: '',
+    tags: [],
+    viewCount: parseViewCount(getText(renderer.viewCountText)),
+    publishTime: '',
+    thumbnail: getThumbnail(renderer.thumbnail, renderer.videoId)
+  };
+}
+
+/**
+ * 解析 Shorts 渲染器（新版）
+ */
+export function parseShortsLockupViewModel(model: ShortsLockupViewModel): VideoInfo | null {
+  const videoId = model.onTap?.innertubeCommand?.reelWatchEndpoint?.videoId;
+  const title = model.overlayMetadata?.primaryText?.content;
+  if (!videoId || !title) {
+    return null;
+  }
+
+  return {
+    id: videoId,
+    title,
+    author: '',
+    url: `https://www.youtube.com/shorts/${videoId}`,
+    platform: 'youtube',
+    description: '',
+    tags: [],
+    viewCount: parseViewCount(model.overlayMetadata?.secondaryText?.content || ''),
+    publishTime: '',
+    thumbnail: model.thumbnail?.sources?.[0]?.url || `https://img.youtube.com/vi/${videoId}/mqdefault.jpg`
+  };
+}
+
+/**
+ * 续页入口中的 token（首页和搜索在 continuationEndpoint 中，播放页在"显示更多"按钮中）
+ */
+export function parseContinuationItemRenderer(renderer: ContinuationItemRenderer): string | null {
+  return renderer.continuationEndpoint?.continuationCommand?.token
+    || renderer.button?.buttonRenderer?.command?.continuationCommand?.token
+    || null;
+}
+
+/**
+ * 解析时长，如 "12:34"、"1:02:03"
+ */
+export function parseDuration(durationText: string): number {
+  const parts = durationText.trim().split(':').map(part => parseInt(part, 10));
+  if (parts.length < 2 || parts.length > 3 || parts.some(part => isNaN(part))) {
+    return 0;
+  }
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * 解析播放量，支持 "1,234 views"、"1.2M views"、"12万次观看"、"3.4億 回視聴"
+ */
+export function parseViewCount(viewText: string): number {
+  const match = viewText.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*([KMB万萬亿億])?/i);
+  if (!match) {
+    return 0;
+  }
+
+  const multipliers: Record<string, number> = {
+    K: 1e3, M: 1e6, B: 1e9, '万': 1e4, '萬': 1e4, '亿': 1e8, '億': 1e8
+  };
+  const unit = match[2] ? multipliers[match[2].toUpperCase()] || multipliers[match[2]] : 1;
+  return Math.round(parseFloat(match[1]) * unit);
+}
+
+function getText(text?: InnerTubeText): string {
+  if (!text) {
+    return '';
+  }
+  return text.simpleText ?? (text.runs || []).map(run => run.text).join('');
+}
+
+function getBrowseId(text?: InnerTubeText): string | undefined {
+  return text?.runs?.[0]?.navigationEndpoint?.browseEndpoint?.browseId || undefined;
+}
+
+function getThumbnail(thumbnail: InnerTubeThumbnails | undefined, videoId: string): string {
+  return thumbnail?.thumbnails?.[0]?.url || `https://img.youtube.com/vi/${videoId}/mqdefault.jpg`;
+}
@@ -3,20 +3,23 @@ import { logger } from '../../core/logger.js';
 import { HttpsProxyAgent } from 'https-proxy-agent';
 import { SocksProxyAgent } from 'socks-proxy-agent';
 import fetch from 'node-fetch';
+import { InnerTubeClient } from './innertube-client.js';
 
 /**
  * YouTube API客户端
- * 通过网页API获取个性化推荐内容
+ * 通过 InnerTube 接口获取个性化推荐、相关视频和搜索结果
  */
 export class YouTubeAPI {
   private cookies: string;
   private userAgent: string;
   private proxyAgent: any;
+  private innertube: InnerTubeClient;
 
   constructor(cookies: string, timeout: number = 30000) {
     this.cookies = cookies;
     this.userAgent = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/138.0.0.0 Safari/537.36';
     this.proxyAgent = this.createProxyAgent();
+    this.innertube = new InnerTubeClient(cookies, this.userAgent, (url, init) => this.makeRequest(url, init));
     
     logger.info('YouTube API客户端初始化完成');
   }
@@ -28,8 +31,7 @@ export class YouTubeAPI {
     try {
       logger.info(`从YouTube获取个性化首页推荐 (数量: ${count})`);
       
-      const homePageData = await this.fetchHomePage();
-      const videos = this.extractVideosFromHomePage(homePageData, count);
+      const videos = await this.innertube.browse('FEwhat_to_watch', count);
       
       logger.info(`获取到 ${videos.length} 个YouTube个性化推荐视频`);
       return videos;
@@ -70,8 +72,7 @@ export class YouTubeAPI {
     try {
       logger.info(`获取相关视频推荐: ${videoId} (数量: ${count})`);
       
-      const watchPageData = await this.fetchWatchPage(videoId);
-      const videos = this.extractRelatedVideos(watchPageData, count);
+      const videos = await this.innertube.next(videoId, count);
       
       logger.info(`获取到 ${videos.length} 个相关视频`);
       return videos;
@@ -108,8 +109,7 @@ export class YouTubeAPI {
     try {
       logger.info(`搜索YouTube视频: "${query}" (数量: ${count})`);
       
-      const searchData = await this.fetchSearchResults(query);
-      const videos = this.extractSearchResults(searchData, count);
+      const videos = await this.innertube.search(query, count);
       
       logger.info(`搜索到 ${videos.length} 个YouTube视频`);
       return videos;
@@ -167,269 +167,14 @@ export class YouTubeAPI {
     }
   }
 
-  /**
-   * 获取首页数据
-   */
-  private async fetchHomePage(): Promise<string> {
-    const response = await this.makeRequest('https://www.youtube.com/');
-    return response.text();
-  }
-
-  /**
-   * 获取观看页面数据
-   */
-  private async fetchWatchPage(videoId: string): Promise<string> {
-    const response = await this.makeRequest(`https://www.youtube.com/watch?v=${videoId}`);
-    return response.text();
-  }
-
-  /**
-   * 获取搜索结果数据
-   */
-  private async fetchSearchResults(query: string): Promise<string> {
-    const encodedQuery = encodeURIComponent(query);
-    const response = await this.makeRequest(`https://www.youtube.com/results?search_query=${encodedQuery}`);
-    return response.text();
-  }
-
-  /**
-   * 从首页提取视频信息
-   */
-  private extractVideosFromHomePage(html: string, count: number): VideoInfo[] {
-    const videos: VideoInfo[] = [];
-    
-    try {
-      // 查找ytInitialData
-      const ytDataMatch = html.match(/var ytInitialData = ({.*?});/);
-      if (!ytDataMatch) {
-        logger.warn('无法找到ytInitialData');
-        return [];
-      }
-      
-      const ytData = JSON.parse(ytDataMatch[1]);
-      
-      // 导航到推荐视频section
-      const contents = ytData?.contents?.twoColumnBrowseResultsRenderer?.tabs?.[0]?.tabRenderer?.content?.richGridRenderer?.contents;
-      
-      if (!contents) {
-        logger.warn('无法找到推荐视频内容');
-        return [];
-      }
-      
-      for (const item of contents) {
-        if (videos.length >= count) break;
-        
-        const videoRenderer = item?.richItemRenderer?.content?.videoRenderer;
-        if (!videoRenderer) continue;
-        
-        const video = this.parseVideoRenderer(videoRenderer);
-        if (video) {
-          videos.push(video);
-        }
-      }
-      
-    } catch (error) {
-      logger.error('解析首页视频数据失败:', error);
-    }
-    
-    return videos;
-  }
-
-  /**
-   * 从观看页面提取相关视频
-   */
-  private extractRelatedVideos(html: string, count: number): VideoInfo[] {
-    const videos: VideoInfo[] = [];
-    
-    try {
-      // 类似的解析逻辑，但针对相关视频区域
-      const ytDataMatch = html.match(/var ytInitialData = ({.*?});/);
-      if (!ytDataMatch) {
-        return [];
-      }
-      
-      const ytData = JSON.parse(ytDataMatch[1]);
-      
-      // 查找相关视频区域
-      const secondaryResults = ytData?.contents?.twoColumnWatchNextResultsRenderer?.secondaryResults?.secondaryResultsRenderer?.results;
-      
-      if (!secondaryResults) {
-        return [];
-      }
-      
-      for (const item of secondaryResults) {
-        if (videos.length >= count) break;
-        
-        const videoRenderer = item?.compactVideoRenderer;
-        if (!videoRenderer) continue;
-        
-        const video = this.parseCompactVideoRenderer(videoRenderer);
-        if (video) {
-          videos.push(video);
-        }
-      }
-      
-    } catch (error) {
-      logger.error('解析相关视频数据失败:', error);
-    }
-    
-    return videos;
-  }
-
-  /**
-   * 从搜索结果提取视频
-   */
-  private extractSearchResults(html: string, count: number): VideoInfo[] {
-    const videos: VideoInfo[] = [];
-    
-    try {
-      const ytDataMatch = html.match(/var ytInitialData = ({.*?});/);
-      if (!ytDataMatch) {
-        return [];
-      }
-      
-      const ytData = JSON.parse(ytDataMatch[1]);
-      
-      const contents = ytData?.contents?.twoColumnSearchResultsRenderer?.primaryContents?.sectionListRenderer?.contents?.[0]?.itemSectionRenderer?.contents;
-      
-      if (!contents) {
-        return [];
-      }
-      
-      for (const item of contents) {
-        if (videos.length >= count) break;
-        
-        const videoRenderer = item?.videoRenderer;
-        if (!videoRenderer) continue;
-        
-        const video = this.parseVideoRenderer(videoRenderer);
-        if (video) {
-          videos.push(video);
-        }
-      }
-      
-    } catch (error) {
-      logger.error('解析搜索结果失败:', error);
-    }
-    
-    return videos;
-  }
-
-  /**
-   * 解析标准视频渲染器
-   */
-  private parseVideoRenderer(renderer: any): VideoInfo | null {
-    try {
-      if (!renderer.videoId || !renderer.title) {
-        return null;
-      }
-
-      const title = renderer.title.runs?.[0]?.text || renderer.title.simpleText || '';
-      const author = renderer.ownerText?.runs?.[0]?.text || renderer.longBylineText?.runs?.[0]?.text || '';
-      const duration = this.parseDuration(renderer.lengthText?.simpleText || '');
-      const viewCount = this.parseViewCount(renderer.viewCountText?.simpleText || '');
-      const publishTime = renderer.publishedTimeText?.simpleText || '';
-
-      return {
-        id: renderer.videoId,
-        title,
-        author,
-        duration,
-        url: `https://www.youtube.com/watch?v=${renderer.videoId}`,
-        platform: 'youtube',
-        description: renderer.descriptionSnippet?.runs?.map((r: any) => r.text).join('') || '',
-        tags: [],
-        viewCount,
-        publishTime,
-        thumbnail: renderer.thumbnail?.thumbnails?.[0]?.url || `https://img.youtube.com/vi/${renderer.videoId}/mqdefault.jpg`
-      };
-    } catch (error) {
-      logger.error('解析视频渲染器失败:', error);
-      return null;
-    }
-  }
-
-  /**
-   * 解析紧凑视频渲染器
-   */
-  private parseCompactVideoRenderer(renderer: any): VideoInfo | null {
-    try {
-      if (!renderer.videoId || !renderer.title) {
-        return null;
-      }
-
-      const title = renderer.title.simpleText || renderer.title.runs?.[0]?.text || '';
-      const author = renderer.longBylineText?.runs?.[0]?.text || '';
-      const duration = this.parseDuration(renderer.lengthText?.simpleText || '');
-      const viewCount = this.parseViewCount(renderer.viewCountText?.simpleText || '');
-
-      return {
-        id: renderer.videoId,
-        title,
-        author,
-        duration,
-        url: `https://www.youtube.com/watch?v=${renderer.videoId}`,
-        platform: 'youtube',
-        description: '',
-        tags: [],
-        viewCount,
-        publishTime: '',
-        thumbnail: renderer.thumbnail?.thumbnails?.[0]?.url || `https://img.youtube.com/vi/${renderer.videoId}/mqdefault.jpg`
-      };
-    } catch (error) {
-      logger.error('解析紧凑视频渲染器失败:', error);
-      return null;
-    }
-  }
-
-  /**
-   * 解析时长
-   */
-  private parseDuration(durationText: string): number {
-    try {
-      if (!durationText) return 0;
-      
-      const parts = durationText.split(':');
-      if (parts.length === 2) {
-        return parseInt(parts[0]) * 60 + parseInt(parts[1]);
-      } else if (parts.length === 3) {
-        return parseInt(parts[0]) * 3600 + parseInt(parts[1]) * 60 + parseInt(parts[2]);
-      }
-      
-      return 0;
-    } catch (error) {
-      return 0;
-    }
-  }
-
-  /**
-   * 解析观看次数
-   */
-  private parseViewCount(viewText: string): number {
-    try {
-      if (!viewText) return 0;
-      
-      const match = viewText.match(/([\d,]+)/);
-      if (match) {
-        return parseInt(match[1].replace(/,/g, ''));
-      }
-      return 0;
-    } catch (error) {
-      return 0;
-    }
-  }
-
   /**
    * 获取最近观看的视频ID
    */
   private async getRecentWatchedVideo(): Promise<string | null> {
     try {
-      const response = await this.makeRequest('https://www.youtube.com/feed/history');
-      const html = await response.text();
-      
-      // 从观看历史中提取最新的视频ID
-      const videoMatch = html.match(/watch\?v=([a-zA-Z0-9_-]{11})/);
-      return videoMatch ? videoMatch[1] : null;
+      // 观看历史第一页的第一个视频就是最近观看的
+      const [recentVideo] = await this.innertube.browse('FEhistory', 1, 1);
+      return recentVideo ? recentVideo.id : null;
       
     } catch (error) {
       logger.error('获取观看历史失败:', error);
@@ -517,6 +262,7 @@ export class YouTubeAPI {
    */
   updateCookie(newCookie: string): void {
     this.cookies = newCookie;
+    this.innertube.updateCookie(newCookie);
     logger.info('YouTube API Cookie已更新');
   }
 }
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { chromium, Browser, Page } from 'playwright';
-import { PlatformInterface, VideoInfo, PlatformConfig } from '../../types/index.js';
+import { PlatformInterface, VideoInfo, PlatformConfig, NotInterestedResult } from '../../types/index.js';
 import { YouTubeAPI } from './youtube-api.js';
 import { YouTubePlaybackSimulator } from './youtube-simulator.js';
 import { logger } from '../../core/logger.js';
@@ -18,13 +18,16 @@ export class YouTubePlatform implements PlatformInterface {
   private videosPerPage: number;
   private useSimulatedPlayback: boolean;
   private currentVideoSource: 'home' | 'related' | 'short' = 'home';
+  private fallbackSource: 'home' | 'related' | 'short' | null = null; // 本轮回退到的视频源，不改变 currentVideoSource
+  private relatedSeedId: string | null = null;
 
   constructor(
     config: PlatformConfig,
     headless: boolean = true,
     videosPerPage: number = 20,
     apiTimeout: number = 30000,
-    useSimulatedPlayback: boolean = false
+    useSimulatedPlayback: boolean = false,
+    simulatedConfig?: { watchDuration?: number; minWaitTime?: number; playbackSpeed?: number; durationVariation?: number }
   ) {
     this.config = config;
     this.headless = headless;
@@ -32,10 +35,14 @@ export class YouTubePlatform implements PlatformInterface {
     this.useSimulatedPlayback = useSimulatedPlayback;
     
     this.api = new YouTubeAPI(config.cookies, apiTimeout);
+
+    // 将模拟播放配置添加到config中以便访问
+    this.config.simulatedWatchDuration = simulatedConfig?.watchDuration || 30;
+    this.config.simulatedActualWaitTime = simulatedConfig?.minWaitTime || 5;
     
     // 如果启用模拟播放，初始化模拟器
     if (this.useSimulatedPlayback) {
-      this.simulator = new YouTubePlaybackSimulator(config.cookies);
+      this.simulator = new YouTubePlaybackSimulator(config.cookies, simulatedConfig?.playbackSpeed || 2, simulatedConfig?.durationVariation || 5);
       logger.info('YouTube平台初始化完成 (模拟播放模式)');
     } else {
       logger.info('YouTube平台初始化完成 (真实播放模式)');
@@ -152,15 +159,24 @@ export class YouTubePlatform implements PlatformInterface {
 
   async getRecommendedVideos(): Promise<VideoInfo[]> {
     logger.info(`从YouTube获取推荐视频 (来源: ${this.currentVideoSource})`);
+    this.fallbackSource = null;
     
     try {
       switch (this.currentVideoSource) {
         case 'home':
           return await this.api.getHomeFeedRecommendations(this.videosPerPage);
-        case 'related':
+        case 'related': {
           // 需要一个基础视频ID来获取相关视频
-          logger.warn('相关视频模式需要基础视频ID，暂时返回首页推荐');
+          const videos = this.relatedSeedId
+            ? await this.api.getRelatedVideos(this.relatedSeedId, this.videosPerPage)
+            : [];
+          if (videos.length > 0) {
+            return videos;
+          }
+          logger.warn('没有可用的相关视频，本轮回退到首页推荐');
+          this.fallbackSource = 'home';
           return await this.api.getHomeFeedRecommendations(this.videosPerPage);
+        }
         case 'short':
           return await this.api.getShortVideoFeed(this.videosPerPage);
         default:
@@ -191,15 +207,19 @@ export class YouTubePlatform implements PlatformInterface {
   }
 
   async playVideo(video: VideoInfo): Promise<void> {
-    const playDuration = 30; // 默认播放30秒
-    
     if (this.useSimulatedPlayback && this.simulator) {
-      // 使用模拟播放 - 快速模拟
-      await this.simulator.simulatePlayback(video, playDuration);
+      // 使用模拟播放 - 按配置的模拟时长和实际等待时间
+      await this.simulator.simulatePlayback(
+        video,
+        this.config.simulatedWatchDuration || 30,
+        this.config.simulatedActualWaitTime || 5,
+        this.currentVideoSource
+      );
       return;
     }
 
     // 真实播放模式
+    const playDuration = 30; // 默认播放30秒
     await this.realPlayVideo(video, playDuration);
   }
 
@@ -272,6 +292,157 @@ export class YouTubePlatform implements PlatformInterface {
     return this.currentVideoSource;
   }
 
+  /**
+   * 最近一次获取推荐时回退到的视频源（没有回退时为 null）
+   */
+  getFallbackSource(): 'home' | 'related' | 'short' | null {
+    return this.fallbackSource;
+  }
+
+  /**
+   * 获取指定视频的相关视频
+   */
+  async getRelatedVideos(videoId: string): Promise<VideoInfo[]> {
+    return this.api.getRelatedVideos(videoId, this.videosPerPage);
+  }
+
+  /**
+   * 在浏览器的首页推荐中对视频点击"不感兴趣"
+   * 视频需要出现在浏览器首页的推荐中，否则返回 not_found；模拟播放模式下也会为此启动浏览器
+   */
+  async markNotInterested(video: VideoInfo): Promise<NotInterestedResult> {
+    await this.initializeBrowser();
+    if (!this.page) {
+      return 'failed';
+    }
+
+    try {
+      // 已在首页时直接使用当前推荐，避免刷新后视频消失
+      if (!/^https:\/\/www\.youtube\.com\/?(\?.*)?$/.test(this.page.url())) {
+        await this.page.goto('https://www.youtube.com/', { waitUntil: 'domcontentloaded', timeout: 30000 });
+        await this.page.waitForSelector('ytd-rich-item-renderer', { timeout: 15000 });
+      }
+
+      const item = this.page.locator('ytd-rich-item-renderer', {
+        has: this.page.locator(`a[href*="v=${video.id}"]`)
+      }).first();
+      if (await item.count() === 0) {
+        logger.debug(`浏览器首页推荐中未找到视频: ${video.title}`);
+        return 'not_found';
+      }
+
+      // 悬停后才会出现操作菜单按钮
+      await item.scrollIntoViewIfNeeded();
+      await item.hover();
+      await item.locator('button[aria-label="Action menu"], button[aria-label="操作菜单"], ytd-menu-renderer button').first().click({ timeout: 5000 });
+
+      const option = this.page
+        .locator('ytd-menu-service-item-renderer, yt-list-item-view-model')
+        .filter({ hasText: /Not interested|不感兴趣|不感興趣/ })
+        .first();
+      await option.click({ timeout: 5000 });
+      await this.page.waitForTimeout(1000);
+
+      return 'success';
+    } catch (error) {
+      logger.debug(`点击"不感兴趣"失败: ${video.title}`, error);
+      return 'failed';
+    }
+  }
+
+  /**
+   * 在浏览器的播放页中点赞视频；模拟播放模式下也会为此启动浏览器
+   */
+  async likeVideo(video: VideoInfo): Promise<boolean> {
+    try {
+      const page = await this.openWatchPage(video);
+      const button = page.locator('like-button-view-model button, #segmented-like-button button').first();
+      if (await button.getAttribute('aria-pressed') !== 'true') {
+        await button.click({ timeout: 5000 });
+        await page.waitForTimeout(1000);
+      }
+      return await button.getAttribute('aria-pressed') === 'true';
+    } catch (error) {
+      logger.debug(`点赞失败: ${video.title}`, error);
+      return false;
+    }
+  }
+
+  /**
+   * 通过"保存"菜单把视频加入指定名称的播放列表
+   */
+  async favoriteVideo(video: VideoInfo, folder: string): Promise<boolean> {
+    try {
+      const page = await this.openWatchPage(video);
+      const save = page.locator('button[aria-label="Save to playlist"], button[aria-label="保存到播放列表"]').first();
+      if (await save.count() > 0) {
+        await save.click({ timeout: 5000 });
+      } else {
+        // 按钮被折叠时从"更多操作"菜单中打开
+        await page.locator('#actions button[aria-label="More actions"], #actions button[aria-label="其他操作"]').first().click({ timeout: 5000 });
+        await page.locator('ytd-menu-service-item-renderer, yt-list-item-view-model').filter({ hasText: /^\s*(Save|保存)\s*$/ }).first().click({ timeout: 5000 });
+      }
+
+      const option = page
+        .locator('ytd-playlist-add-to-option-renderer, yt-list-item-view-model')
+        .filter({ hasText: folder })
+        .first();
+      await option.waitFor({ timeout: 5000 });
+      const checkbox = option.locator('tp-yt-paper-checkbox, [role="checkbox"]').first();
+      if (await checkbox.getAttribute('aria-checked') !== 'true') {
+        await option.click({ timeout: 5000 });
+        await page.waitForTimeout(1000);
+      }
+      await page.keyboard.press('Escape');
+      return true;
+    } catch (error) {
+      logger.debug(`保存到播放列表 "${folder}" 失败: ${video.title}`, error);
+      return false;
+    }
+  }
+
+  /**
+   * 在播放页订阅视频的频道
+   */
+  async followAuthor(video: VideoInfo): Promise<boolean> {
+    try {
+      const page = await this.openWatchPage(video);
+      const button = page.locator('#owner #subscribe-button button').first();
+      if (/Subscribed|已订阅/.test(await button.textContent() || '')) {
+        return true;
+      }
+      await button.click({ timeout: 5000 });
+      await page.waitForTimeout(1000);
+      return /Subscribed|已订阅/.test(await button.textContent() || '');
+    } catch (error) {
+      logger.debug(`订阅频道失败: ${video.title}`, error);
+      return false;
+    }
+  }
+
+  /**
+   * 获取停留在该视频播放页的浏览器页面，不在时先打开
+   */
+  private async openWatchPage(video: VideoInfo): Promise<Page> {
+    await this.initializeBrowser();
+    if (!this.page) {
+      throw new Error('浏览器页面未初始化');
+    }
+
+    if (!this.page.url().includes(`v=${video.id}`)) {
+      await this.page.goto(video.url, { waitUntil: 'domcontentloaded', timeout: 30000 });
+    }
+    await this.page.waitForSelector('#owner, #top-level-buttons-computed', { timeout: 15000 });
+    return this.page;
+  }
+
+  /**
+   * 设置 related 视频源的种子视频
+   */
+  setRelatedSeed(videoId: string): void {
+    this.relatedSeedId = videoId;
+  }
+
   /**
    * 解析Cookie字符串为Cookie对象数组
    */
@@ -1,21 +1,29 @@
-import { VideoInfo } from '../../types/index.js';
+import { VideoInfo, PlaybackSimulator } from '../../types/index.js';
 import { logger } from '../../core/logger.js';
 import { YouTubeAPI } from './youtube-api.js';
+import { extractYtConfig } from './innertube-client.js';
 
 /**
  * YouTube播放模拟器
  * 不真实播放视频，但模拟所有播放相关的API调用
  * 让YouTube认为我们真实观看了视频
  */
-export class YouTubePlaybackSimulator {
+export class YouTubePlaybackSimulator implements PlaybackSimulator {
   private api: YouTubeAPI;
   private cookies: string;
   private userAgent: string;
+  private playbackSpeed: number;
+  private durationVariation: number;
+  private lastVideoId: string | null = null; // 上一个模拟播放的视频，作为相关推荐的来源页面
 
-  constructor(cookies: string) {
+  constructor(cookies: string, playbackSpeed: number = 2, durationVariation: number = 5) {
     this.cookies = cookies;
     this.userAgent = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36';
     this.api = new YouTubeAPI(cookies);
+    this.playbackSpeed = Math.max(1, Math.min(playbackSpeed, 5)); // 限制在1-5倍速之间
+    this.durationVariation = Math.max(0, Math.min(durationVariation, 50)); // 限制在0-50%之间
+
+    logger.debug(`🎭 YouTube模拟播放器初始化: ${this.playbackSpeed}x速度, 时长浮动±${this.durationVariation}%`);
   }
 
   /**
@@ -24,37 +32,73 @@ export class YouTubePlaybackSimulator {
    * @param video 视频信息
    * @param simulatedDuration 模拟观看的时长(秒) - 告诉YouTube我们看了多久
    * @param actualWaitTime 实际等待时间(秒) - 实际花费的时间(可以比simulatedDuration短)
+   * @param source 视频来源 - home(首页推荐) | search(搜索) | related(相关推荐) | short(短视频)
+   * @returns 实际模拟的观看时长(秒)
    */
-  async simulatePlayback(video: VideoInfo, simulatedDuration: number = 30, actualWaitTime?: number): Promise<void> {
-    // 如果没有指定实际等待时间，默认为模拟时长的1/10 (快速模式)
-    const waitTime = actualWaitTime || Math.max(1, Math.floor(simulatedDuration / 10));
+  async simulatePlayback(video: VideoInfo, simulatedDuration: number = 30, actualWaitTime?: number, source: 'home' | 'search' | 'related' | 'short' = 'home'): Promise<number> {
+    // 根据速度配置计算实际等待时间：模拟时长 ÷ 速度倍率
+    const waitTime = actualWaitTime || Math.max(3, Math.ceil(simulatedDuration / this.playbackSpeed)); // 最少等待3秒
     
     try {
-      logger.info(`🎭 开始模拟播放: ${video.title} (模拟${simulatedDuration}秒，实际${waitTime}秒)`);
+      logger.info(`🎭 开始YouTube模拟播放: ${video.title} (模拟${simulatedDuration}秒，实际${waitTime}秒，来源:${source})`);
 
       // 1. 访问视频页面（获取初始数据）
-      await this.visitVideoPage(video.id);
+      const { ytcfg } = await this.visitVideoPage(video.id, source);
       
       // 2. 初始化播放器会话
-      const playerData = await this.initializePlayer(video.id);
-      
-      // 3. 模拟播放过程 (告诉YouTube我们看了simulatedDuration秒，但实际只等待waitTime秒)
-      await this.simulatePlaybackProgress(video.id, simulatedDuration, waitTime, playerData);
+      const playerData = await this.initializePlayer(video.id, ytcfg.INNERTUBE_CONTEXT);
+
+      // 3. 随机浮动并限制在视频时长内，预留1-3秒缓冲
+      const halfVariation = this.durationVariation / 100 / 2;
+      const randomVariation = (1 - halfVariation) + Math.random() * (halfVariation * 2);
+      const randomizedDuration = simulatedDuration * randomVariation;
+      const videoDuration = parseInt(playerData?.videoDetails?.lengthSeconds) || video.duration || 3600;
+      const maxSafeSimulatedDuration = Math.max(5, videoDuration - (1 + Math.random() * 2));
+      const safeSimulatedDuration = Math.min(randomizedDuration, maxSafeSimulatedDuration);
+
+      if (Math.abs(safeSimulatedDuration - simulatedDuration) > 0.1) {
+        const adjustmentReason = safeSimulatedDuration < randomizedDuration ? `(受视频时长${videoDuration}秒限制)` : '';
+        logger.debug(`🎲 播放时长调整: 原始${simulatedDuration}秒 → 随机浮动${randomizedDuration.toFixed(1)}秒 → 最终${safeSimulatedDuration.toFixed(1)}秒${adjustmentReason}`);
+      }
       
-      // 4. 上报观看统计 (报告我们看了simulatedDuration秒)
-      await this.reportWatchTime(video.id, simulatedDuration);
+      // 4. 模拟播放过程 (告诉YouTube我们看了safeSimulatedDuration秒，但实际只等待waitTime秒)
+      await this.simulatePlaybackProgress(video.id, safeSimulatedDuration, waitTime, playerData);
       
-      logger.info(`✅ 模拟播放完成: ${video.title} (${waitTime}秒内模拟了${simulatedDuration}秒观看)`);
+      // 5. 上报观看统计
+      await this.reportWatchTime(video.id, safeSimulatedDuration);
+
+      this.lastVideoId = video.id;
+      logger.info(`✅ YouTube模拟播放完成: ${video.title} (${waitTime}秒内模拟了${safeSimulatedDuration.toFixed(1)}秒观看)`);
+
+      return safeSimulatedDuration;
       
     } catch (error) {
-      logger.error(`❌ 模拟播放失败: ${video.title}`, error);
+      logger.error(`❌ YouTube模拟播放失败: ${video.title}`, error);
+      return 0;
     }
   }
 
   /**
-   * 1. 访问视频页面，获取必要的token和参数
+   * 1. 访问视频页面，根据来源设置正确的Referer，获取必要的token和参数
    */
-  private async visitVideoPage(videoId: string): Promise<any> {
+  private async visitVideoPage(videoId: string, source: 'home' | 'search' | 'related' | 'short' = 'home'): Promise<any> {
+    // 随机延迟访问 (0.5-2秒) 模拟真实用户行为
+    await this.sleep(500 + Math.random() * 1500);
+
+    let referer = 'https://www.youtube.com/';
+    switch (source) {
+      case 'search':
+        referer = 'https://www.youtube.com/results'; // 搜索结果页
+        break;
+      case 'related':
+        // 相关推荐从上一个视频的播放页点进来
+        referer = this.lastVideoId ? `https://www.youtube.com/watch?v=${this.lastVideoId}` : 'https://www.youtube.com/';
+        break;
+      case 'short':
+        referer = 'https://www.youtube.com/feed/history'; // 基于观看历史的推荐
+        break;
+    }
+
     const response = await fetch(`https://www.youtube.com/watch?v=${videoId}`, {
       method: 'GET',
       headers: {
@@ -62,7 +106,7 @@ export class YouTubePlaybackSimulator {
         'User-Agent': this.userAgent,
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
         'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8',
-        'Referer': 'https://www.youtube.com/',
+        'Referer': referer,
       }
     });
 
@@ -70,20 +114,20 @@ export class YouTubePlaybackSimulator {
     
     // 提取必要的参数
     const ytInitialData = this.extractYtInitialData(html);
-    const ytcfg = this.extractYtConfig(html);
+    const ytcfg = extractYtConfig(html);
     
-    logger.debug(`📄 访问视频页面成功: ${videoId}`);
+    logger.debug(`📄 访问视频页面成功: ${videoId} (来源: ${source})`);
     return { ytInitialData, ytcfg };
   }
 
   /**
-   * 2. 初始化播放器会话
+   * 2. 初始化播放器会话，优先使用视频页面 ytcfg 中的 INNERTUBE_CONTEXT
    */
-  private async initializePlayer(videoId: string): Promise<any> {
+  private async initializePlayer(videoId: string, innertubeContext?: any): Promise<any> {
     const playerEndpoint = 'https://www.youtube.com/youtubei/v1/player';
     
     const payload = {
-      context: {
+      context: innertubeContext || {
         client: {
           clientName: 'WEB',
           clientVersion: '2.20231201.01.00',
@@ -128,7 +172,7 @@ export class YouTubePlaybackSimulator {
   private async simulatePlaybackProgress(videoId: string, simulatedDuration: number, actualWaitTime: number, playerData: any): Promise<void> {
     const baseHeartbeatInterval = 5; // 基础心跳间隔5秒
     const totalSteps = Math.floor(simulatedDuration / baseHeartbeatInterval);
-    const stepWaitTime = actualWaitTime / totalSteps; // 每步实际等待时间
+    const stepWaitTime = actualWaitTime / Math.max(1, totalSteps); // 每步实际等待时间
     
     logger.debug(`📊 播放进度模拟: ${totalSteps}步，每步等待${stepWaitTime.toFixed(1)}秒`);
     
@@ -244,11 +288,6 @@ export class YouTubePlaybackSimulator {
     return match ? JSON.parse(match[1]) : {};
   }
 
-  private extractYtConfig(html: string): any {
-    const match = html.match(/ytcfg\.set\(({.*?})\)/);
-    return match ? JSON.parse(match[1]) : {};
-  }
-
   private generateCpn(): string {
     // 生成16位随机字符串，YouTube用于追踪播放会话
     const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
@@ -1,6 +1,8 @@
-import { PlatformInterface, VideoInfo, AppConfig } from '../types/index.js';
+import { PlatformInterface, VideoInfo, AppConfig, MatchResult, RelatedChainLink } from '../types/index.js';
 import { PlatformFactory } from '../platforms/platform-factory.js';
 import { HistoryService } from './history-service.js';
+import { MatchService } from './match-service.js';
+import { EngagementManager } from '../core/engagement-manager.js';
 import { logger } from '../core/logger.js';
 
 /**
@@ -9,8 +11,9 @@ import { logger } from '../core/logger.js';
 interface PlayTask {
   id: string;
   video: VideoInfo;
-  matchedKeywords: string[];
+  match: MatchResult;
   source: 'home' | 'related' | 'short' | 'search';
+  chain?: RelatedChainLink;
   status: 'pending' | 'playing' | 'completed' | 'failed';
   startTime?: number;
   duration?: number;
@@ -37,14 +40,18 @@ export class ConcurrentPlayer {
   private completedTasks: PlayTask[] = [];
   private config: AppConfig;
   private historyService: HistoryService;
+  private matchService: MatchService;
+  private engagementManager?: EngagementManager;
   private sessionId: string;
   private isRunning: boolean = false;
   private taskIdCounter: number = 0;
 
-  constructor(config: AppConfig, historyService: HistoryService, sessionId: string) {
+  constructor(config: AppConfig, historyService: HistoryService, matchService: MatchService, sessionId: string, engagementManager?: EngagementManager) {
     this.config = config;
     this.historyService = historyService;
+    this.matchService = matchService;
     this.sessionId = sessionId;
+    this.engagementManager = engagementManager;
   }
 
   /**
@@ -104,22 +111,28 @@ export class ConcurrentPlayer {
 
   /**
    * 添加视频到播放队列
+   * @param chain 沿相关视频链找到的视频所在的链位置
    */
-  addToQueue(videos: VideoInfo[], matchedKeywords: string[], source: 'home' | 'related' | 'short' | 'search'): void {
-    const newTasks = videos.map(video => {
-      // 获取该视频匹配的关键词
-      const videoKeywords = this.getVideoMatchedKeywords(video, matchedKeywords);
-      
-      const task: PlayTask = {
+  addToQueue(videos: VideoInfo[], source: 'home' | 'related' | 'short' | 'search', searchKeyword?: string, chain?: RelatedChainLink): void {
+    const newTasks: PlayTask[] = [];
+
+    for (const video of videos) {
+      // 获取该视频的匹配结果，被否决的视频不加入队列
+      const match = this.matchService.evaluate(video, searchKeyword);
+      if (match.vetoRule) {
+        logger.debug(`跳过被过滤的视频: ${video.title} (${match.vetoRule})`);
+        continue;
+      }
+
+      newTasks.push({
         id: `task-${++this.taskIdCounter}`,
         video,
-        matchedKeywords: videoKeywords,
+        match,
         source,
+        chain,
         status: 'pending'
-      };
-      
-      return task;
-    });
+      });
+    }
 
     this.taskQueue.push(...newTasks);
     logger.info(`📝 添加 ${newTasks.length} 个视频到播放队列，当前队列长度: ${this.taskQueue.length}`);
@@ -223,13 +236,19 @@ export class ConcurrentPlayer {
       this.historyService.recordWatch(
         task.video,
         actualDuration,
-        task.matchedKeywords,
+        task.match,
         task.source,
-        this.sessionId
+        this.sessionId,
+        undefined,
+        task.chain
       );
 
       logger.info(`✅ 播放器 #${player.id} 完成播放: ${task.video.title} (${(actualDuration / 1000).toFixed(1)}秒)`);
 
+      if (task.match.matched) {
+        await this.engagementManager?.engage(task.video, task.match, player.platform);
+      }
+
     } catch (error) {
       const actualDuration = Date.now() - startTime;
       task.duration = actualDuration;
@@ -242,9 +261,11 @@ export class ConcurrentPlayer {
         this.historyService.recordWatch(
           task.video,
           actualDuration,
-          task.matchedKeywords,
+          task.match,
           task.source,
-          this.sessionId
+          this.sessionId,
+          undefined,
+          task.chain
         );
       }
     } finally {
@@ -255,20 +276,28 @@ export class ConcurrentPlayer {
   }
 
   /**
-   * 获取视频匹配的关键词
+   * 等待播放队列处理完成
+   * @param timeoutMs 最长等待时间
+   * @param dropPending 是否丢弃尚未开始的任务，只等待正在播放的任务
+   * @returns 是否在超时前处理完成
    */
-  private getVideoMatchedKeywords(video: VideoInfo, allKeywords: string[]): string[] {
-    const matched: string[] = [];
-    const searchText = `${video.title} ${video.author}`.toLowerCase();
-    
-    for (const keyword of allKeywords) {
-      const keywordLower = this.config.matcher.caseSensitive ? keyword : keyword.toLowerCase();
-      if (searchText.includes(keywordLower)) {
-        matched.push(keyword);
-      }
+  async drain(timeoutMs: number, dropPending: boolean = false): Promise<boolean> {
+    if (dropPending) {
+      this.clearQueue();
     }
-    
-    return matched;
+
+    const isBusy = () => this.taskQueue.some(t => t.status === 'pending') || this.players.some(p => p.isActive);
+    const deadline = Date.now() + timeoutMs;
+    while (this.isRunning && isBusy() && Date.now() < deadline) {
+      await this.delay(1000);
+    }
+
+    const drained = !isBusy();
+    if (!drained) {
+      const status = this.getStatus();
+      logger.warn(`⚠️ 等待并发播放超时，仍有 ${status.activePlayers} 个播放器工作中, 待播放: ${status.pendingCount} 个视频`);
+    }
+    return drained;
   }
 
   /**
@@ -0,0 +1,272 @@
+import { existsSync, mkdirSync, appendFileSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { VideoInfo, MatchResult, FeedFreshness } from '../types/index.js';
+import { logger } from '../core/logger.js';
+
+/**
+ * 推荐快照中单个视频的匹配结果
+ */
+export type FeedSnapshotMatch = Pick<MatchResult, 'matched' | 'keywords' | 'score' | 'vetoRule' | 'campaign'>;
+
+/**
+ * 推荐快照中的视频
+ */
+export interface FeedSnapshotVideo {
+  video: VideoInfo;
+  match: FeedSnapshotMatch;
+}
+
+/**
+ * 一次获取推荐视频的结果
+ */
+export interface FeedSnapshot {
+  timestamp: string;
+  platform: string;
+  sessionId?: string;
+  source: string;                    // 获取时平台使用的视频源
+  videos: FeedSnapshotVideo[];
+  freshness?: FeedFreshness;         // 首页推荐中新视频和重复视频的数量（平台支持时）
+}
+
+/**
+ * 一个统计周期内推荐的对齐情况
+ */
+export interface AlignmentPoint {
+  period: string;                    // 周期起始日期 YYYY-MM-DD（按周统计时为周一）
+  snapshots: number;                 // 快照数
+  videos: number;                    // 推荐视频总数
+  matched: number;                   // 其中的目标视频数
+  share: number;                     // 对齐度：matched / videos
+}
+
+export type AlignmentGranularity = 'day' | 'week';
+
+/**
+ * 推荐快照服务
+ * 记录每次获取到的推荐视频及其匹配结果，并按天/周统计目标视频在推荐中的占比（对齐度），
+ * 用于判断喂养是否在改变推荐
+ */
+export class FeedSnapshotService {
+  private readonly historyDir = 'history';
+  private readonly snapshotFile = 'feed-snapshots.jsonl';
+  private readonly platform: string;
+
+  constructor(platform: string = 'bilibili') {
+    this.platform = platform;
+  }
+
+  /**
+   * 记录一次推荐结果，追加到 history/feed-snapshots.jsonl
+   */
+  record(source: string, videos: VideoInfo[], evaluate: (video: VideoInfo) => MatchResult, sessionId?: string, freshness?: FeedFreshness | null): FeedSnapshot | null {
+    try {
+      if (!existsSync(this.historyDir)) {
+        mkdirSync(this.historyDir, { recursive: true });
+      }
+
+      const snapshot: FeedSnapshot = {
+        timestamp: new Date().toISOString(),
+        platform: this.platform,
+        sessionId,
+        source,
+        videos: videos.map(video => {
+          const { matched, keywords, score, vetoRule, campaign } = evaluate(video);
+          return { video, match: { matched, keywords, score, vetoRule, campaign } };
+        }),
+        ...(freshness ? { freshness } : {})
+      };
+      appendFileSync(join(this.historyDir, this.snapshotFile), JSON.stringify(snapshot) + '\n', 'utf-8');
+
+      const matched = snapshot.videos.filter(item => item.match.matched).length;
+      logger.debug(`📸 已记录推荐快照: ${source}, ${matched}/${videos.length} 个目标视频`);
+      return snapshot;
+    } catch (error) {
+      logger.error('记录推荐快照失败:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 获取当前平台最近若干天的快照（按时间从早到晚）
+   * @param days 天数，0 表示全部
+   */
+  getSnapshots(days: number = 0): FeedSnapshot[] {
+    try {
+      const snapshotPath = join(this.historyDir, this.snapshotFile);
+      if (!existsSync(snapshotPath)) {
+        return [];
+      }
+
+      const cutoff = days > 0 ? Date.now() - days * 24 * 60 * 60 * 1000 : 0;
+      const lines = readFileSync(snapshotPath, 'utf-8').trim().split('\n').filter(line => line.trim());
+      const snapshots: FeedSnapshot[] = [];
+      for (const line of lines) {
+        try {
+          const snapshot: FeedSnapshot = JSON.parse(line);
+          if (snapshot.platform === this.platform && new Date(snapshot.timestamp).getTime() >= cutoff) {
+            snapshots.push(snapshot);
+          }
+        } catch (parseError) {
+          continue;
+        }
+      }
+      return snapshots;
+    } catch (error) {
+      logger.error('读取推荐快照失败:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 清理旧的推荐快照（保留最近N天，所有平台一起清理）
+   */
+  cleanup(daysToKeep: number = 30): void {
+    try {
+      const snapshotPath = join(this.historyDir, this.snapshotFile);
+      if (!existsSync(snapshotPath)) {
+        return;
+      }
+
+      const cutoff = Date.now() - daysToKeep * 24 * 60 * 60 * 1000;
+      const lines = readFileSync(snapshotPath, 'utf-8').trim().split('\n').filter(line => line.trim());
+      const validLines: string[] = [];
+      let cleanedCount = 0;
+
+      for (const line of lines) {
+        try {
+          const snapshot: FeedSnapshot = JSON.parse(line);
+          if (new Date(snapshot.timestamp).getTime() >= cutoff) {
+            validLines.push(line);
+          } else {
+            cleanedCount++;
+          }
+        } catch (parseError) {
+          // 保留无法解析的行（避免数据丢失）
+          validLines.push(line);
+        }
+      }
+
+      if (cleanedCount > 0) {
+        writeFileSync(snapshotPath, validLines.length > 0 ? validLines.join('\n') + '\n' : '', 'utf-8');
+        logger.info(`🧹 清理了 ${cleanedCount} 条过期推荐快照（保留${daysToKeep}天）`);
+      }
+    } catch (error) {
+      logger.error('清理推荐快照失败:', error);
+    }
+  }
+
+  /**
+   * 按天或按周统计推荐中目标视频的占比
+   * @param granularity 统计周期
+   * @param periods 最近多少个周期，没有快照的周期也会列出
+   */
+  getAlignment(granularity: AlignmentGranularity = 'day', periods: number = 14): AlignmentPoint[] {
+    const step = granularity === 'week' ? 7 : 1;
+    const points = new Map<string, AlignmentPoint>();
+
+    const start = addDays(periodStart(new Date(), granularity), -(periods - 1) * step);
+    for (let date = start; date.getTime() <= Date.now(); date = addDays(date, step)) {
+      const period = formatDate(date);
+      points.set(period, { period, snapshots: 0, videos: 0, matched: 0, share: 0 });
+    }
+
+    for (const snapshot of this.getSnapshots(periods * step + 1)) {
+      const point = points.get(formatDate(periodStart(new Date(snapshot.timestamp), granularity)));
+      if (!point) {
+        continue;
+      }
+      point.snapshots++;
+      point.videos += snapshot.videos.length;
+      point.matched += snapshot.videos.filter(item => item.match.matched).length;
+    }
+
+    return Array.from(points.values()).map(point => ({
+      ...point,
+      share: point.videos > 0 ? point.matched / point.videos : 0
+    }));
+  }
+
+  /**
+   * 生成对齐度报告：每个周期一行条形图，附各视频源的对齐度和变化趋势
+   */
+  generateAlignmentReport(granularity: AlignmentGranularity = 'day', periods: number = 14): string {
+    const points = this.getAlignment(granularity, periods);
+    const barWidth = 40;
+
+    let report = `📈 ${this.platform} 推荐对齐度 (最近 ${periods} ${granularity === 'week' ? '周' : '天'})\n`;
+    report += '='.repeat(50) + '\n';
+
+    const withData = points.filter(point => point.videos > 0);
+    if (withData.length === 0) {
+      return report + '暂无推荐快照\n';
+    }
+
+    for (const point of points) {
+      if (point.videos === 0) {
+        report += `${point.period}  ${'·'.padEnd(barWidth)}      -\n`;
+        continue;
+      }
+      const bar = '█'.repeat(Math.round(point.share * barWidth)).padEnd(barWidth);
+      report += `${point.period}  ${bar} ${formatPercent(point.share).padStart(5)}  (${point.matched}/${point.videos}, ${point.snapshots} 次)\n`;
+    }
+
+    const since = new Date(`${points[0].period}T00:00:00`).getTime();
+    const bySource = new Map<string, { videos: number; matched: number }>();
+    for (const snapshot of this.getSnapshots(periods * (granularity === 'week' ? 7 : 1) + 1)) {
+      if (new Date(snapshot.timestamp).getTime() < since) {
+        continue;
+      }
+      const stats = bySource.get(snapshot.source) || { videos: 0, matched: 0 };
+      stats.videos += snapshot.videos.length;
+      stats.matched += snapshot.videos.filter(item => item.match.matched).length;
+      bySource.set(snapshot.source, stats);
+    }
+
+    report += '\n📺 各视频源对齐度:\n';
+    for (const [source, stats] of bySource) {
+      report += `  ${source}: ${formatPercent(stats.videos > 0 ? stats.matched / stats.videos : 0)} (${stats.matched}/${stats.videos})\n`;
+    }
+
+    // 前后两半周期的整体对齐度对比，避免单个周期样本少造成的波动
+    if (withData.length >= 2) {
+      const half = Math.floor(withData.length / 2);
+      const before = pooledShare(withData.slice(0, half));
+      const after = pooledShare(withData.slice(half));
+      const change = (after - before) * 100;
+      report += `\n${change >= 0 ? '⬆️' : '⬇️'}  对齐度变化: 前半段 ${formatPercent(before)} → 后半段 ${formatPercent(after)}, ${change >= 0 ? '+' : ''}${change.toFixed(1)} 个百分点\n`;
+    }
+
+    return report;
+  }
+}
+
+/**
+ * 周期的起始时间（本地时间零点，按周统计时为周一）
+ */
+function periodStart(date: Date, granularity: AlignmentGranularity): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (granularity === 'week') {
+    return addDays(start, -((start.getDay() + 6) % 7));
+  }
+  return start;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function pooledShare(points: AlignmentPoint[]): number {
+  const videos = points.reduce((sum, point) => sum + point.videos, 0);
+  const matched = points.reduce((sum, point) => sum + point.matched, 0);
+  return videos > 0 ? matched / videos : 0;
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
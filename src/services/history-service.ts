@@ -1,7 +1,9 @@
 import { existsSync, mkdirSync, writeFileSync, readFileSync, appendFileSync } from 'fs';
 import { join } from 'path';
-import { VideoInfo } from '../types/index.js';
+import { VideoInfo, MatchResult, KeywordHit, SessionProgress, SessionSummary, RelatedChainLink, EngagementAction } from '../types/index.js';
 import { logger } from '../core/logger.js';
+import { FeedSnapshotService } from './feed-snapshot-service.js';
+import { STOP_REASON_LABELS } from '../core/session-policy.js';
 
 /**
  * 观看历史记录的详细信息
@@ -11,7 +13,12 @@ export interface WatchHistory {
   video: VideoInfo;
   playDuration: number; // 实际播放时长（毫秒）
   matchedKeywords: string[]; // 匹配的关键词
+  matchHits?: KeywordHit[]; // 关键词命中的字段、方式和置信度
+  matchScore?: number; // 匹配得分
   source: 'home' | 'related' | 'short' | 'search'; // 视频来源，添加 search
+  campaign?: string; // 所属投放计划
+  seedVideoId?: string; // 相关视频链起点的目标视频ID（source 为 related 时）
+  chainDepth?: number; // 在相关视频链中的层数
   sessionId: string; // 会话ID，用于追踪
   platform: string; // 平台标识（bilibili, youtube等）
   // 模拟播放相关数据
@@ -21,6 +28,54 @@ export interface WatchHistory {
   playbackSpeed?: number; // 播放速度倍率
 }
 
+/**
+ * 每轮推荐的视频源及命中情况（自适应视频源开启时记录）
+ */
+export interface SourceRound {
+  timestamp: string;
+  sessionId: string;
+  platform: string;
+  round: number; // 会话内的轮次
+  source: 'home' | 'related' | 'short'; // 本轮实际使用的视频源
+  fetched: number; // 获取到的推荐视频数
+  matched: number; // 其中的目标视频数
+  hitRate: number; // matched / fetched
+  explored: boolean; // 是否为探索选择
+  fallbackFrom?: 'home' | 'related' | 'short'; // 选择的视频源没有结果而回退时，原本选择的视频源
+}
+
+/**
+ * 一条相关视频链的收获
+ */
+export interface RelatedChainStats {
+  seedVideoId: string;
+  seedTitle?: string; // 起点视频标题（起点在观看历史中时）
+  videos: number; // 沿链播放的视频数
+  maxDepth: number; // 到达的最大层数
+  watchSeconds: number; // 沿链播放的观看时长（秒）
+  lastWatched: string;
+}
+
+/**
+ * 对视频执行的反馈操作类型
+ */
+export type FeedbackActionType = 'not_interested' | EngagementAction;
+
+/**
+ * 反馈操作记录（与观看历史分开保存在 history/action-history.jsonl）
+ */
+export interface ActionRecord {
+  timestamp: string;
+  type: FeedbackActionType;
+  video: VideoInfo;
+  reason: string; // 触发操作的规则
+  success: boolean; // 平台是否接受了该操作
+  detail?: string; // 操作参数（如收藏夹名称）
+  dryRun?: boolean; // 预演模式下只记录、未实际执行
+  sessionId: string;
+  platform: string;
+}
+
 /**
  * 观看历史统计信息
  */
@@ -32,6 +87,7 @@ export interface HistoryStats {
   dailyStats: Record<string, number>; // 每日观看数量
   topAuthors: Record<string, number>; // 最常看的UP主
   platformStats: Record<string, number>; // 各平台的视频数量
+  exclusionStats: Record<string, number>; // 各排除规则否决的视频数量
   // 模拟播放统计
   simulatedStats?: {
     totalSimulatedVideos: number; // 模拟播放视频总数
@@ -50,7 +106,11 @@ export class HistoryService {
   private readonly historyDir = 'history';
   private readonly historyFile = 'watch-history.jsonl'; // 使用JSONL格式，每行一个记录
   private readonly statsFile = 'watch-stats.json';
+  private readonly sessionReportFile = 'session-reports.jsonl';
+  private readonly sourceRoundFile = 'source-rounds.jsonl';
+  private readonly actionFile = 'action-history.jsonl';
   private readonly platform: string;
+  private sessionProgress: Map<string, SessionProgress> = new Map();
 
   constructor(platform: string = 'bilibili') {
     this.platform = platform;
@@ -73,7 +133,7 @@ export class HistoryService {
   recordWatch(
     video: VideoInfo, 
     playDuration: number, 
-    matchedKeywords: string[], 
+    match: MatchResult, 
     source: 'home' | 'related' | 'short' | 'search',
     sessionId: string = 'default',
     simulatedData?: {
@@ -81,15 +141,21 @@ export class HistoryService {
       simulatedWatchDuration?: number;
       actualWaitTime?: number;
       playbackSpeed?: number;
-    }
+    },
+    chain?: RelatedChainLink
   ): void {
     try {
       const watchRecord: WatchHistory = {
         timestamp: new Date().toISOString(),
         video,
         playDuration,
-        matchedKeywords,
+        matchedKeywords: match.keywords,
+        matchHits: match.hits,
+        matchScore: match.score,
         source,
+        campaign: match.campaign,
+        seedVideoId: chain?.seedVideoId,
+        chainDepth: chain?.depth,
         sessionId,
         platform: this.platform,
         // 模拟播放数据
@@ -107,8 +173,14 @@ export class HistoryService {
       // 更新统计信息
       this.updateStats(watchRecord);
 
+      // 累计会话进度（用于会话终止条件）
+      const progress = this.getSessionProgress(sessionId);
+      progress.videos++;
+      progress.watchSeconds += getWatchSeconds(watchRecord);
+      this.sessionProgress.set(sessionId, progress);
+
       logger.info(`📝 已记录观看历史: ${video.title}`);
-      logger.info(`   ↳ 平台: ${this.platform}, 关键词: ${matchedKeywords.join(', ')}`);
+      logger.info(`   ↳ 平台: ${this.platform}, 关键词: ${match.keywords.join(', ')}, 得分: ${match.score.toFixed(2)}${match.campaign ? `, 投放计划: ${match.campaign}` : ''}`);
       
       if (simulatedData?.isSimulated) {
         const efficiency = simulatedData.simulatedWatchDuration && simulatedData.actualWaitTime 
@@ -118,12 +190,33 @@ export class HistoryService {
       } else {
         logger.info(`   ↳ 来源: ${source}, 播放时长: ${(playDuration / 1000).toFixed(1)}秒`);
       }
+      if (chain) {
+        logger.info(`   ↳ 相关视频链: 起点 ${chain.seedVideoId}, 第 ${chain.depth} 层`);
+      }
 
     } catch (error) {
       logger.error('记录观看历史失败:', error);
     }
   }
 
+  /**
+   * 记录被排除规则否决的视频
+   */
+  recordExclusion(video: VideoInfo, rule: string): void {
+    try {
+      logger.info(`🚫 跳过视频: ${video.title} - 作者: ${video.author} (排除规则: ${rule})`);
+
+      const stats = this.getStats();
+      stats.exclusionStats[rule] = (stats.exclusionStats[rule] || 0) + 1;
+
+      const statsPath = join(this.historyDir, this.statsFile);
+      writeFileSync(statsPath, JSON.stringify(stats, null, 2), 'utf-8');
+
+    } catch (error) {
+      logger.error('记录排除统计失败:', error);
+    }
+  }
+
   /**
    * 更新统计信息
    */
@@ -138,6 +231,7 @@ export class HistoryService {
       if (!stats.dailyStats) stats.dailyStats = {};
       if (!stats.topAuthors) stats.topAuthors = {};
       if (!stats.platformStats) stats.platformStats = {};
+      if (!stats.exclusionStats) stats.exclusionStats = {};
 
       // 更新基本统计
       stats.totalVideos = (stats.totalVideos || 0) + 1;
@@ -231,7 +325,8 @@ export class HistoryService {
       sourceStats: {},
       dailyStats: {},
       topAuthors: {},
-      platformStats: {}
+      platformStats: {},
+      exclusionStats: {}
     };
 
     try {
@@ -249,6 +344,7 @@ export class HistoryService {
           dailyStats: parsedStats.dailyStats || {},
           topAuthors: parsedStats.topAuthors || {},
           platformStats: parsedStats.platformStats || {},
+          exclusionStats: parsedStats.exclusionStats || {},
           simulatedStats: parsedStats.simulatedStats
         };
       }
@@ -327,6 +423,112 @@ export class HistoryService {
     }
   }
 
+  /**
+   * 按视频ID或链接查找最近一条观看记录
+   */
+  findRecord(videoIdOrUrl: string): WatchHistory | null {
+    try {
+      const historyPath = join(this.historyDir, this.historyFile);
+      if (!existsSync(historyPath)) {
+        return null;
+      }
+
+      const content = readFileSync(historyPath, 'utf-8');
+      const lines = content.trim().split('\n').filter(line => line.trim());
+
+      // 从最新的记录开始查找
+      for (let i = lines.length - 1; i >= 0; i--) {
+        try {
+          const record: WatchHistory = JSON.parse(lines[i]);
+          if (record.video.id === videoIdOrUrl ||
+              record.video.url === videoIdOrUrl ||
+              (record.video.id && videoIdOrUrl.includes(record.video.id))) {
+            return record;
+          }
+        } catch (parseError) {
+          continue;
+        }
+      }
+
+      return null;
+    } catch (error) {
+      logger.error('查找观看历史失败:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 统计各投放计划在当前平台获得的观看时长（秒）
+   * @param lookbackDays 只统计最近 N 天，0 表示全部历史
+   */
+  getCampaignWatchTime(lookbackDays: number = 0): Record<string, number> {
+    const watchTime: Record<string, number> = {};
+    try {
+      const historyPath = join(this.historyDir, this.historyFile);
+      if (!existsSync(historyPath)) {
+        return watchTime;
+      }
+
+      const cutoff = lookbackDays > 0 ? Date.now() - lookbackDays * 24 * 60 * 60 * 1000 : 0;
+      const content = readFileSync(historyPath, 'utf-8');
+      const lines = content.trim().split('\n').filter(line => line.trim());
+
+      for (const line of lines) {
+        try {
+          const record: WatchHistory = JSON.parse(line);
+          if (!record.campaign || record.platform !== this.platform) continue;
+          if (cutoff > 0 && new Date(record.timestamp).getTime() < cutoff) continue;
+          watchTime[record.campaign] = (watchTime[record.campaign] || 0) + getWatchSeconds(record);
+        } catch (parseError) {
+          continue;
+        }
+      }
+    } catch (error) {
+      logger.error('统计投放计划观看时长失败:', error);
+    }
+    return watchTime;
+  }
+
+  /**
+   * 按起点视频汇总相关视频链的播放情况，按播放数从多到少排序
+   */
+  getChainStats(): RelatedChainStats[] {
+    const chains = new Map<string, RelatedChainStats>();
+    const titles = new Map<string, string>();
+    try {
+      const historyPath = join(this.historyDir, this.historyFile);
+      if (!existsSync(historyPath)) {
+        return [];
+      }
+
+      const lines = readFileSync(historyPath, 'utf-8').trim().split('\n').filter(line => line.trim());
+      for (const line of lines) {
+        try {
+          const record: WatchHistory = JSON.parse(line);
+          titles.set(record.video.id, record.video.title);
+          if (!record.seedVideoId) continue;
+
+          const chain = chains.get(record.seedVideoId) || {
+            seedVideoId: record.seedVideoId, videos: 0, maxDepth: 0, watchSeconds: 0, lastWatched: record.timestamp
+          };
+          chain.videos++;
+          chain.maxDepth = Math.max(chain.maxDepth, record.chainDepth || 0);
+          chain.watchSeconds += getWatchSeconds(record);
+          chain.lastWatched = record.timestamp;
+          chains.set(record.seedVideoId, chain);
+        } catch (parseError) {
+          continue;
+        }
+      }
+    } catch (error) {
+      logger.error('统计相关视频链失败:', error);
+    }
+
+    return Array.from(chains.values())
+      .map(chain => ({ ...chain, seedTitle: titles.get(chain.seedVideoId) }))
+      .sort((a, b) => b.videos - a.videos);
+  }
+
   /**
    * 检查视频是否已经看过
    */
@@ -431,6 +633,18 @@ export class HistoryService {
       report.push('');
     }
 
+    // 排除规则统计
+    if (Object.keys(stats.exclusionStats).length > 0) {
+      report.push('🚫 排除规则统计:');
+      const sortedRules = Object.entries(stats.exclusionStats)
+        .sort(([,a], [,b]) => b - a)
+        .slice(0, 10);
+      sortedRules.forEach(([rule, count]) => {
+        report.push(`  ${rule}: ${count} 次`);
+      });
+      report.push('');
+    }
+
     // 最近7天统计
     const recentDays = Object.entries(stats.dailyStats)
       .sort(([a], [b]) => b.localeCompare(a))
@@ -446,10 +660,171 @@ export class HistoryService {
     return report.join('\n');
   }
 
+  /**
+   * 获取会话进度（本进程内记录的播放数和观看时长）
+   */
+  getSessionProgress(sessionId: string): SessionProgress {
+    const progress = this.sessionProgress.get(sessionId);
+    return progress ? { ...progress } : { videos: 0, watchSeconds: 0 };
+  }
+
+  /**
+   * 记录会话结束摘要
+   */
+  recordSessionSummary(summary: SessionSummary): void {
+    try {
+      const reportPath = join(this.historyDir, this.sessionReportFile);
+      appendFileSync(reportPath, JSON.stringify({ ...summary, platform: this.platform }) + '\n', 'utf-8');
+    } catch (error) {
+      logger.error('记录会话摘要失败:', error);
+    }
+  }
+
+  /**
+   * 记录一轮推荐的视频源和命中率，追加到 history/source-rounds.jsonl
+   */
+  recordSourceRound(round: Omit<SourceRound, 'timestamp' | 'platform'>): void {
+    try {
+      const record: SourceRound = { timestamp: new Date().toISOString(), platform: this.platform, ...round };
+      appendFileSync(join(this.historyDir, this.sourceRoundFile), JSON.stringify(record) + '\n', 'utf-8');
+    } catch (error) {
+      logger.error('记录视频源轮次失败:', error);
+    }
+  }
+
+  /**
+   * 记录一次反馈操作，追加到 history/action-history.jsonl
+   */
+  recordAction(action: Omit<ActionRecord, 'timestamp' | 'platform'>): void {
+    try {
+      const record: ActionRecord = { timestamp: new Date().toISOString(), platform: this.platform, ...action };
+      appendFileSync(join(this.historyDir, this.actionFile), JSON.stringify(record) + '\n', 'utf-8');
+    } catch (error) {
+      logger.error('记录反馈操作失败:', error);
+    }
+  }
+
+  /**
+   * 获取当前平台最近 N 条反馈操作（最新的在前）
+   * @param type 只返回指定类型的操作
+   */
+  getRecentActions(limit: number = 50, type?: FeedbackActionType): ActionRecord[] {
+    try {
+      const actionPath = join(this.historyDir, this.actionFile);
+      if (!existsSync(actionPath)) {
+        return [];
+      }
+
+      const lines = readFileSync(actionPath, 'utf-8').trim().split('\n').filter(line => line.trim());
+      const actions: ActionRecord[] = [];
+      for (const line of lines) {
+        try {
+          const record: ActionRecord = JSON.parse(line);
+          if (record.platform === this.platform && (!type || record.type === type)) {
+            actions.push(record);
+          }
+        } catch (parseError) {
+          continue;
+        }
+      }
+      return actions.slice(-limit).reverse();
+    } catch (error) {
+      logger.error('读取反馈操作失败:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 今天（本地时间）已尝试的某类反馈操作数（包括失败的尝试），用于每日上限
+   * @param dryRun 统计预演记录还是实际执行的记录
+   */
+  getTodayActionCount(type: FeedbackActionType, dryRun: boolean = false): number {
+    const today = new Date().toDateString();
+    return this.getRecentActions(Infinity, type)
+      .filter(record => !!record.dryRun === dryRun && new Date(record.timestamp).toDateString() === today)
+      .length;
+  }
+
+  /**
+   * 是否已对视频成功执行过某类反馈操作（不含预演记录）
+   */
+  hasActed(type: FeedbackActionType, videoId: string): boolean {
+    return this.getRecentActions(Infinity, type).some(record => record.success && !record.dryRun && record.video.id === videoId);
+  }
+
+  /**
+   * 是否已对视频的作者成功执行过某类反馈操作（如关注，不含预演记录）
+   */
+  hasActedOnAuthor(type: FeedbackActionType, video: VideoInfo): boolean {
+    const author = video.authorId || video.author;
+    return this.getRecentActions(Infinity, type).some(record =>
+      record.success && !record.dryRun && (record.video.authorId || record.video.author) === author
+    );
+  }
+
+  /**
+   * 不应再对其执行某类反馈操作的视频ID（不含预演记录）：成功执行过的，以及今天尝试过的（不论结果）
+   * 一次读取历史文件，用于过滤一批候选视频
+   */
+  getActedVideoIds(type: FeedbackActionType): Set<string> {
+    const today = new Date().toDateString();
+    return new Set(this.getRecentActions(Infinity, type)
+      .filter(record => !record.dryRun && (record.success || new Date(record.timestamp).toDateString() === today))
+      .map(record => record.video.id));
+  }
+
+  /**
+   * 获取当前平台最近 N 轮的视频源记录（按时间从早到晚）
+   */
+  getRecentSourceRounds(limit: number = 50): SourceRound[] {
+    try {
+      const roundPath = join(this.historyDir, this.sourceRoundFile);
+      if (!existsSync(roundPath)) {
+        return [];
+      }
+
+      const lines = readFileSync(roundPath, 'utf-8').trim().split('\n').filter(line => line.trim());
+      const rounds: SourceRound[] = [];
+      for (const line of lines) {
+        try {
+          const record: SourceRound = JSON.parse(line);
+          if (record.platform === this.platform) {
+            rounds.push(record);
+          }
+        } catch (parseError) {
+          continue;
+        }
+      }
+      return rounds.slice(-limit);
+    } catch (error) {
+      logger.error('读取视频源轮次失败:', error);
+      return [];
+    }
+  }
+
   /**
    * 生成当前会话统计报告
+   * @param summary 会话结束摘要，提供时附加结束原因、轮数和运行时长
    */
-  generateSessionReport(sessionId: string): string {
+  generateSessionReport(sessionId: string, summary?: SessionSummary): string {
+    const report = this.buildSessionReport(sessionId);
+    if (!summary) {
+      return report;
+    }
+
+    const duration = (new Date(summary.endTime).getTime() - new Date(summary.startTime).getTime()) / 1000 / 60;
+    return [
+      report,
+      '',
+      `🏁 结束原因: ${STOP_REASON_LABELS[summary.reason]}`,
+      `🔄 搜索轮数: ${summary.rounds} (结束时连续 ${summary.emptyRounds} 轮未找到目标视频)`,
+      `⏰ 会话运行时间: ${duration.toFixed(1)} 分钟`,
+      `⏱️  累计观看时长: ${(summary.watchSeconds / 60).toFixed(1)} 分钟`,
+      summary.drained ? '✅ 播放队列已处理完成' : '⚠️ 播放队列未在超时前处理完成'
+    ].join('\n');
+  }
+
+  private buildSessionReport(sessionId: string): string {
     try {
       const historyPath = join(this.historyDir, this.historyFile);
       if (!existsSync(historyPath)) {
@@ -667,9 +1042,11 @@ export class HistoryService {
   }
 
   /**
-   * 清理旧的历史记录（保留最近N天）
+   * 清理旧的历史记录（保留最近N天），推荐快照按同样的天数一起清理
    */
   cleanupOldHistory(daysToKeep: number = 30): void {
+    new FeedSnapshotService(this.platform).cleanup(daysToKeep);
+
     try {
       const cutoffDate = new Date();
       cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
@@ -710,4 +1087,11 @@ export class HistoryService {
       logger.error('清理历史记录失败:', error);
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * 一条记录计入的观看时长（秒），模拟播放按模拟观看时长计
+ */
+function getWatchSeconds(record: WatchHistory): number {
+  return record.isSimulated ? record.simulatedWatchDuration || 0 : record.playDuration / 1000;
+}
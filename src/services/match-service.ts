@@ -1,45 +1,78 @@
-import { VideoInfo, MatcherConfig } from '../types/index.js';
+import { VideoInfo, MatcherConfig, MatcherInterface, MatchResult } from '../types/index.js';
 import { logger } from '../core/logger.js';
+import { ExclusionFilter } from '../matchers/exclusion-filter.js';
+import { MetadataFilter } from '../matchers/metadata-filter.js';
+import { createVetoedResult } from '../matchers/match-result.js';
 
 /**
  * 视频匹配服务
- * 提供视频内容与关键词匹配的功能
+ * 统一的匹配引擎：先检查排除规则和元数据条件，再交给配置的匹配器
+ * 喂养循环、各播放管理器和观看历史都通过 evaluate 获取匹配结果
  */
 export class MatchService {
   private config: MatcherConfig;
+  private matcher: MatcherInterface;
+  private exclusionFilter: ExclusionFilter;
+  private metadataFilter: MetadataFilter;
 
-  constructor(config: MatcherConfig) {
+  constructor(config: MatcherConfig, matcher: MatcherInterface) {
     this.config = config;
+    this.matcher = matcher;
+    this.exclusionFilter = new ExclusionFilter(config);
+    this.metadataFilter = new MetadataFilter(config.metadataFilter);
   }
 
   /**
-   * 检查视频是否匹配关键词
+   * 检查视频是否被排除规则否决
    * @param video 视频信息
-   * @returns 匹配的关键词数组
+   * @returns 否决该视频的规则，未被否决时返回 null
    */
-  checkVideoMatch(video: VideoInfo): string[] {
-    const matchedKeywords: string[] = [];
-    
-    // 构建搜索文本
-    const searchText = `${video.title} ${video.author || ''}`.toLowerCase();
-    
-    // 检查每个关键词
-    for (const keyword of this.config.keywords) {
-      const keywordToCheck = this.config.caseSensitive ? keyword : keyword.toLowerCase();
-      
-      if (searchText.includes(keywordToCheck)) {
-        matchedKeywords.push(keyword);
-      }
+  getExclusionRule(video: VideoInfo): string | null {
+    return this.exclusionFilter.check(video);
+  }
+
+  /**
+   * 检查视频是否被排除规则或元数据条件否决
+   * 喂养循环、主动搜索和各播放管理器统一使用此方法过滤视频
+   * 匹配流水线自行声明过滤阶段，此时以流水线为准
+   * @param video 视频信息
+   * @returns 否决该视频的规则，通过时返回 null
+   */
+  getVetoRule(video: VideoInfo): string | null {
+    if (this.matcher.getVetoRule) {
+      return this.matcher.getVetoRule(video);
     }
+    return this.exclusionFilter.check(video) || this.metadataFilter.check(video);
+  }
 
-    // 根据匹配模式决定是否匹配
-    if (this.config.matchMode === 'all') {
-      // 需要匹配所有关键词
-      return matchedKeywords.length === this.config.keywords.length ? matchedKeywords : [];
-    } else {
-      // 匹配任意关键词即可
-      return matchedKeywords;
+  /**
+   * 计算视频的结构化匹配结果
+   * @param video 视频信息
+   * @param searchKeyword 主动搜索时使用的关键词，会计入匹配关键词
+   * @returns 匹配结果（命中的关键词、字段、得分及否决规则）
+   */
+  evaluate(video: VideoInfo, searchKeyword?: string): MatchResult {
+    // 排除规则和元数据条件优先于正向匹配
+    const vetoRule = this.getVetoRule(video);
+    if (vetoRule) {
+      return createVetoedResult(vetoRule);
+    }
+
+    const result = this.matcher.evaluate(video);
+    if (searchKeyword && !result.keywords.includes(searchKeyword)) {
+      result.keywords = [searchKeyword, ...result.keywords];
     }
+    return result;
+  }
+
+  /**
+   * 检查视频是否匹配关键词
+   * @param video 视频信息
+   * @returns 匹配的关键词数组，不匹配时为空数组
+   */
+  checkVideoMatch(video: VideoInfo): string[] {
+    const result = this.evaluate(video);
+    return result.matched ? result.keywords : [];
   }
 
   /**
@@ -48,7 +81,7 @@ export class MatchService {
    * @returns 是否匹配
    */
   isVideoMatched(video: VideoInfo): boolean {
-    return this.checkVideoMatch(video).length > 0;
+    return this.evaluate(video).matched;
   }
 
   /**
@@ -66,6 +99,9 @@ export class MatchService {
    */
   updateConfig(newConfig: MatcherConfig): void {
     this.config = newConfig;
+    this.exclusionFilter.configure(newConfig);
+    this.metadataFilter.configure(newConfig.metadataFilter);
+    this.matcher.configure(newConfig);
     logger.debug('匹配服务配置已更新');
   }
 
@@ -92,10 +128,10 @@ export class MatchService {
     const matchedKeywords: Record<string, number> = {};
 
     for (const video of videos) {
-      const keywords = this.checkVideoMatch(video);
-      if (keywords.length > 0) {
+      const result = this.evaluate(video);
+      if (result.matched) {
         matched++;
-        keywords.forEach(keyword => {
+        result.keywords.forEach(keyword => {
           matchedKeywords[keyword] = (matchedKeywords[keyword] || 0) + 1;
         });
       }
@@ -0,0 +1,161 @@
+import { existsSync, mkdirSync, writeFileSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { logger } from '../core/logger.js';
+
+/**
+ * 单个搜索关键词的效果统计
+ */
+export interface KeywordSearchStats {
+  searches: number;                  // 已完成评估的搜索次数
+  reward: number;                    // 累计收益（每次搜索后观察轮次中找到目标视频的比例之和）
+  lastSearched?: string;             // 最近一次搜索时间
+}
+
+/**
+ * 正在观察效果的一次主动搜索
+ */
+interface PendingSearch {
+  keyword: string;
+  observedRounds: number;
+  matchedRounds: number;
+}
+
+/**
+ * 主动搜索关键词选择器（UCB1 多臂老虎机）
+ * 每次主动搜索后观察随后若干轮推荐，找到目标视频的轮次比例作为该关键词的收益
+ * 统计按平台保存在 history/search-stats.json，重启后继续学习
+ */
+export class SearchKeywordBandit {
+  private readonly historyDir = 'history';
+  private readonly statsFile = 'search-stats.json';
+  private readonly platform: string;
+  private readonly rewardRounds: number;
+  private readonly exploration: number;
+  private pending?: PendingSearch;
+
+  /**
+   * @param platform 平台标识，统计按平台分开
+   * @param rewardRounds 每次搜索后观察的推荐轮数
+   * @param exploration 探索系数，越大越倾向尝试搜索次数少的关键词
+   */
+  constructor(platform: string, rewardRounds: number = 3, exploration: number = 1) {
+    this.platform = platform;
+    this.rewardRounds = Math.max(1, rewardRounds);
+    this.exploration = Math.max(0, exploration);
+  }
+
+  /**
+   * 选择搜索关键词
+   * 优先尝试从未评估过的关键词，其余按 UCB1 得分（平均收益 + 探索奖励）选择
+   */
+  select(keywords: string[]): string | null {
+    if (keywords.length === 0) {
+      return null;
+    }
+
+    const stats = this.getStats();
+    const untried = keywords.filter(keyword => !stats[keyword] || stats[keyword].searches === 0);
+    if (untried.length > 0) {
+      return untried[Math.floor(Math.random() * untried.length)];
+    }
+
+    const totalSearches = keywords.reduce((sum, keyword) => sum + stats[keyword].searches, 0);
+    let best = keywords[0];
+    let bestScore = -Infinity;
+    for (const keyword of keywords) {
+      const score = this.getUcbScore(stats[keyword], totalSearches);
+      logger.debug(`🎰 关键词 "${keyword}": 平均收益 ${(stats[keyword].reward / stats[keyword].searches).toFixed(2)}, UCB ${score.toFixed(2)}`);
+      if (score > bestScore) {
+        best = keyword;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * 记录一次主动搜索，开始观察随后的推荐轮次
+   * 上一次搜索尚未观察完时按已观察的轮次结算
+   */
+  recordSearch(keyword: string): void {
+    this.settle();
+    this.pending = { keyword, observedRounds: 0, matchedRounds: 0 };
+
+    const stats = this.getStats();
+    stats[keyword] = { ...(stats[keyword] || { searches: 0, reward: 0 }), lastSearched: new Date().toISOString() };
+    this.saveStats(stats);
+  }
+
+  /**
+   * 记录一轮推荐的结果，观察满 rewardRounds 轮后结算收益
+   * @param found 本轮推荐中是否找到目标视频
+   */
+  recordRound(found: boolean): void {
+    if (!this.pending) {
+      return;
+    }
+
+    this.pending.observedRounds++;
+    if (found) {
+      this.pending.matchedRounds++;
+    }
+    if (this.pending.observedRounds >= this.rewardRounds) {
+      this.settle();
+    }
+  }
+
+  /**
+   * 结算正在观察的搜索，尚未观察任何轮次时丢弃
+   */
+  settle(): void {
+    const pending = this.pending;
+    this.pending = undefined;
+    if (!pending || pending.observedRounds === 0) {
+      return;
+    }
+
+    const reward = pending.matchedRounds / pending.observedRounds;
+    const stats = this.getStats();
+    const current = stats[pending.keyword] || { searches: 0, reward: 0 };
+    stats[pending.keyword] = { ...current, searches: current.searches + 1, reward: current.reward + reward };
+    this.saveStats(stats);
+    logger.info(`🎰 主动搜索 "${pending.keyword}" 效果: 随后 ${pending.observedRounds} 轮中 ${pending.matchedRounds} 轮找到目标视频`);
+  }
+
+  /**
+   * 获取当前平台各关键词的统计
+   */
+  getStats(): Record<string, KeywordSearchStats> {
+    return this.loadAll()[this.platform] || {};
+  }
+
+  private getUcbScore(stats: KeywordSearchStats, totalSearches: number): number {
+    const mean = stats.reward / stats.searches;
+    return mean + this.exploration * Math.sqrt((2 * Math.log(totalSearches)) / stats.searches);
+  }
+
+  private loadAll(): Record<string, Record<string, KeywordSearchStats>> {
+    try {
+      const statsPath = join(this.historyDir, this.statsFile);
+      if (existsSync(statsPath)) {
+        return JSON.parse(readFileSync(statsPath, 'utf-8'));
+      }
+    } catch (error) {
+      logger.debug('读取搜索关键词统计失败，使用空统计:', error);
+    }
+    return {};
+  }
+
+  private saveStats(stats: Record<string, KeywordSearchStats>): void {
+    try {
+      if (!existsSync(this.historyDir)) {
+        mkdirSync(this.historyDir, { recursive: true });
+      }
+      const all = this.loadAll();
+      all[this.platform] = stats;
+      writeFileSync(join(this.historyDir, this.statsFile), JSON.stringify(all, null, 2), 'utf-8');
+    } catch (error) {
+      logger.error('保存搜索关键词统计失败:', error);
+    }
+  }
+}
@@ -1,8 +1,10 @@
-import { VideoInfo } from '../types/index.js';
+import { VideoInfo, RelatedChainLink, PlaybackSimulator } from '../types/index.js';
 import { logger } from '../core/logger.js';
 import { BilibiliPlaybackSimulator } from '../platforms/bilibili/bilibili-simulator.js';
+import { YouTubePlaybackSimulator } from '../platforms/youtube/youtube-simulator.js';
 import { HistoryService } from './history-service.js';
 import { MatchService } from './match-service.js';
+import { EngagementManager } from '../core/engagement-manager.js';
 
 /**
  * 模拟播放配置接口
@@ -24,15 +26,16 @@ export interface SimulatedPlaybackConfig {
  */
 export class SimulatedPlaybackManager {
   private config: SimulatedPlaybackConfig;
-  private simulators: BilibiliPlaybackSimulator[] = [];
+  private simulators: PlaybackSimulator[] = [];
   private historyService: HistoryService;
   private matchService: MatchService;
+  private engagementManager?: EngagementManager;
   private isProcessing: boolean = false;
   private currentVideoSource: 'home' | 'related' | 'short' | 'search' = 'home';
   private sessionId: string;
   private concurrentWorkers: number;
   private activeWorkers: number = 0;
-  private videoQueue: Array<{video: VideoInfo, source: 'home' | 'related' | 'short' | 'search'}> = [];
+  private videoQueue: Array<{video: VideoInfo, source: 'home' | 'related' | 'short' | 'search', searchKeyword?: string, chain?: RelatedChainLink}> = [];
   private processingPromises: Promise<void>[] = [];
   private lastStatsReport: number = 0;
   private statsReportInterval: number = 60000; // 60秒输出一次统计
@@ -41,26 +44,34 @@ export class SimulatedPlaybackManager {
     config: SimulatedPlaybackConfig,
     historyService: HistoryService,
     matchService: MatchService,
-    sessionId: string = 'default'
+    sessionId: string = 'default',
+    engagementManager?: EngagementManager
   ) {
     this.config = config;
     this.historyService = historyService;
     this.matchService = matchService;
     this.sessionId = sessionId;
+    this.engagementManager = engagementManager;
     this.concurrentWorkers = Math.max(1, Math.min(config.concurrentWorkers || 1, 10)); // 限制1-10个并发
 
     this.initializeSimulators();
   }
 
+  /**
+   * 平台是否支持模拟播放
+   */
+  static isPlatformSupported(platform: string): boolean {
+    return ['bilibili', 'youtube'].includes(platform);
+  }
+
   /**
    * 初始化多个模拟播放器
    */
   private initializeSimulators(): void {
-    if (this.config.platform === 'bilibili' && this.config.cookies) {
+    if (SimulatedPlaybackManager.isPlatformSupported(this.config.platform) && this.config.cookies) {
       // 创建多个模拟播放器实例
       for (let i = 0; i < this.concurrentWorkers; i++) {
-        const simulator = new BilibiliPlaybackSimulator(this.config.cookies, this.config.playbackSpeed, this.config.durationVariation || 5);
-        this.simulators.push(simulator);
+        this.simulators.push(this.createSimulator());
       }
       logger.info(`🎭 模拟播放管理器已初始化 - ${this.config.platform} (${this.concurrentWorkers}个并发工作器, ${this.config.playbackSpeed}x速度)`);
     } else {
@@ -68,17 +79,38 @@ export class SimulatedPlaybackManager {
     }
   }
 
+  /**
+   * 按平台创建模拟播放器
+   */
+  private createSimulator(): PlaybackSimulator {
+    const durationVariation = this.config.durationVariation || 5;
+    switch (this.config.platform) {
+      case 'youtube':
+        return new YouTubePlaybackSimulator(this.config.cookies, this.config.playbackSpeed, durationVariation);
+      case 'bilibili':
+      default:
+        return new BilibiliPlaybackSimulator(this.config.cookies, this.config.playbackSpeed, durationVariation);
+    }
+  }
+
   /**
    * 处理单个视频的模拟播放
    */
-  private async processVideo(video: VideoInfo, simulator: BilibiliPlaybackSimulator, workerId: number): Promise<boolean> {
+  private async processVideo(video: VideoInfo, simulator: PlaybackSimulator, workerId: number): Promise<boolean> {
     return this.processVideoWithSource(video, simulator, workerId, this.currentVideoSource);
   }
 
   /**
    * 处理单个视频的模拟播放（指定来源）
    */
-  private async processVideoWithSource(video: VideoInfo, simulator: BilibiliPlaybackSimulator, workerId: number, source: 'home' | 'related' | 'short' | 'search'): Promise<boolean> {
+  private async processVideoWithSource(
+    video: VideoInfo,
+    simulator: PlaybackSimulator,
+    workerId: number,
+    source: 'home' | 'related' | 'short' | 'search',
+    searchKeyword?: string,
+    chain?: RelatedChainLink
+  ): Promise<boolean> {
     try {
       logger.info(`🎭 工作器${workerId} 模拟播放开始: ${video.title}`);
       const startTime = Date.now();
@@ -94,14 +126,13 @@ export class SimulatedPlaybackManager {
       const playDuration = Date.now() - startTime;
 
       // 检查关键词匹配
-      const matchedKeywords = this.matchService.checkVideoMatch(video);
-      const isMatched = matchedKeywords.length > 0;
+      const match = this.matchService.evaluate(video, searchKeyword);
 
       // 记录观看历史（包含模拟播放数据）
       this.historyService.recordWatch(
         video,
         playDuration,
-        matchedKeywords,
+        match,
         source,
         this.sessionId,
         {
@@ -109,13 +140,15 @@ export class SimulatedPlaybackManager {
           simulatedWatchDuration: actualSimulatedDuration, // 使用实际模拟的时长
           actualWaitTime: playDuration,
           playbackSpeed: this.config.playbackSpeed
-        }
+        },
+        chain
       );
 
       logger.info(`✅ 工作器${workerId} 模拟播放完成: ${video.title} (${(playDuration / 1000).toFixed(1)}秒)`);
       
-      if (isMatched) {
-        logger.info(`🎯 工作器${workerId} 匹配成功: ${matchedKeywords.join(', ')}`);
+      if (match.matched) {
+        logger.info(`🎯 工作器${workerId} 匹配成功: ${match.keywords.join(', ')} (得分 ${match.score.toFixed(2)})`);
+        await this.engagementManager?.engage(video, match, simulator);
       }
 
       // 检查是否需要输出统计报告
@@ -131,14 +164,20 @@ export class SimulatedPlaybackManager {
 
   /**
    * 添加视频到队列（非阻塞）
+   * @param chain 沿相关视频链找到的视频所在的链位置
    */
-  addToQueue(videos: VideoInfo[], source?: 'home' | 'related' | 'short' | 'search'): void {
+  addToQueue(videos: VideoInfo[], source?: 'home' | 'related' | 'short' | 'search', searchKeyword?: string, chain?: RelatedChainLink): void {
     const sourceToUse = source || this.currentVideoSource;
     const newVideos = videos.filter(video => {
       if (this.historyService.hasWatched(video.id)) {
         logger.debug(`跳过已观看视频: ${video.title}`);
         return false;
       }
+      const vetoRule = this.matchService.getVetoRule(video);
+      if (vetoRule) {
+        logger.debug(`跳过被过滤的视频: ${video.title} (${vetoRule})`);
+        return false;
+      }
       // 检查是否已在队列中
       if (this.videoQueue.some(queuedVideo => queuedVideo.video.id === video.id)) {
         logger.debug(`跳过队列中已存在的视频: ${video.title}`);
@@ -148,7 +187,7 @@ export class SimulatedPlaybackManager {
     });
 
     if (newVideos.length > 0) {
-      const videoItems = newVideos.map(video => ({ video, source: sourceToUse }));
+      const videoItems = newVideos.map(video => ({ video, source: sourceToUse, searchKeyword, chain }));
       this.videoQueue.push(...videoItems);
       logger.info(`📋 添加${newVideos.length}个新视频到队列(来源:${sourceToUse})，当前队列: ${this.videoQueue.length}个视频`);
       
@@ -221,7 +260,7 @@ export class SimulatedPlaybackManager {
 
           // 启动异步工作器处理（不等待完成）
           logger.info(`🚀 启动工作器${this.activeWorkers} 处理: ${videoItem.video.title} (队列剩余: ${this.videoQueue.length})`);
-          this.processVideoAsync(videoItem.video, videoItem.source);
+          this.processVideoAsync(videoItem.video, videoItem.source, videoItem.searchKeyword, videoItem.chain);
         }
       };
 
@@ -246,18 +285,12 @@ export class SimulatedPlaybackManager {
   /**
    * 异步处理单个视频（不阻塞）
    */
-  private processVideoAsync(video: VideoInfo, source: 'home' | 'related' | 'short' | 'search'): void {
+  private processVideoAsync(video: VideoInfo, source: 'home' | 'related' | 'short' | 'search', searchKeyword?: string, chain?: RelatedChainLink): void {
     const workerId = this.activeWorkers % this.concurrentWorkers;
     this.activeWorkers++;
 
     // 异步处理，不阻塞主循环
-    this.processVideoWithSource(video, this.simulators[workerId], workerId, source)
-      .then(success => {
-        if (success) {
-          const matchedKeywords = this.matchService.checkVideoMatch(video);
-          // 可以在这里记录成功统计
-        }
-      })
+    this.processVideoWithSource(video, this.simulators[workerId], workerId, source, searchKeyword, chain)
       .catch(error => {
         logger.error(`异步处理视频失败: ${video.title}`, error);
       })
@@ -319,8 +352,7 @@ export class SimulatedPlaybackManager {
           processed++;
           
           // 检查是否匹配
-          const matchedKeywords = this.matchService.checkVideoMatch(video);
-          if (matchedKeywords.length > 0) {
+          if (this.matchService.evaluate(video).matched) {
             matched++;
           }
         }
@@ -418,6 +450,30 @@ export class SimulatedPlaybackManager {
     };
   }
 
+  /**
+   * 等待播放队列处理完成
+   * @param timeoutMs 最长等待时间
+   * @param dropPending 是否丢弃尚未开始的视频，只等待正在播放的视频
+   * @returns 是否在超时前处理完成
+   */
+  async drain(timeoutMs: number, dropPending: boolean = false): Promise<boolean> {
+    if (dropPending && this.videoQueue.length > 0) {
+      logger.info(`🧹 丢弃队列中尚未播放的 ${this.videoQueue.length} 个视频`);
+      this.videoQueue = [];
+    }
+
+    const deadline = Date.now() + timeoutMs;
+    while ((this.videoQueue.length > 0 || this.activeWorkers > 0) && Date.now() < deadline) {
+      await this.sleep(1000);
+    }
+
+    const drained = this.videoQueue.length === 0 && this.activeWorkers === 0;
+    if (!drained) {
+      logger.warn(`⚠️ 等待模拟播放超时，仍有 ${this.activeWorkers} 个工作器运行中, 队列: ${this.videoQueue.length} 个视频`);
+    }
+    return drained;
+  }
+
   /**
    * 停止当前处理
    */
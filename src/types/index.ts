@@ -2,6 +2,7 @@ export interface VideoInfo {
   id: string;
   title: string;
   author: string;
+  authorId?: string;                 // 作者ID（B站mid / YouTube频道ID）
   url: string;
   duration?: number;
   tags?: string[];
@@ -19,12 +20,104 @@ export interface PlatformConfig {
   headers?: Record<string, string>;
   simulatedWatchDuration?: number;   // 模拟观看时长(秒)
   simulatedActualWaitTime?: number;    // 模拟播放过程的实际耗时(秒)
+  feedPages?: number;                // 每轮最多请求的首页推荐页数（B站）
 }
 
 export interface MatcherConfig {
   keywords: string[];
   matchMode: 'any' | 'all';
   caseSensitive: boolean;
+  normalizeText?: boolean;           // 匹配前规范化文本（繁简、全半角、标点），默认 true
+  type?: 'keyword' | 'boolean' | 'scoring' | 'semantic'; // 匹配器类型，默认 keyword
+  expression?: string;               // 布尔表达式（type 为 boolean 时使用）
+  // 排除规则，在任何正向匹配之前检查
+  excludeKeywords?: string[];        // 排除关键词
+  blockedAuthors?: string[];         // 屏蔽作者（名称、mid 或频道ID）
+  blockedTags?: string[];            // 屏蔽标签
+  metadataFilter?: MetadataFilterConfig; // 元数据过滤条件
+  scoring?: ScoringConfig;           // 评分配置（type 为 scoring 时使用）
+  fuzzy?: FuzzyMatchConfig;          // 模糊匹配配置，未设置时只做精确匹配
+  semantic?: SemanticConfig;         // 语义相似度配置（type 为 semantic 或 rerank 开启时使用）
+  pipeline?: string[];               // 匹配流水线阶段，如 ['normalize', 'exclusion', 'metadata', 'keyword|semantic', 'rank']，设置后取代 type
+}
+
+export interface SemanticConfig {
+  seedFile?: string;                         // 种子视频文件（VideoInfo JSON 或 watch-history.jsonl）
+  seedLimit?: number;                        // 最多使用的种子视频数（取最新的），默认 200
+  minSimilarity?: number;                    // 视为匹配的最低余弦相似度，默认 0.2
+  mode?: 'centroid' | 'nearest';             // 与种子画像中心比较，或取最相似的单个种子，默认 centroid
+  ngramMin?: number;                         // 字符 n-gram 最小长度，默认 2
+  ngramMax?: number;                         // 字符 n-gram 最大长度，默认 3
+  rerank?: boolean;                          // 作为关键词类匹配器的第二阶段排序
+  weight?: number;                           // 第二阶段排序时相似度的权重，默认 10
+}
+
+export interface FuzzyMatchConfig {
+  maxEditDistance?: number;                  // 允许的最大编辑距离，默认 1
+  pinyin?: boolean;                          // 是否按拼音匹配汉字关键词，默认 true
+  romaji?: boolean;                          // 是否按罗马字匹配假名关键词，默认 true
+  aliases?: Record<string, string[]>;        // 每个关键词的别名列表
+  minConfidence?: number;                    // 模糊匹配的最低置信度，默认 0.6
+}
+
+export type KeywordMatchType = 'exact' | 'alias' | 'pinyin' | 'romaji' | 'fuzzy';
+
+export interface KeywordMatch {
+  keyword: string;                   // 配置中的关键词
+  type: KeywordMatchType;            // 命中方式
+  variant: string;                   // 实际命中的文本形式（别名、拼音、罗马字等）
+  confidence: number;                // 置信度 0-1，精确匹配为 1
+}
+
+export interface ScoringConfig {
+  keywordWeights?: Record<string, number>;   // 关键词权重，默认 1
+  fieldWeights?: Partial<Record<MatchField, number>>; // 命中字段权重
+  authorAffinity?: Record<string, number>;   // 作者偏好加分（作者名称或作者ID）
+  freshnessHalfLifeDays?: number;            // 新鲜度半衰期(天)，默认 7
+  freshnessWeight?: number;                  // 新鲜度最大加分，默认 1
+  minScore?: number;                         // 视为匹配的最低得分
+}
+
+export type MatchField = 'title' | 'tag' | 'author' | 'description';
+
+export interface KeywordHit extends KeywordMatch {
+  field: MatchField;                 // 命中的字段
+}
+
+export interface ScoreComponent {
+  type: 'keyword' | 'author' | 'freshness' | 'semantic';
+  label: string;
+  field?: MatchField;
+  value: number;
+  matchType?: KeywordMatchType;      // 关键词命中方式（仅 keyword 类型）
+  confidence?: number;               // 关键词命中置信度（仅 keyword 类型）
+}
+
+export interface MatchScore {
+  score: number;
+  breakdown: ScoreComponent[];
+}
+
+/**
+ * 匹配引擎的结构化结果
+ * 喂养循环、各播放管理器和观看历史统一使用
+ */
+export interface MatchResult {
+  matched: boolean;                  // 是否匹配
+  keywords: string[];                // 命中的关键词（按配置顺序）
+  hits: KeywordHit[];                // 每个关键词的命中字段、方式和置信度
+  score: number;                     // 评分匹配器为相关度得分，其余为命中置信度之和
+  breakdown: ScoreComponent[];       // 得分明细
+  vetoRule?: string;                 // 否决该视频的排除/元数据规则
+  campaign?: string;                 // 匹配到的投放计划名称（配置了投放计划时）
+}
+
+export interface MetadataFilterConfig {
+  minDuration?: number;              // 最短时长(秒)
+  maxDuration?: number;              // 最长时长(秒)
+  minViews?: number;                 // 最少播放量
+  maxAgeDays?: number;               // 最大发布天数
+  requireThumbnail?: boolean;        // 是否要求有封面
 }
 
 export interface AppConfig {
@@ -65,7 +158,15 @@ export interface AppConfig {
   playerStartDelay?: number;
   
   // 高级配置
-  maxVideosPerSession?: number;
+  maxVideosPerSession?: number;      // 单次会话最多播放的视频数，0 表示不限
+  maxWatchMinutes?: number;          // 单次会话最长观看时长(分钟，模拟播放按模拟时长计)，0 表示不限
+  maxSessionMinutes?: number;        // 单次会话最长运行时间(分钟)，0 表示不限
+  maxEmptyRounds?: number;           // 连续多少轮未找到目标视频后结束会话，0 表示不限
+  drainTimeout?: number;             // 结束会话时等待播放队列完成的最长时间(秒)
+  
+  // 定时调度配置，设置后只在时间窗口内运行喂养会话
+  schedule?: ScheduleConfig;
+  campaigns?: CampaignConfig;
   historyCleanupDays?: number;
   retryAttempts?: number;
   
@@ -73,6 +174,25 @@ export interface AppConfig {
   enableActiveSearch?: boolean;
   activeSearchThreshold?: number;
   activeSearchStrategy?: 'random' | 'sequential' | 'weighted';
+  activeSearchRewardRounds?: number; // weighted 策略：每次搜索后观察的推荐轮数
+  activeSearchExploration?: number;  // weighted 策略：UCB 探索系数
+  
+  // 自适应视频源配置
+  adaptiveVideoSource?: boolean;     // 每轮按各视频源的命中率选择视频源
+  videoSources?: ('home' | 'related' | 'short')[]; // 参与选择的视频源
+  sourceWindow?: number;             // 每个视频源统计最近多少轮
+  sourceExploration?: number;        // 探索概率 0-1
+  
+  // 相关视频链配置
+  relatedChainDepth?: number;        // 从目标视频沿相关视频深入的层数，0 表示关闭
+  relatedChainBreadth?: number;      // 每个视频最多跟进的匹配相关视频数
+  feedSnapshots?: boolean;           // 是否记录每次获取的推荐视频快照（默认开启）
+  
+  // 负反馈配置，设置后对首页推荐中匹配的视频发送"不感兴趣"
+  suppress?: SuppressConfig;
+  
+  // 互动配置，设置后对高分目标视频点赞、收藏或关注UP主
+  engagement?: EngagementConfig;
   
   // 队列管理配置
   maxVideosPerQueue?: number;        // 每次搜索最多添加多少个视频到队列
@@ -93,9 +213,165 @@ export interface PlatformInterface {
   playVideo(video: VideoInfo): Promise<void>;
   cleanup(): Promise<void>;
   switchVideoSource?(source: 'home' | 'related' | 'short'): void;
+  setRelatedSeed?(videoId: string): void; // 设置 related 视频源的种子视频
+  getRelatedVideos?(videoId: string): Promise<VideoInfo[]>; // 获取指定视频的相关视频
+  markNotInterested?(video: VideoInfo): Promise<NotInterestedResult>; // 对首页推荐的视频发送"不感兴趣"反馈
+  likeVideo?(video: VideoInfo): Promise<boolean>;
+  favoriteVideo?(video: VideoInfo, folder: string): Promise<boolean>;
+  followAuthor?(video: VideoInfo): Promise<boolean>;
+  getFeedFreshness?(): FeedFreshness | null; // 最近一次获取首页推荐时的新旧视频统计
+  getFallbackSource?(): 'home' | 'related' | 'short' | null; // 最近一次获取推荐时回退到的视频源，没有回退时为 null
+}
+
+/**
+ * 一轮首页推荐中新视频和重复视频的数量，重复越多说明推荐越停滞
+ */
+export interface FeedFreshness {
+  pages: number;                     // 本轮请求的页数
+  fresh: number;                     // 之前各轮没见过的视频数
+  repeats: number;                   // 之前各轮已经见过的视频数
+}
+
+/**
+ * "不感兴趣"反馈的结果：not_found 表示视频不在平台当前的推荐中，反馈没有发送出去
+ */
+export type NotInterestedResult = 'success' | 'failed' | 'not_found';
+
+/**
+ * 互动操作类型
+ */
+export type EngagementAction = 'like' | 'favorite' | 'follow';
+
+/**
+ * 可以执行互动操作的对象（平台或模拟播放器）
+ */
+export type EngagementActor = Pick<PlatformInterface, 'likeVideo' | 'favoriteVideo' | 'followAuthor'>;
+
+/**
+ * 模拟播放器：不打开浏览器，只发送播放相关的请求让平台认为视频被观看
+ */
+export interface PlaybackSimulator extends EngagementActor {
+  /**
+   * @param simulatedDuration 告诉平台观看了多久(秒)
+   * @param actualWaitTime 实际花费的时间(秒)，未指定时按播放速度计算
+   * @param source 视频来源，决定请求的 Referer
+   * @returns 实际模拟的观看时长(秒)，失败时为 0
+   */
+  simulatePlayback(video: VideoInfo, simulatedDuration?: number, actualWaitTime?: number, source?: 'home' | 'search' | 'related' | 'short'): Promise<number>;
+}
+
+/**
+ * 互动配置：观看得分达到阈值的目标视频后执行的操作
+ */
+export interface EngagementConfig {
+  actions: EngagementAction[];       // 启用的操作
+  minScore: number;                  // 触发互动的最低匹配得分
+  favoriteFolder?: string;           // 收藏夹（YouTube 为播放列表）名称
+  dailyLimits: Record<EngagementAction, number>; // 每种操作每天的上限
+  dryRun?: boolean;                  // 只预览并记录将要执行的操作，不实际执行
+}
+
+/**
+ * 负反馈规则：首页推荐中匹配的视频会被标记为"不感兴趣"，用于把不想要的主题挤出推荐
+ */
+export interface SuppressConfig {
+  keywords: string[];                // 命中任一关键词（标题、标签、简介）即标记
+  authors?: string[];                // 作者名称、mid 或频道ID
+  dailyLimit: number;                // 每天最多标记的视频数
+}
+
+/**
+ * 相关视频链中的位置
+ */
+export interface RelatedChainLink {
+  seedVideoId: string;               // 链起点的目标视频ID
+  depth: number;                     // 距起点的层数，从 1 开始
 }
 
 export interface MatcherInterface {
   match(video: VideoInfo): boolean;
   configure(config: MatcherConfig): void;
-}
\ No newline at end of file
+  evaluate(video: VideoInfo): MatchResult;
+  score?(video: VideoInfo): MatchScore;
+  getVetoRule?(video: VideoInfo): string | null; // 自行处理排除/元数据阶段的匹配器（如匹配流水线）
+}
+
+/**
+ * 投放计划配置（CAMPAIGN_FILE 指定的 JSON 文件）
+ * 同一账号同时喂养多个兴趣时，按各计划已获得的观看时长进行轮换或平衡
+ */
+export interface CampaignConfig {
+  strategy?: 'balance' | 'rotate';   // balance: 优先占比最落后的计划（默认）；rotate: 按轮次轮换，跳过已达到目标占比的计划
+  lookbackDays?: number;             // 统计观看时长的天数，默认 7，0 表示全部历史
+  campaigns: CampaignProfile[];
+}
+
+/**
+ * 单个投放计划
+ */
+export interface CampaignProfile {
+  name: string;
+  keywords: string[];                // 该计划的目标关键词
+  expression?: string;               // 布尔表达式（匹配器类型为 boolean 时使用）
+  matcher?: Partial<MatcherConfig>;  // 覆盖全局匹配器设置，如 type、fuzzy、scoring、semantic
+  targetShare?: number;              // 目标观看时长占比，按所有计划合计归一化，默认平均分配
+  searchKeywords?: string[];         // 主动搜索关键词，默认使用 keywords
+}
+
+/**
+ * 定时调度配置（SCHEDULE_FILE 指定的 JSON 文件）
+ */
+export interface ScheduleConfig {
+  timezone?: string;                 // IANA 时区，如 Asia/Shanghai，默认系统时区
+  dailyVideoBudget?: number;         // 每日最多播放的视频数（按时区内的日期计），0 表示不限
+  checkInterval?: number;            // 窗口外的检查间隔及会话重新开始前的等待(秒)，默认 60
+  stateFile?: string;                // 调度状态文件，默认 history/schedule-state.json
+  windows: ScheduleWindow[];
+}
+
+/**
+ * 运行时间窗口
+ * 结束时间早于或等于开始时间时跨越午夜，如 19:00-01:00 属于开始当天
+ */
+export interface ScheduleWindow {
+  name: string;
+  days?: string[];                   // mon..sun，或 weekdays / weekends / everyday，默认每天
+  start: string;                     // 开始时间 HH:MM
+  end: string;                       // 结束时间 HH:MM
+  keywords?: string[];               // 窗口内使用的关键词，默认沿用全局配置
+  expression?: string;               // 窗口内使用的布尔表达式（布尔匹配器）
+  maxVideos?: number;                // 单个窗口最多播放的视频数
+}
+
+/**
+ * 会话结束原因
+ */
+export type SessionStopReason =
+  | 'max-rounds'                     // 达到 BROWSE_COUNT 轮数
+  | 'max-videos'                     // 达到 MAX_VIDEOS_PER_SESSION 视频数
+  | 'max-watch-time'                 // 达到 MAX_WATCH_MINUTES 观看时长
+  | 'max-duration'                   // 达到 MAX_SESSION_MINUTES 运行时间
+  | 'empty-rounds'                   // 连续 MAX_EMPTY_ROUNDS 轮未找到目标视频
+  | 'manual'                         // 收到退出信号或被外部停止
+  | 'error';                         // 运行出错
+
+/**
+ * 会话进度（由观看历史实时累计）
+ */
+export interface SessionProgress {
+  videos: number;                    // 已播放视频数
+  watchSeconds: number;              // 累计观看时长(秒)，模拟播放按模拟时长计
+}
+
+/**
+ * 会话结束摘要
+ */
+export interface SessionSummary extends SessionProgress {
+  sessionId: string;
+  reason: SessionStopReason;
+  startTime: string;                 // ISO时间戳
+  endTime: string;                   // ISO时间戳
+  rounds: number;                    // 完成的搜索轮数
+  emptyRounds: number;               // 结束时连续未找到目标视频的轮数
+  drained: boolean;                  // 播放队列是否在超时前处理完成
+}
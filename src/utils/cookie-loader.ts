@@ -187,7 +187,7 @@ export class CookieLoader {
    * 验证Twitch Cookie
    */
   private static validateTwitchCookie(cookie: string): boolean {
-    // Twitch的关键Cookie字段（未来实现）
+    // Twitch的关键Cookie字段（auth-token 用于 GQL 接口的登录状态）
     const requiredFields = ['auth-token', 'persistent'];
     const hasRequired = requiredFields.some(field => 
       cookie.includes(`${field}=`)
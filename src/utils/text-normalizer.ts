@@ -0,0 +1,78 @@
+import { TRADITIONAL_CHARS, SIMPLIFIED_CHARS } from './data/t2s-table.js';
+
+/**
+ * 文本规范化选项
+ */
+export interface NormalizeOptions {
+  caseSensitive?: boolean;     // 是否保留大小写
+  foldTraditional?: boolean;   // 是否将繁体折叠为简体，默认 true
+  stripPunctuation?: boolean;  // 是否去除空白和标点，默认 true
+}
+
+let traditionalToSimplified: Map<string, string> | null = null;
+
+/**
+ * 规范化文本，供所有匹配逻辑共用
+ * 依次执行：Unicode NFKC → 全角转半角 → 繁体转简体 → 去除空白和标点 → 大小写折叠
+ */
+export function normalizeText(text: string, options: NormalizeOptions = {}): string {
+  let result = toHalfWidth(text.normalize('NFKC'));
+
+  if (options.foldTraditional !== false) {
+    result = toSimplified(result);
+  }
+
+  if (options.stripPunctuation !== false) {
+    const stripped = result.replace(/[\s\p{P}]+/gu, '');
+    // 全部由标点组成的文本（如 "!!!"）保留原样，避免得到空串后误匹配所有内容
+    result = stripped || result.trim();
+  }
+
+  return options.caseSensitive ? result : result.toLowerCase();
+}
+
+/**
+ * 按匹配配置规范化文本
+ * 关闭规范化时仅按配置处理大小写，与旧版行为一致
+ */
+export function normalizeForMatching(
+  text: string,
+  config: { caseSensitive: boolean; normalizeText?: boolean }
+): string {
+  if (config.normalizeText === false) {
+    return config.caseSensitive ? text : text.toLowerCase();
+  }
+  return normalizeText(text, { caseSensitive: config.caseSensitive });
+}
+
+/**
+ * 全角字符转半角（包括全角空格）
+ */
+export function toHalfWidth(text: string): string {
+  return text.replace(/[\uFF01-\uFF5E\u3000]/g, char => {
+    const code = char.charCodeAt(0);
+    return code === 0x3000 ? ' ' : String.fromCharCode(code - 0xFEE0);
+  });
+}
+
+/**
+ * 繁体字转简体字（基于内置的离线映射表）
+ */
+export function toSimplified(text: string): string {
+  const table = getTraditionalTable();
+  let result = '';
+  for (const char of text) {
+    result += table.get(char) ?? char;
+  }
+  return result;
+}
+
+function getTraditionalTable(): Map<string, string> {
+  if (!traditionalToSimplified) {
+    traditionalToSimplified = new Map();
+    for (let i = 0; i < TRADITIONAL_CHARS.length; i++) {
+      traditionalToSimplified.set(TRADITIONAL_CHARS[i], SIMPLIFIED_CHARS[i]);
+    }
+  }
+  return traditionalToSimplified;
+}
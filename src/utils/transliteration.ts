@@ -0,0 +1,162 @@
+import { PINYIN_SYLLABLES } from './data/pinyin-table.js';
+
+/**
+ * 平假名 → 罗马字（平文式），片假名先转换为平假名再查表
+ */
+const KANA_ROMAJI: Record<string, string> = {
+  'あ': 'a', 'い': 'i', 'う': 'u', 'え': 'e', 'お': 'o',
+  'か': 'ka', 'き': 'ki', 'く': 'ku', 'け': 'ke', 'こ': 'ko',
+  'さ': 'sa', 'し': 'shi', 'す': 'su', 'せ': 'se', 'そ': 'so',
+  'た': 'ta', 'ち': 'chi', 'つ': 'tsu', 'て': 'te', 'と': 'to',
+  'な': 'na', 'に': 'ni', 'ぬ': 'nu', 'ね': 'ne', 'の': 'no',
+  'は': 'ha', 'ひ': 'hi', 'ふ': 'fu', 'へ': 'he', 'ほ': 'ho',
+  'ま': 'ma', 'み': 'mi', 'む': 'mu', 'め': 'me', 'も': 'mo',
+  'や': 'ya', 'ゆ': 'yu', 'よ': 'yo',
+  'ら': 'ra', 'り': 'ri', 'る': 'ru', 'れ': 're', 'ろ': 'ro',
+  'わ': 'wa', 'ゐ': 'i', 'ゑ': 'e', 'を': 'o', 'ん': 'n',
+  'が': 'ga', 'ぎ': 'gi', 'ぐ': 'gu', 'げ': 'ge', 'ご': 'go',
+  'ざ': 'za', 'じ': 'ji', 'ず': 'zu', 'ぜ': 'ze', 'ぞ': 'zo',
+  'だ': 'da', 'ぢ': 'ji', 'づ': 'zu', 'で': 'de', 'ど': 'do',
+  'ば': 'ba', 'び': 'bi', 'ぶ': 'bu', 'べ': 'be', 'ぼ': 'bo',
+  'ぱ': 'pa', 'ぴ': 'pi', 'ぷ': 'pu', 'ぺ': 'pe', 'ぽ': 'po',
+  'ゔ': 'vu',
+  'ぁ': 'a', 'ぃ': 'i', 'ぅ': 'u', 'ぇ': 'e', 'ぉ': 'o',
+  'ゃ': 'ya', 'ゅ': 'yu', 'ょ': 'yo', 'ゎ': 'wa'
+};
+
+/**
+ * 拗音（子音 + 小写 ゃゅょ 等）的特殊写法
+ */
+const KANA_DIGRAPHS: Record<string, string> = {
+  'しゃ': 'sha', 'しゅ': 'shu', 'しょ': 'sho', 'しぇ': 'she',
+  'ちゃ': 'cha', 'ちゅ': 'chu', 'ちょ': 'cho', 'ちぇ': 'che',
+  'じゃ': 'ja', 'じゅ': 'ju', 'じょ': 'jo', 'じぇ': 'je',
+  'ぢゃ': 'ja', 'ぢゅ': 'ju', 'ぢょ': 'jo',
+  'ふぁ': 'fa', 'ふぃ': 'fi', 'ふぇ': 'fe', 'ふぉ': 'fo',
+  'てぃ': 'ti', 'でぃ': 'di', 'とぅ': 'tu', 'どぅ': 'du',
+  'うぃ': 'wi', 'うぇ': 'we', 'うぉ': 'wo',
+  'ゔぁ': 'va', 'ゔぃ': 'vi', 'ゔぇ': 've', 'ゔぉ': 'vo'
+};
+
+const SMALL_Y = new Set(['ゃ', 'ゅ', 'ょ']);
+
+let pinyinLookup: Map<string, string> | null = null;
+
+/**
+ * 是否包含汉字
+ */
+export function containsHan(text: string): boolean {
+  return /\p{Script=Han}/u.test(text);
+}
+
+/**
+ * 是否包含平假名或片假名
+ */
+export function containsKana(text: string): boolean {
+  return /[ぁ-ゖァ-ヺ]/.test(text);
+}
+
+/**
+ * 将文本中的汉字转换为全拼（不带声调、不加分隔），其他字符原样保留
+ * 例如 "mygo乐队" → "mygoledui"
+ */
+export function toPinyin(text: string): string {
+  const table = getPinyinLookup();
+  let result = '';
+  for (const char of text) {
+    result += table.get(char) ?? char;
+  }
+  return result;
+}
+
+/**
+ * 将文本按音节切分：每个汉字对应一个拼音音节，其他字符各自成为一段
+ * 例如 "mygo乐队" → ["m", "y", "g", "o", "le", "dui"]
+ */
+export function toPinyinSyllables(text: string): string[] {
+  const table = getPinyinLookup();
+  return [...text].map(char => table.get(char) ?? char);
+}
+
+/**
+ * 将文本中的汉字转换为拼音首字母，其他字符原样保留
+ * 例如 "乐队" → "ld"
+ */
+export function toPinyinInitials(text: string): string {
+  const table = getPinyinLookup();
+  let result = '';
+  for (const char of text) {
+    const syllable = table.get(char);
+    result += syllable ? syllable[0] : char;
+  }
+  return result;
+}
+
+/**
+ * 将文本中的假名转换为罗马字，其他字符原样保留
+ * 促音（っ）重复下一个子音，长音符（ー）省略
+ * 例如 "バンドリ" → "bandori"
+ */
+export function kanaToRomaji(text: string): string {
+  const chars = [...toHiragana(text)];
+  let result = '';
+  let geminate = false;
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const next = chars[i + 1];
+
+    if (char === 'っ') {
+      geminate = true;
+      continue;
+    }
+    if (char === 'ー') {
+      continue;
+    }
+
+    let romaji: string | undefined;
+    if (next && KANA_DIGRAPHS[char + next]) {
+      romaji = KANA_DIGRAPHS[char + next];
+      i++;
+    } else if (next && SMALL_Y.has(next) && KANA_ROMAJI[char]?.endsWith('i')) {
+      // きゃ → kya, にょ → nyo
+      romaji = KANA_ROMAJI[char].slice(0, -1) + KANA_ROMAJI[next];
+      i++;
+    } else {
+      romaji = KANA_ROMAJI[char];
+    }
+
+    if (romaji === undefined) {
+      result += char;
+      geminate = false;
+      continue;
+    }
+
+    if (geminate) {
+      result += romaji.startsWith('ch') ? 't' : romaji[0];
+      geminate = false;
+    }
+    result += romaji;
+  }
+
+  return result;
+}
+
+/**
+ * 片假名转平假名
+ */
+function toHiragana(text: string): string {
+  return text.replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60));
+}
+
+function getPinyinLookup(): Map<string, string> {
+  if (!pinyinLookup) {
+    pinyinLookup = new Map();
+    for (const [syllable, chars] of Object.entries(PINYIN_SYLLABLES)) {
+      for (const char of chars) {
+        pinyinLookup.set(char, syllable);
+      }
+    }
+  }
+  return pinyinLookup;
+}
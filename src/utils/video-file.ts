@@ -0,0 +1,45 @@
+import { readFileSync } from 'fs';
+import { VideoInfo } from '../types/index.js';
+
+/**
+ * 从本地文件读取视频列表
+ * 支持：
+ *   - JSONL（如 watch-history.jsonl，每行一个观看记录、VideoInfo 或推荐快照）
+ *   - JSON（单个 VideoInfo、VideoInfo 数组，或 { "videos": [...] } 形式的推荐快照）
+ * 条目可以是 VideoInfo 本身，也可以是带 video 字段的记录；缺少 id 或 title 的条目会被忽略
+ */
+export function readVideoFile(filePath: string): VideoInfo[] {
+  const content = readFileSync(filePath, 'utf-8');
+
+  let entries: any[];
+  if (filePath.endsWith('.jsonl')) {
+    entries = content
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => {
+        try {
+          return JSON.parse(line);
+        } catch (parseError) {
+          // 跳过损坏的记录
+          return null;
+        }
+      });
+  } else {
+    const data = JSON.parse(content);
+    entries = Array.isArray(data) ? data : [data];
+  }
+
+  return extractVideos(entries);
+}
+
+/**
+ * 展开推荐快照中的 videos 数组，并取出记录中的 video 字段
+ */
+function extractVideos(entries: any[]): VideoInfo[] {
+  return entries
+    .flatMap(entry => (entry && Array.isArray(entry.videos) ? entry.videos : [entry]))
+    .map(entry => (entry && entry.video ? entry.video : entry))
+    .filter((video): video is VideoInfo =>
+      !!video && typeof video.id === 'string' && typeof video.title === 'string'
+    );
+}
@@ -0,0 +1,148 @@
+/**
+ * 指定时区内的日期时间
+ */
+export interface ZonedParts {
+  year: number;
+  month: number;                     // 1-12
+  day: number;
+  weekday: number;                   // 0=周日 ... 6=周六
+  minutes: number;                   // 当天已过去的分钟数
+  date: string;                      // YYYY-MM-DD
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const DAY_ALIASES: Record<string, number[]> = {
+  weekdays: [1, 2, 3, 4, 5],
+  weekends: [0, 6],
+  everyday: [0, 1, 2, 3, 4, 5, 6]
+};
+
+/**
+ * 检查时区名称是否有效
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * 获取某一时刻在指定时区内的日期时间
+ * @param timeZone IANA 时区，未指定时使用系统时区
+ */
+export function getZonedParts(date: Date, timeZone?: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short'
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find(part => part.type === type)?.value || '';
+  const year = parseInt(get('year'));
+  const month = parseInt(get('month'));
+  const day = parseInt(get('day'));
+
+  return {
+    year,
+    month,
+    day,
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+    minutes: parseInt(get('hour')) * 60 + parseInt(get('minute')),
+    date: formatDate(year, month, day)
+  };
+}
+
+/**
+ * 将指定时区内的日期和时刻转换为 Date
+ * @param dayOffset 在给定日期基础上偏移的天数
+ * @param minutes 当天的分钟数
+ */
+export function zonedTimeToDate(
+  parts: Pick<ZonedParts, 'year' | 'month' | 'day'>,
+  dayOffset: number,
+  minutes: number,
+  timeZone?: string
+): Date {
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day + dayOffset, 0, minutes);
+
+  // 先按猜测的偏移换算，再用换算结果处的偏移修正一次（处理夏令时切换）
+  let utc = local - getOffset(new Date(local), timeZone);
+  utc = local - getOffset(new Date(utc), timeZone);
+  return new Date(utc);
+}
+
+/**
+ * 在指定时区内偏移若干天后的日期
+ */
+export function shiftDate(parts: Pick<ZonedParts, 'year' | 'month' | 'day'>, dayOffset: number): { date: string; weekday: number } {
+  const shifted = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + dayOffset));
+  return {
+    date: formatDate(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate()),
+    weekday: shifted.getUTCDay()
+  };
+}
+
+/**
+ * 解析 HH:MM 格式的时刻，返回当天的分钟数，格式无效时返回 null
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const hour = parseInt(match[1]);
+  const minute = parseInt(match[2]);
+  if (hour > 24 || minute > 59 || (hour === 24 && minute > 0)) {
+    return null;
+  }
+  return hour * 60 + minute;
+}
+
+/**
+ * 解析星期设置，返回 0(周日)-6(周六) 列表，未设置时为每天，无效时返回 null
+ * 支持 mon / monday 等写法以及 weekdays / weekends / everyday
+ */
+export function parseWeekdays(days?: string[]): number[] | null {
+  if (!days || days.length === 0) {
+    return DAY_ALIASES.everyday;
+  }
+
+  const result = new Set<number>();
+  for (const day of days) {
+    const name = day.trim().toLowerCase();
+    const index = DAY_NAMES.findIndex(full => name.length >= 3 && full.startsWith(name));
+    if (DAY_ALIASES[name]) {
+      DAY_ALIASES[name].forEach(d => result.add(d));
+    } else if (index >= 0) {
+      result.add(index);
+    } else {
+      return null;
+    }
+  }
+  return Array.from(result);
+}
+
+/**
+ * 时区相对 UTC 的偏移（毫秒）
+ */
+function getOffset(date: Date, timeZone?: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, 0, parts.minutes);
+  const actual = Math.floor(date.getTime() / 60000) * 60000;
+  return asUtc - actual;
+}
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
@@ -1,5 +1,9 @@
+import { writeFileSync } from 'fs';
 import { HistoryService } from './services/history-service.js';
+import { SearchKeywordBandit } from './services/search-bandit.js';
+import { FeedSnapshotService } from './services/feed-snapshot-service.js';
 import { logger } from './core/logger.js';
+import { VideoInfo } from './types/index.js';
 
 /**
  * 历史记录查看工具
@@ -82,6 +86,96 @@ async function main() {
       console.log(`✅ 清理完成，保留最近 ${daysToKeep} 天的记录`);
       break;
       
+    case 'export-seeds': {
+      // 导出最近观看的视频作为语义匹配的种子文件
+      const seedFile = args[1];
+      if (!seedFile) {
+        console.log('请提供输出文件: npm run view-history export-seeds seeds.json [数量]');
+        break;
+      }
+
+      const seedCount = parseInt(args[2]) || 200;
+      const seeds = new Map<string, VideoInfo>();
+      historyService.getRecentHistory(seedCount).forEach(record => seeds.set(record.video.id, record.video));
+      writeFileSync(seedFile, JSON.stringify(Array.from(seeds.values()), null, 2), 'utf-8');
+      console.log(`✅ 已导出 ${seeds.size} 个种子视频到 ${seedFile}`);
+      break;
+    }
+
+    case 'search-stats': {
+      // 显示 weighted 主动搜索策略的关键词统计
+      const platform = args[1] || process.env.PLATFORM || 'bilibili';
+      const keywordStats = Object.entries(new SearchKeywordBandit(platform).getStats())
+        .sort(([, a], [, b]) => b.searches - a.searches);
+
+      console.log(`🎰 ${platform} 主动搜索关键词效果 (${keywordStats.length} 个):`);
+      console.log('='.repeat(50));
+
+      if (keywordStats.length === 0) {
+        console.log('暂无主动搜索统计');
+      } else {
+        keywordStats.forEach(([keyword, stats]) => {
+          const mean = stats.searches > 0 ? `${(stats.reward / stats.searches * 100).toFixed(0)}%` : '-';
+          const last = stats.lastSearched ? new Date(stats.lastSearched).toLocaleString('zh-CN') : '-';
+          console.log(`${keyword}: 搜索 ${stats.searches} 次, 平均命中率 ${mean}, 最近搜索 ${last}`);
+        });
+      }
+      break;
+    }
+
+    case 'chains': {
+      // 按起点汇总相关视频链
+      const chains = historyService.getChainStats();
+      console.log(`🔗 相关视频链 (${chains.length} 条):`);
+      console.log('='.repeat(50));
+
+      if (chains.length === 0) {
+        console.log('暂无相关视频链记录');
+      } else {
+        chains.slice(0, parseInt(args[1]) || 20).forEach((chain, index) => {
+          console.log(`${index + 1}. ${chain.seedTitle || chain.seedVideoId}`);
+          console.log(`   起点: ${chain.seedVideoId}, 播放 ${chain.videos} 个视频, 最深 ${chain.maxDepth} 层, 观看 ${(chain.watchSeconds / 60).toFixed(1)} 分钟`);
+          console.log(`   最近: ${new Date(chain.lastWatched).toLocaleString('zh-CN')}`);
+          console.log('');
+        });
+      }
+      break;
+    }
+
+    case 'alignment': {
+      // 按天/周统计推荐中目标视频的占比
+      const granularity = args[1] === 'week' ? 'week' : 'day';
+      const periods = parseInt(args[2]) || (granularity === 'week' ? 8 : 14);
+      const snapshotPlatform = args[3] || process.env.PLATFORM || 'bilibili';
+      console.log(new FeedSnapshotService(snapshotPlatform).generateAlignmentReport(granularity, periods));
+      break;
+    }
+
+    case 'actions': {
+      // 显示最近的反馈和互动操作（不感兴趣、点赞、收藏、关注）
+      const actionPlatform = args[2] || process.env.PLATFORM || 'bilibili';
+      const actionService = new HistoryService(actionPlatform);
+      const actions = actionService.getRecentActions(parseInt(args[1]) || 20);
+
+      const todayCounts = (['not_interested', 'like', 'favorite', 'follow'] as const)
+        .map(type => `${type} ${actionService.getTodayActionCount(type)}`)
+        .join(', ');
+      console.log(`🚫 ${actionPlatform} 最近的反馈和互动操作 (今日: ${todayCounts}):`);
+      console.log('='.repeat(50));
+
+      if (actions.length === 0) {
+        console.log('暂无反馈操作记录');
+      } else {
+        actions.forEach((action, index) => {
+          console.log(`${index + 1}. [${action.type}]${action.dryRun ? ' [预演]' : ''} ${action.video.title} ${action.success ? '✅' : '❌'}`);
+          console.log(`   作者: ${action.video.author}, 规则: ${action.reason}${action.detail ? `, 收藏夹: ${action.detail}` : ''}`);
+          console.log(`   时间: ${new Date(action.timestamp).toLocaleString('zh-CN')}`);
+          console.log('');
+        });
+      }
+      break;
+    }
+
     case 'help':
     default:
       console.log('📖 历史记录查看工具使用说明:');
@@ -92,7 +186,12 @@ async function main() {
       console.log('  stats              显示统计报告 (默认)');
       console.log('  recent [数量]      显示最近的观看记录 (默认10条)');
       console.log('  search <关键词>    搜索历史记录');
-      console.log('  cleanup [天数]     清理旧记录，保留指定天数 (默认30天)');
+      console.log('  cleanup [天数]     清理旧记录和推荐快照，保留指定天数 (默认30天)');
+      console.log('  export-seeds <文件> [数量]  导出最近观看的视频作为语义匹配种子 (默认200条)');
+      console.log('  search-stats [平台]  显示主动搜索关键词的效果统计 (weighted 策略)');
+      console.log('  chains [数量]      按起点汇总相关视频链 (默认20条)');
+      console.log('  actions [数量] [平台]  显示最近的反馈和互动操作记录 (不感兴趣、点赞、收藏、关注)');
+      console.log('  alignment [day|week] [周期数] [平台]  显示推荐对齐度（推荐中目标视频的占比）的变化');
       console.log('  help               显示此帮助信息');
       console.log('');
       console.log('示例:');
@@ -100,6 +199,8 @@ async function main() {
       console.log('  npm run view-history recent 20');
       console.log('  npm run view-history search "mujica"');
       console.log('  npm run view-history cleanup 7');
+      console.log('  npm run view-history export-seeds seeds.json 100');
+      console.log('  npm run view-history alignment week 8');
       break;
   }
 }
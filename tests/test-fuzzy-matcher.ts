@@ -0,0 +1,114 @@
+import assert from 'assert/strict';
+import { FuzzyMatcher, substringEditDistance } from '../src/matchers/fuzzy-matcher.js';
+import { KeywordMatcher } from '../src/matchers/keyword-matcher.js';
+import { normalizeForMatching } from '../src/utils/text-normalizer.js';
+import { toPinyinSyllables } from '../src/utils/transliteration.js';
+import { MatcherConfig, VideoInfo } from '../src/types/index.js';
+import { logger } from '../src/core/logger.js';
+
+/**
+ * 模糊关键词匹配离线测试脚本
+ * 检查别名、拼音、罗马字和编辑距离的命中方式与置信度，以及短关键词的误匹配
+ */
+const config: MatcherConfig = {
+  keywords: [],
+  matchMode: 'any',
+  caseSensitive: false,
+  fuzzy: { aliases: { 'bang dream': ['邦邦'] } }
+};
+
+function find(keyword: string, title: string, overrides: Partial<MatcherConfig> = {}) {
+  const merged = { ...config, ...overrides };
+  return new FuzzyMatcher(merged).find(keyword, [normalizeForMatching(title, merged)]);
+}
+
+function video(title: string): VideoInfo {
+  return { id: 'BV1xx411c7mD', title, author: 'test', url: 'https://www.bilibili.com/video/BV1xx411c7mD', tags: [] };
+}
+
+const tests: Array<[string, () => Promise<void>]> = [];
+function test(name: string, fn: () => Promise<void>) {
+  tests.push([name, fn]);
+}
+
+test('精确命中优先，置信度为 1', async () => {
+  assert.deepEqual(find('mygo', 'MyGO!!!!! 第3话'), { keyword: 'mygo', type: 'exact', variant: 'mygo', confidence: 1 });
+});
+
+test('别名命中', async () => {
+  const match = find('bang dream', '邦邦 新活动');
+  assert.equal(match?.type, 'alias');
+  assert.equal(match?.confidence, 0.95);
+});
+
+test('汉字关键词按拼音和拼音首字母匹配', async () => {
+  assert.equal(find('乐队', 'ledui live')?.type, 'pinyin');
+  assert.equal(find('乐队', 'ledui live')?.confidence, 0.9);
+  assert.equal(find('迷子乐队', 'mzld 合集')?.confidence, 0.7);
+});
+
+test('拉丁字母关键词反向匹配中文标题的拼音', async () => {
+  const match = find('ledui', '学生乐队的一天');
+  assert.equal(match?.type, 'pinyin');
+  assert.equal(match?.variant, 'ledui');
+});
+
+test('短的拉丁字母关键词不反向匹配拼音："AI" 不命中 "我爱你中国"', async () => {
+  assert.equal(find('AI', '我爱你中国'), null);
+  assert.equal(new KeywordMatcher({ ...config, keywords: ['AI'] }).match(video('我爱你中国')), false);
+  // 关闭模糊匹配时同样不命中
+  assert.equal(find('AI', '我爱你中国', { fuzzy: undefined }), null);
+});
+
+test('反向匹配拼音必须落在音节边界上', async () => {
+  // "中国" 的拼音 zhongguo 中包含 "ongg"，但不是完整音节
+  assert.deepEqual(toPinyinSyllables('中国ok'), ['zhong', 'guo', 'o', 'k']);
+  assert.equal(find('ongg', '我爱你中国'), null);
+  assert.equal(find('aini', '我爱你中国')?.type, 'pinyin');
+  assert.equal(find('zhongguo', '我爱你中国')?.type, 'pinyin');
+});
+
+test('假名关键词按罗马字匹配', async () => {
+  const match = find('バンドリ', 'bandori 5th live');
+  assert.equal(match?.type, 'romaji');
+});
+
+test('编辑距离容忍拼写错误，置信度按距离降低', async () => {
+  const match = find('mujica', 'ave mujika 第1话');
+  assert.equal(match?.type, 'fuzzy');
+  assert.equal(match?.confidence, 0.83);
+  // 短于 4 个字符的关键词必须精确匹配
+  assert.equal(find('ave', 'axe mujica'), null);
+});
+
+test('低于最低置信度的命中被忽略', async () => {
+  assert.equal(find('乐队', 'mzld', { fuzzy: { minConfidence: 0.8 } }), null);
+});
+
+test('子串编辑距离', async () => {
+  assert.equal(substringEditDistance('mujica', 'ave mujica'), 0);
+  assert.equal(substringEditDistance('mujica', 'ave mujika'), 1);
+  assert.equal(substringEditDistance('mujica', 'nothing here', 1), 2);
+});
+
+async function runTests() {
+  logger.setLevel('error');
+
+  let failed = 0;
+  for (const [name, fn] of tests) {
+    try {
+      await fn();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`❌ ${name}`);
+      console.log(error);
+    }
+  }
+
+  console.log('');
+  console.log(`${tests.length - failed}/${tests.length} 通过`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runTests();
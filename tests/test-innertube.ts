@@ -0,0 +1,274 @@
+import assert from 'assert/strict';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { InnerTubeClient, InnerTubeFetcher, extractYtConfig } from '../src/platforms/youtube/innertube-client.js';
+import {
+  parseInnerTubeResponse,
+  parseVideoRenderer,
+  parseCompactVideoRenderer,
+  parseLockupViewModel,
+  parseReelItemRenderer,
+  parseShortsLockupViewModel,
+  parseContinuationItemRenderer,
+  parseDuration,
+  parseViewCount
+} from '../src/platforms/youtube/innertube-parser.js';
+import { logger } from '../src/core/logger.js';
+
+/**
+ * YouTube InnerTube 离线测试脚本
+ * 用 tests/fixtures/youtube 下录制的响应代替网络请求，检查各渲染器的解析结果和翻页
+ */
+const fixtureDir = join(dirname(fileURLToPath(import.meta.url)), 'fixtures', 'youtube');
+
+// 按 browseId / continuation token / 接口名返回录制的响应
+const fixtures: Record<string, string> = {
+  FEwhat_to_watch: 'browse-home.json',
+  'home-page-2': 'browse-home-continuation.json',
+  FEhistory: 'browse-history.json',
+  next: 'next.json',
+  'related-page-2': 'next-continuation.json',
+  search: 'search.json',
+  'search-page-2': 'search-continuation.json'
+};
+
+const requests: Array<{ url: string; method: string; headers: Record<string, string>; body: any }> = [];
+
+function readFixture(file: string): string {
+  return readFileSync(join(fixtureDir, file), 'utf-8');
+}
+
+function loadFixture(file: string): any {
+  return JSON.parse(readFixture(file));
+}
+
+const fetcher: InnerTubeFetcher = async (url, init) => {
+  const body = init.body ? JSON.parse(init.body) : undefined;
+  requests.push({ url, method: init.method, headers: init.headers, body });
+
+  if (init.method === 'GET') {
+    return { text: async () => readFixture('home.html') };
+  }
+  const endpoint = new URL(url).pathname.split('/').pop()!;
+  const file = fixtures[body.continuation || body.browseId || endpoint] || 'error.json';
+  return { text: async () => readFixture(file) };
+};
+
+function createClient(cookies: string = 'SAPISID=sapisid-value; HSID=abc'): InnerTubeClient {
+  requests.length = 0;
+  return new InnerTubeClient(cookies, 'Mozilla/5.0 Test', fetcher);
+}
+
+const tests: Array<[string, () => Promise<void>]> = [];
+function test(name: string, fn: () => Promise<void>) {
+  tests.push([name, fn]);
+}
+
+test('合并页面中所有 ytcfg.set 对象，字符串中的括号不影响解析', async () => {
+  const ytcfg = extractYtConfig(readFixture('home.html'));
+  assert.equal(ytcfg.CLIENT_CANARY_STATE, 'none');
+  assert.equal(ytcfg.INNERTUBE_API_KEY, 'AIzaSyTestInnerTubeKey');
+  assert.equal(ytcfg.INNERTUBE_CONTEXT.client.clientVersion, '2.20261015.00.00');
+  assert.equal(ytcfg.SBOX_LABELS.SUGGESTION_DISMISSED_LABEL, '已移除"}" 建议');
+  assert.deepEqual(extractYtConfig('<html></html>'), {});
+});
+
+test('videoRenderer: 多段标题、频道ID、时长、播放量', async () => {
+  const renderer = loadFixture('browse-home.json').contents.twoColumnBrowseResultsRenderer.tabs[0]
+    .tabRenderer.content.richGridRenderer.contents[0].richItemRenderer.content.videoRenderer;
+  assert.deepEqual(parseVideoRenderer(renderer), {
+    id: 'hv1aaaaaaaa',
+    title: '【原神】新版本剧情全流程',
+    author: '游戏剧情站',
+    authorId: 'UCgameStory001',
+    duration: 3723,
+    url: 'https://www.youtube.com/watch?v=hv1aaaaaaaa',
+    platform: 'youtube',
+    description: '第一章到第三章',
+    tags: [],
+    viewCount: 123456,
+    publishTime: '3天前',
+    thumbnail: 'https://i.ytimg.com/vi/hv1aaaaaaaa/hqdefault.jpg'
+  });
+  assert.equal(parseVideoRenderer({ videoId: 'x' }), null);
+});
+
+test('videoRenderer: 搜索结果的描述片段在 detailedMetadataSnippets 中', async () => {
+  const renderer = loadFixture('search.json').contents.twoColumnSearchResultsRenderer.primaryContents
+    .sectionListRenderer.contents[0].itemSectionRenderer.contents[1].videoRenderer;
+  const video = parseVideoRenderer(renderer)!;
+  assert.equal(video.title, '原神 剧情解析');
+  assert.equal(video.description, '提瓦特的历史');
+  assert.equal(video.viewCount, 1234567);
+});
+
+test('compactVideoRenderer: 播放页相关视频', async () => {
+  const renderer = loadFixture('next.json').contents.twoColumnWatchNextResults.secondaryResults
+    .secondaryResults.results[0].compactVideoRenderer;
+  const video = parseCompactVideoRenderer(renderer)!;
+  assert.equal(video.id, 'rv1hhhhhhhh');
+  assert.equal(video.title, '同一UP主的下一集');
+  assert.equal(video.authorId, 'UCgameStory001');
+  assert.equal(video.duration, 3521);
+  assert.equal(video.viewCount, 45678);
+  assert.equal(video.publishTime, '2天前');
+
+  // 没有 longBylineText 时使用 shortBylineText
+  const continued = loadFixture('next-continuation.json').onResponseReceivedEndpoints[0]
+    .appendContinuationItemsAction.continuationItems[0].compactVideoRenderer;
+  assert.equal(parseCompactVideoRenderer(continued)!.author, '另一个频道');
+});
+
+test('lockupViewModel: 元数据行、时长徽章，跳过非视频内容', async () => {
+  const contents = loadFixture('browse-home.json').contents.twoColumnBrowseResultsRenderer.tabs[0]
+    .tabRenderer.content.richGridRenderer.contents;
+  assert.deepEqual(parseLockupViewModel(contents[2].richItemRenderer.content.lockupViewModel), {
+    id: 'hv2bbbbbbbb',
+    title: 'Lo-fi 学习音乐 24小时',
+    author: 'Lofi Girl',
+    authorId: 'UClofiGirl002',
+    duration: 754,
+    url: 'https://www.youtube.com/watch?v=hv2bbbbbbbb',
+    platform: 'youtube',
+    description: '',
+    tags: [],
+    viewCount: 12000,
+    publishTime: '2周前',
+    thumbnail: 'https://i.ytimg.com/vi/hv2bbbbbbbb/hqdefault.jpg'
+  });
+  assert.equal(parseLockupViewModel(contents[3].richItemRenderer.content.lockupViewModel), null);
+
+  // 多个徽章时取能解析为时长的那个
+  const related = loadFixture('next.json').contents.twoColumnWatchNextResults.secondaryResults
+    .secondaryResults.results[1].lockupViewModel;
+  assert.equal(parseLockupViewModel(related)!.duration, 485);
+});
+
+test('reelItemRenderer 和 shortsLockupViewModel: Shorts 使用 /shorts/ 链接', async () => {
+  const shelf = loadFixture('browse-home.json').contents.twoColumnBrowseResultsRenderer.tabs[0]
+    .tabRenderer.content.richGridRenderer.contents[4].richSectionRenderer.content.richShelfRenderer.contents;
+
+  const reel = parseReelItemRenderer(shelf[0].richItemRenderer.content.reelItemRenderer)!;
+  assert.equal(reel.url, 'https://www.youtube.com/shorts/hs1cccccccc');
+  assert.equal(reel.title, '猫咪的一天 #shorts');
+  assert.equal(reel.viewCount, 3400000);
+
+  const short = parseShortsLockupViewModel(shelf[1].richItemRenderer.content.shortsLockupViewModel)!;
+  assert.equal(short.id, 'hs2dddddddd');
+  assert.equal(short.title, '三秒学会做蛋炒饭');
+  assert.equal(short.viewCount, 8700);
+  assert.equal(short.thumbnail, 'https://i.ytimg.com/vi/hs2dddddddd/oar2.jpg');
+});
+
+test('continuationItemRenderer: 首页、搜索和播放页的 token 位置', async () => {
+  assert.equal(parseContinuationItemRenderer({ continuationEndpoint: { continuationCommand: { token: 'a' } } }), 'a');
+  assert.equal(parseContinuationItemRenderer({ button: { buttonRenderer: { command: { continuationCommand: { token: 'b' } } } } }), 'b');
+  assert.equal(parseContinuationItemRenderer({}), null);
+});
+
+test('解析整个响应：跳过广告、顶栏和非视频内容，按顺序收集', async () => {
+  const page = parseInnerTubeResponse(loadFixture('browse-home.json'));
+  assert.deepEqual(page.videos.map(video => video.id), ['hv1aaaaaaaa', 'hv2bbbbbbbb', 'hs1cccccccc', 'hs2dddddddd']);
+  assert.equal(page.continuation, 'home-page-2');
+});
+
+test('播放页的下一页 token 不会取到评论区的', async () => {
+  const page = parseInnerTubeResponse(loadFixture('next.json'));
+  assert.deepEqual(page.videos.map(video => video.id), ['rv1hhhhhhhh', 'rv2iiiiiiii']);
+  assert.equal(page.continuation, 'related-page-2');
+});
+
+test('时长和播放量文本', async () => {
+  assert.equal(parseDuration('0:59'), 59);
+  assert.equal(parseDuration('LIVE'), 0);
+  assert.equal(parseDuration(''), 0);
+  assert.equal(parseViewCount('1.5亿次观看'), 150000000);
+  assert.equal(parseViewCount('2.1B views'), 2100000000);
+  assert.equal(parseViewCount('No views'), 0);
+});
+
+test('首页推荐：读取 ytcfg 后带上下文和授权头请求 browse，并翻页去重', async () => {
+  const client = createClient();
+  const videos = await client.browse('FEwhat_to_watch', 10);
+
+  assert.equal(requests[0].method, 'GET');
+  const [first, second] = requests.slice(1);
+  assert.equal(first.url, 'https://www.youtube.com/youtubei/v1/browse?prettyPrint=false&key=AIzaSyTestInnerTubeKey');
+  assert.equal(first.body.browseId, 'FEwhat_to_watch');
+  assert.equal(first.body.context.client.clientVersion, '2.20261015.00.00');
+  assert.equal(first.headers['X-Youtube-Client-Version'], '2.20261015.00.00');
+  assert.equal(first.headers['X-Goog-AuthUser'], '0');
+
+  const [timestamp, hash] = first.headers['Authorization'].replace('SAPISIDHASH ', '').split('_');
+  assert.equal(hash, createHash('sha1').update(`${timestamp} sapisid-value https://www.youtube.com`).digest('hex'));
+
+  assert.deepEqual(second.body, { context: first.body.context, continuation: 'home-page-2' });
+  assert.deepEqual(videos.map(video => video.id), ['hv1aaaaaaaa', 'hv2bbbbbbbb', 'hs1cccccccc', 'hs2dddddddd', 'hv3eeeeeeee']);
+  assert.equal(videos[4].viewCount, 980);
+
+  // ytcfg 只读取一次
+  requests.length = 0;
+  await client.browse('FEwhat_to_watch', 2);
+  assert.deepEqual(requests.map(request => request.method), ['POST']);
+});
+
+test('数量足够时不再翻页；没有登录 Cookie 时不带授权头', async () => {
+  const client = createClient('');
+  const videos = await client.browse('FEwhat_to_watch', 3);
+  assert.equal(videos.length, 3);
+  assert.equal(requests.filter(request => request.method === 'POST').length, 1);
+  assert.equal(requests[1].headers['Authorization'], undefined);
+});
+
+test('相关视频通过"显示更多"按钮的 token 翻页', async () => {
+  const client = createClient();
+  const videos = await client.next('seedvideo01', 10);
+  const posts = requests.filter(request => request.method === 'POST');
+  assert.equal(posts[0].body.videoId, 'seedvideo01');
+  assert.equal(posts[1].body.continuation, 'related-page-2');
+  assert.deepEqual(videos.map(video => video.id), ['rv1hhhhhhhh', 'rv2iiiiiiii', 'rv3jjjjjjjj']);
+});
+
+test('搜索最多请求 maxPages 页', async () => {
+  const client = createClient();
+  const videos = await client.search('原神', 10, 2);
+  const posts = requests.filter(request => request.method === 'POST');
+  assert.equal(posts.length, 2);
+  assert.equal(posts[0].body.query, '原神');
+  assert.deepEqual(videos.map(video => video.id), ['sv1kkkkkkkk', 'sv2llllllll', 'sv3mmmmmmmm']);
+});
+
+test('观看历史的第一个视频', async () => {
+  const client = createClient();
+  const [recent] = await client.browse('FEhistory', 1, 1);
+  assert.equal(recent.id, 'wh1ffffffff');
+});
+
+test('InnerTube 返回错误时抛出异常', async () => {
+  const client = createClient();
+  await assert.rejects(client.browse('FEsubscriptions'), /InnerTube browse请求失败: 401/);
+});
+
+async function runTests() {
+  logger.setLevel('error');
+
+  let failed = 0;
+  for (const [name, fn] of tests) {
+    try {
+      await fn();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`❌ ${name}`);
+      console.log(error);
+    }
+  }
+
+  console.log('');
+  console.log(`${tests.length - failed}/${tests.length} 通过`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runTests();
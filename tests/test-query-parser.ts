@@ -0,0 +1,98 @@
+import assert from 'assert/strict';
+import { parseQuery, formatQuery, collectQueryTerms, evaluateQuery, QueryFields } from '../src/matchers/query-parser.js';
+import { logger } from '../src/core/logger.js';
+
+/**
+ * 关键词查询表达式离线测试脚本
+ * 检查运算符优先级、字段前缀、求值结果和语法错误的报告
+ */
+function fields(title: string, tags: string[] = [], author: string = '', description: string = ''): QueryFields {
+  return { title, author, tags, description };
+}
+
+function matches(expression: string, video: QueryFields): boolean {
+  return evaluateQuery(parseQuery(expression), video, (term, texts) => texts.some(text => text.includes(term.toLowerCase())));
+}
+
+const tests: Array<[string, () => Promise<void>]> = [];
+function test(name: string, fn: () => Promise<void>) {
+  tests.push([name, fn]);
+}
+
+test('优先级: NOT 高于 AND，AND 高于 OR', async () => {
+  assert.equal(formatQuery(parseQuery('a OR b AND c')), '(a OR (b AND c))');
+  assert.equal(formatQuery(parseQuery('a AND b OR c')), '((a AND b) OR c)');
+  assert.equal(formatQuery(parseQuery('NOT a AND b')), '(NOT a AND b)');
+  assert.equal(formatQuery(parseQuery('NOT (a OR b)')), 'NOT (a OR b)');
+});
+
+test('相邻的词按 AND 连接，逗号等同于 OR，减号等同于 NOT', async () => {
+  assert.equal(formatQuery(parseQuery('a b, c')), '((a AND b) OR c)');
+  assert.equal(formatQuery(parseQuery('mujica -reaction')), '(mujica AND NOT reaction)');
+  assert.equal(formatQuery(parseQuery('(mujica OR "ave mujica") AND NOT reaction')), '((mujica OR "ave mujica") AND NOT reaction)');
+});
+
+test('引号短语和字段前缀', async () => {
+  assert.deepEqual(parseQuery('title:"ave mujica"'), { type: 'term', value: 'ave mujica', field: 'title' });
+  assert.deepEqual(parseQuery('up:kanae'), { type: 'term', value: 'kanae', field: 'author' });
+  assert.deepEqual(parseQuery('desc:live'), { type: 'term', value: 'live', field: 'description' });
+  // 未知前缀按普通词处理
+  assert.deepEqual(parseQuery('foo:bar'), { type: 'term', value: 'foo:bar' });
+});
+
+test('小写的 and/or/not 是普通词', async () => {
+  assert.equal(formatQuery(parseQuery('rock and roll')), '((rock AND and) AND roll)');
+});
+
+test('只收集不在 NOT 之下的词', async () => {
+  assert.deepEqual(collectQueryTerms(parseQuery('(a OR b) AND NOT c AND NOT NOT d')), ['a', 'b', 'd']);
+});
+
+test('求值: 字段前缀只在对应字段中查找', async () => {
+  const video = fields('ave mujica 第1话', ['bang dream'], 'kanae', 'live reaction');
+  assert.equal(matches('(mujica OR "ave mujica") AND NOT reaction', video), true);
+  assert.equal(matches('mujica AND NOT desc:reaction', video), false);
+  assert.equal(matches('tag:"bang dream" author:kanae', video), true);
+  assert.equal(matches('title:kanae', video), false);
+  // 未指定字段时不查找简介
+  assert.equal(matches('live', video), false);
+});
+
+test('语法错误报告位置', async () => {
+  const cases: Array<[string, RegExp]> = [
+    ['', /表达式为空/],
+    ['   ', /表达式为空/],
+    ['a AND', /表达式意外结束 \(位置 5\)/],
+    ['(a OR b', /缺少右括号，对应位置 0 的左括号/],
+    ['a OR b)', /意外的 右括号 \(位置 6\)/],
+    ['OR a', /意外的 OR \(位置 0\)/],
+    ['"ave mujica', /引号未闭合 \(位置 0\)/],
+    ['a ""', /空的引号短语 \(位置 2\)/],
+    ['title: a', /字段 title 缺少匹配内容 \(位置 0\)/]
+  ];
+  for (const [expression, message] of cases) {
+    assert.throws(() => parseQuery(expression), message, expression);
+  }
+});
+
+async function runTests() {
+  logger.setLevel('error');
+
+  let failed = 0;
+  for (const [name, fn] of tests) {
+    try {
+      await fn();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`❌ ${name}`);
+      console.log(error);
+    }
+  }
+
+  console.log('');
+  console.log(`${tests.length - failed}/${tests.length} 通过`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runTests();
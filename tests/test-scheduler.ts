@@ -0,0 +1,175 @@
+import assert from 'assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FeedingScheduler } from '../src/core/scheduler.js';
+import { AlgorithmFeeder } from '../src/core/feeder.js';
+import { AppConfig, ScheduleConfig, SessionStopReason } from '../src/types/index.js';
+import { logger } from '../src/core/logger.js';
+
+/**
+ * 定时调度离线测试脚本
+ * 检查时间窗口的判断（含跨午夜）、窗口内会话的重新开始和每日预算，喂养器用假的实现代替
+ */
+const tempDir = mkdtempSync(join(tmpdir(), 'scheduler-'));
+let stateIndex = 0;
+
+function createConfig(schedule: Partial<ScheduleConfig>): AppConfig {
+  return {
+    matcher: { keywords: ['mujica'], matchMode: 'any', caseSensitive: false },
+    browseCount: 10,
+    schedule: {
+      windows: [],
+      checkInterval: 1,
+      stateFile: join(tempDir, `state-${++stateIndex}.json`),
+      ...schedule
+    }
+  } as unknown as AppConfig;
+}
+
+function hhmm(date: Date): string {
+  return date.toISOString().slice(11, 16);
+}
+
+/**
+ * 覆盖当前时间的窗口（UTC，前后各一小时）
+ */
+function currentWindow(extra: Record<string, unknown> = {}) {
+  const now = Date.now();
+  return { name: 'now', days: ['everyday'], start: hhmm(new Date(now - 3600000)), end: hhmm(new Date(now + 3600000)), ...extra };
+}
+
+/**
+ * 假的喂养器：每次会话立即以给定的原因结束，并报告播放的视频数
+ */
+function fakeFeeder(session: { reason: SessionStopReason; videos: number }, onStart: () => void): AlgorithmFeeder {
+  let finished = false;
+  return {
+    async start() {
+      finished = true;
+      onStart();
+    },
+    async stop() {},
+    getSessionProgress: () => ({ videos: finished ? session.videos : 0 }),
+    getLastSummary: () => (finished ? { reason: session.reason, videos: session.videos } : undefined)
+  } as unknown as AlgorithmFeeder;
+}
+
+function readState(config: AppConfig): any {
+  return JSON.parse(readFileSync(config.schedule!.stateFile!, 'utf-8'));
+}
+
+const tests: Array<[string, () => Promise<void>]> = [];
+function test(name: string, fn: () => Promise<void>) {
+  tests.push([name, fn]);
+}
+
+test('跨午夜的窗口属于开始当天', async () => {
+  const scheduler = new FeedingScheduler(createConfig({
+    timezone: 'Asia/Shanghai',
+    windows: [{ name: 'evening', days: ['weekdays'], start: '19:00', end: '01:00' }]
+  }), () => fakeFeeder({ reason: 'manual', videos: 0 }, () => {}));
+
+  // 北京时间 2026-10-20 (周二) 00:30 属于周一开始的窗口
+  const active = scheduler.getActiveWindow(new Date('2026-10-19T16:30:00Z'));
+  assert.equal(active?.key, 'evening@2026-10-19');
+  assert.equal(active?.endsAt.toISOString(), '2026-10-19T17:00:00.000Z');
+
+  // 周六 00:30 属于周五开始的窗口，周日 00:30 不在窗口内
+  assert.equal(scheduler.getActiveWindow(new Date('2026-10-23T16:30:00Z'))?.key, 'evening@2026-10-23');
+  assert.equal(scheduler.getActiveWindow(new Date('2026-10-24T16:30:00Z')), null);
+  assert.equal(scheduler.getActiveWindow(new Date('2026-10-19T10:00:00Z')), null);
+});
+
+test('下一个窗口的开始时间', async () => {
+  const scheduler = new FeedingScheduler(createConfig({
+    timezone: 'Asia/Shanghai',
+    windows: [{ name: 'weekend', days: ['weekends'], start: '14:00', end: '18:00' }]
+  }), () => fakeFeeder({ reason: 'manual', videos: 0 }, () => {}));
+
+  const next = scheduler.getNextWindowStart(new Date('2026-10-19T02:00:00Z'));
+  assert.equal(next?.window.name, 'weekend');
+  assert.equal(next?.startsAt.toISOString(), '2026-10-24T06:00:00.000Z');
+});
+
+test('会话达到 BROWSE_COUNT 轮数后在窗口内重新开始，窗口不算完成', async () => {
+  const config = createConfig({ windows: [currentWindow({ keywords: ['ave mujica'] })] });
+  const configs: AppConfig[] = [];
+  let scheduler: FeedingScheduler;
+  scheduler = new FeedingScheduler(config, feederConfig => {
+    configs.push(feederConfig);
+    return fakeFeeder({ reason: 'max-rounds', videos: 2 }, () => {
+      if (configs.length === 2) {
+        void scheduler.stop();
+      }
+    });
+  });
+
+  // 没有重新开始时也要结束测试
+  const guard = setTimeout(() => void scheduler.stop(), 5000);
+  await scheduler.start();
+  clearTimeout(guard);
+
+  assert.equal(configs.length, 2);
+  assert.deepEqual(configs[0].matcher.keywords, ['ave mujica']);
+  const state = readState(config);
+  assert.equal(state.videosToday, 4);
+  const [windowState] = Object.values(state.windows) as any[];
+  assert.deepEqual(windowState, { videos: 4, completed: false });
+  assert.equal(state.lastRun.reason, 'max-rounds');
+});
+
+test('每日预算用完后窗口完成，不再重新开始', async () => {
+  const config = createConfig({ dailyVideoBudget: 3, windows: [currentWindow()] });
+  let starts = 0;
+  let scheduler: FeedingScheduler;
+  scheduler = new FeedingScheduler(config, feederConfig => {
+    assert.equal(feederConfig.maxVideosPerSession, 3);
+    return fakeFeeder({ reason: 'max-videos', videos: 3 }, () => {
+      starts++;
+      // 留出时间让调度器再检查一次窗口
+      setTimeout(() => void scheduler.stop(), 2500);
+    });
+  });
+
+  await scheduler.start();
+
+  assert.equal(starts, 1);
+  const state = readState(config);
+  assert.equal(state.videosToday, 3);
+  assert.deepEqual(Object.values(state.windows), [{ videos: 3, completed: true }]);
+});
+
+test('手动停止不算完成', async () => {
+  const config = createConfig({ windows: [currentWindow()] });
+  let scheduler: FeedingScheduler;
+  scheduler = new FeedingScheduler(config, feederConfig =>
+    fakeFeeder({ reason: 'manual', videos: 1 }, () => void scheduler.stop())
+  );
+
+  await scheduler.start();
+  assert.deepEqual(Object.values(readState(config).windows), [{ videos: 1, completed: false }]);
+});
+
+async function runTests() {
+  logger.setLevel('error');
+
+  let failed = 0;
+  for (const [name, fn] of tests) {
+    try {
+      await fn();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`❌ ${name}`);
+      console.log(error);
+    }
+  }
+  rmSync(tempDir, { recursive: true, force: true });
+
+  console.log('');
+  console.log(`${tests.length - failed}/${tests.length} 通过`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runTests();
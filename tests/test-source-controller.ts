@@ -0,0 +1,87 @@
+import assert from 'assert/strict';
+import { SourceController } from '../src/core/source-controller.js';
+import { logger } from '../src/core/logger.js';
+
+/**
+ * 自适应视频源离线测试脚本
+ * 检查未尝试视频源的优先级、按命中率选择，以及 related 回退到首页推荐时的记账
+ */
+function createController(exploration: number = 0): SourceController {
+  return new SourceController({ sources: ['home', 'related', 'short'], window: 3, exploration });
+}
+
+const tests: Array<[string, () => Promise<void>]> = [];
+function test(name: string, fn: () => Promise<void>) {
+  tests.push([name, fn]);
+}
+
+test('没有种子视频时不选择 related', async () => {
+  const controller = createController();
+  controller.recordRound('home', 10, 1);
+  assert.deepEqual(controller.selectSource(), { source: 'short', explored: true });
+  controller.recordRound('short', 10, 0);
+  assert.deepEqual(controller.selectSource(), { source: 'home', explored: false });
+});
+
+test('未尝试过的视频源优先', async () => {
+  const controller = createController();
+  controller.setRelatedSeedAvailable(true);
+  controller.recordRound('home', 10, 5);
+  controller.recordRound('short', 10, 5);
+  assert.deepEqual(controller.selectSource(), { source: 'related', explored: true });
+});
+
+test('related 回退到首页推荐时记一个空轮，之后按命中率比较', async () => {
+  const controller = createController();
+  controller.setRelatedSeedAvailable(true);
+  controller.recordRound('home', 10, 2);
+  controller.recordRound('short', 10, 1);
+
+  // 回退的一轮：related 获取 0 个，首页推荐记实际结果
+  assert.equal(controller.recordRound('related', 0, 0), 0);
+  controller.recordRound('home', 10, 2);
+  assert.deepEqual(controller.selectSource(), { source: 'home', explored: false });
+  assert.match(controller.describe(), /related 0\.0% \(1轮\)/);
+
+  // related 之后有了结果，命中率更高时会被选中
+  controller.recordRound('related', 10, 8);
+  assert.deepEqual(controller.selectSource(), { source: 'related', explored: false });
+});
+
+test('每个视频源只统计最近 window 轮', async () => {
+  const controller = createController();
+  controller.recordRound('home', 10, 10);
+  controller.recordRound('home', 10, 0);
+  controller.recordRound('home', 10, 0);
+  controller.recordRound('home', 10, 0);
+  assert.equal(controller.getHitRate('home'), 0);
+});
+
+test('以探索概率选择非最优视频源', async () => {
+  const controller = createController(1);
+  controller.recordRound('home', 10, 5);
+  controller.recordRound('short', 10, 1);
+  assert.deepEqual(controller.selectSource(), { source: 'short', explored: true });
+});
+
+async function runTests() {
+  logger.setLevel('error');
+
+  let failed = 0;
+  for (const [name, fn] of tests) {
+    try {
+      await fn();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`❌ ${name}`);
+      console.log(error);
+    }
+  }
+
+  console.log('');
+  console.log(`${tests.length - failed}/${tests.length} 通过`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runTests();
@@ -0,0 +1,183 @@
+import assert from 'assert/strict';
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { TwitchAPI } from '../src/platforms/twitch/twitch-api.js';
+import { TwitchPlatform } from '../src/platforms/twitch/twitch-platform.js';
+import { logger } from '../src/core/logger.js';
+
+/**
+ * Twitch平台离线测试脚本
+ * 用 tests/fixtures/twitch 下录制的 GQL 响应代替网络请求，检查解析结果和各视频源
+ */
+const fixtureDir = join(dirname(fileURLToPath(import.meta.url)), 'fixtures', 'twitch');
+
+const fixtures: Record<string, string> = {
+  RecommendedStreams: 'recommended-streams.json',
+  TopStreams: 'top-streams.json',
+  CategoryStreams: 'category-streams.json',
+  ChannelVideos: 'channel-videos.json',
+  SearchChannelsAndCategories: 'search.json'
+};
+
+const requests: Array<{ operationName: string; variables: any; headers: Record<string, string> }> = [];
+let failingOperation: string | null = null;
+
+function loadFixture(file: string): any {
+  return JSON.parse(readFileSync(join(fixtureDir, file), 'utf-8'));
+}
+
+// 按 operationName 返回录制的响应
+globalThis.fetch = (async (_url: string, init: any) => {
+  const { operationName, variables } = JSON.parse(init.body);
+  requests.push({ operationName, variables, headers: init.headers });
+
+  let body = loadFixture(operationName === failingOperation ? 'error.json' : fixtures[operationName]);
+  // 录制的录播响应只属于 kanae_vt，其他频道视为不存在
+  if (operationName === 'ChannelVideos' && variables.login !== 'kanae_vt') {
+    body = { data: { user: null } };
+  }
+  return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}) as typeof fetch;
+
+const tests: Array<[string, () => Promise<void>]> = [];
+function test(name: string, fn: () => Promise<void>) {
+  tests.push([name, fn]);
+}
+
+test('登录时获取个性化推荐直播，并带上 OAuth 令牌', async () => {
+  requests.length = 0;
+  const api = new TwitchAPI('auth-token=abc123; persistent=xyz', 5000);
+  const videos = await api.getRecommendedStreams(10);
+
+  assert.equal(requests[0].operationName, 'RecommendedStreams');
+  assert.equal(requests[0].headers['Authorization'], 'OAuth abc123');
+  assert.ok(requests[0].headers['Client-Id']);
+
+  // Clip 和空内容被忽略
+  assert.equal(videos.length, 2);
+  assert.deepEqual(videos[0], {
+    id: '41375954005',
+    title: '【原神】新版本剧情 第一次玩',
+    author: 'Kanae_VT',
+    authorId: '583271039',
+    url: 'https://www.twitch.tv/kanae_vt',
+    tags: ['Genshin Impact', '日本語', 'VTuber'],
+    platform: 'twitch',
+    viewCount: 1834,
+    publishTime: '2026-10-18T11:02:37Z',
+    thumbnail: 'https://static-cdn.jtvnw.net/previews-ttv/live_user_kanae_vt-440x248.jpg'
+  });
+
+  // 没有标题和分区的直播
+  assert.equal(videos[1].title, 'PixelCraft 的直播');
+  assert.deepEqual(videos[1].tags, []);
+});
+
+test('未登录时使用热门直播，跳过没有主播信息的直播', async () => {
+  requests.length = 0;
+  const api = new TwitchAPI('', 5000);
+  const videos = await api.getRecommendedStreams(10);
+
+  assert.deepEqual(requests.map(request => request.operationName), ['TopStreams']);
+  assert.equal(requests[0].headers['Authorization'], undefined);
+  assert.equal(requests[0].variables.first, 10);
+  assert.deepEqual(videos.map(video => video.id), ['41376011112']);
+});
+
+test('GQL 返回错误时推荐为空', async () => {
+  failingOperation = 'TopStreams';
+  try {
+    const videos = await new TwitchAPI('', 5000).getRecommendedStreams(10);
+    assert.deepEqual(videos, []);
+  } finally {
+    failingOperation = null;
+  }
+});
+
+test('浏览分区直播', async () => {
+  const videos = await new TwitchAPI('', 5000).getCategoryStreams('Genshin Impact', 10);
+  assert.deepEqual(videos.map(video => video.author), ['Kanae_VT', 'AbyssWalker']);
+});
+
+test('频道录播使用 v 前缀的ID和录播链接', async () => {
+  const [vod] = await new TwitchAPI('', 5000).getChannelVideos('kanae_vt', 5);
+  assert.equal(vod.id, 'v2271804455');
+  assert.equal(vod.url, 'https://www.twitch.tv/videos/2271804455');
+  assert.equal(vod.duration, 11520);
+  assert.equal(vod.description, 'アーカイブ');
+  assert.deepEqual(vod.tags, ['Genshin Impact']);
+});
+
+test('相关内容为同分区的其他直播和同频道录播', async () => {
+  const api = new TwitchAPI('auth-token=abc123', 5000);
+  const [seed] = await api.getRecommendedStreams(10);
+
+  requests.length = 0;
+  const related = await api.getRelatedVideos(seed.id, 8);
+  assert.equal(requests[0].variables.name, 'Genshin Impact');
+  assert.equal(requests[1].variables.login, 'kanae_vt');
+  assert.deepEqual(related.map(video => video.id), ['41375960077', 'v2271804455']);
+
+  // 没有获取过的内容无法查找相关内容
+  assert.deepEqual(await api.getRelatedVideos('unknown'), []);
+});
+
+test('搜索返回频道直播、未开播频道的录播和分区直播（去重）', async () => {
+  requests.length = 0;
+  const videos = await new TwitchAPI('', 5000).searchVideos('kanae', 10);
+
+  assert.equal(requests[0].variables.query, 'kanae');
+  assert.ok(requests.some(request => request.operationName === 'ChannelVideos' && request.variables.login === 'kanae_sub'));
+  assert.deepEqual(videos.map(video => video.id), ['41375954005', '41375960077']);
+});
+
+test('TwitchPlatform 按视频源获取推荐', async () => {
+  const platform = new TwitchPlatform({ name: 'twitch', baseUrl: 'https://www.twitch.tv', cookies: 'auth-token=abc123' }, true, 10);
+
+  const home = await platform.getRecommendedVideos();
+  assert.equal(home.length, 2);
+
+  platform.switchVideoSource('related');
+  platform.setRelatedSeed(home[0].id);
+  const related = await platform.getRecommendedVideos();
+  assert.deepEqual(related.map(video => video.id), ['41375960077', 'v2271804455']);
+
+  platform.switchVideoSource('short');
+  const vods = await platform.getRecommendedVideos();
+  assert.deepEqual(vods.map(video => video.id), ['v2271804455']);
+
+  // 没有种子时 related 本轮回退到首页推荐，当前视频源不变
+  const fresh = new TwitchPlatform({ name: 'twitch', baseUrl: 'https://www.twitch.tv', cookies: '' }, true, 10);
+  fresh.switchVideoSource('related');
+  assert.deepEqual((await fresh.getRecommendedVideos()).map(video => video.id), ['41376011112']);
+  assert.equal(fresh.getCurrentVideoSource(), 'related');
+  assert.equal(fresh.getFallbackSource(), 'home');
+
+  // 有种子后不再回退
+  fresh.setRelatedSeed('41376011112');
+  await fresh.getRecommendedVideos();
+  assert.equal(fresh.getFallbackSource(), null);
+});
+
+async function runTests() {
+  logger.setLevel('error');
+
+  let failed = 0;
+  for (const [name, fn] of tests) {
+    try {
+      await fn();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`❌ ${name}`);
+      console.log(error);
+    }
+  }
+
+  console.log('');
+  console.log(`${tests.length - failed}/${tests.length} 通过`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runTests();
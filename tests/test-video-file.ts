@@ -0,0 +1,86 @@
+import assert from 'assert/strict';
+import { mkdtempSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { readVideoFile } from '../src/utils/video-file.js';
+import { logger } from '../src/core/logger.js';
+
+/**
+ * 视频文件读取离线测试脚本
+ * 用 tests/fixtures/match-explain 下的推荐快照检查 match-explain 和语义匹配种子文件能读取的各种文件格式
+ */
+const fixtureDir = join(dirname(fileURLToPath(import.meta.url)), 'fixtures', 'match-explain');
+const tempDir = mkdtempSync(join(tmpdir(), 'video-file-'));
+
+function writeTemp(name: string, content: unknown): string {
+  const path = join(tempDir, name);
+  writeFileSync(path, typeof content === 'string' ? content : JSON.stringify(content), 'utf-8');
+  return path;
+}
+
+const snapshot = JSON.parse(readFileSync(join(fixtureDir, 'feed-snapshot.json'), 'utf-8'));
+const [first, second] = snapshot.videos.map((item: any) => item.video);
+
+const tests: Array<[string, () => Promise<void>]> = [];
+function test(name: string, fn: () => Promise<void>) {
+  tests.push([name, fn]);
+}
+
+test('推荐快照: 展开 videos 中每一项的 video', async () => {
+  assert.deepEqual(readVideoFile(join(fixtureDir, 'feed-snapshot.json')).map(video => video.id), ['BV1Wb4y1X7aa', 'BV1Pq4y1Z7bb']);
+});
+
+test('JSONL 推荐快照: 每行展开 videos 中的视频', async () => {
+  const videos = readVideoFile(join(fixtureDir, 'feed-snapshots.jsonl'));
+  assert.deepEqual(videos.map(video => video.id), ['BV1Wb4y1X7aa', 'BV1Pq4y1Z7bb', 'BV1Hc4y1K7cc']);
+  assert.equal(videos[0].duration, 1520);
+});
+
+test('JSONL 观看历史: 取出每行的 video，跳过损坏的行', async () => {
+  const lines = [JSON.stringify({ video: first, matchedKeywords: ['mujica'] }), '{"video": {', JSON.stringify(second)];
+  assert.deepEqual(readVideoFile(writeTemp('history.jsonl', lines.join('\n'))), [first, second]);
+});
+
+test('多个推荐快照组成的数组', async () => {
+  const path = writeTemp('snapshots.json', [snapshot, { ...snapshot, videos: snapshot.videos.slice(1) }]);
+  assert.deepEqual(readVideoFile(path).map(video => video.id), ['BV1Wb4y1X7aa', 'BV1Pq4y1Z7bb', 'BV1Pq4y1Z7bb']);
+});
+
+test('单个 VideoInfo、VideoInfo 数组和带 video 字段的记录', async () => {
+  assert.deepEqual(readVideoFile(writeTemp('single.json', first)), [first]);
+  assert.deepEqual(readVideoFile(writeTemp('array.json', [first, second])), [first, second]);
+  assert.deepEqual(readVideoFile(writeTemp('records.json', [{ video: second, timestamp: snapshot.timestamp }])), [second]);
+});
+
+test('忽略缺少 id 或 title 的条目', async () => {
+  const path = writeTemp('invalid.json', [first, { id: 'BV1' }, { title: 'no id' }, null, { videos: [{ match: {} }] }]);
+  assert.deepEqual(readVideoFile(path), [first]);
+});
+
+test('无法解析的 JSON 抛出异常', async () => {
+  assert.throws(() => readVideoFile(writeTemp('broken.json', '{"videos": [')));
+});
+
+async function runTests() {
+  logger.setLevel('error');
+
+  let failed = 0;
+  for (const [name, fn] of tests) {
+    try {
+      await fn();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`❌ ${name}`);
+      console.log(error);
+    }
+  }
+  rmSync(tempDir, { recursive: true, force: true });
+
+  console.log('');
+  console.log(`${tests.length - failed}/${tests.length} 通过`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runTests();
@@ -0,0 +1,181 @@
+import assert from 'assert/strict';
+import axios from 'axios';
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { WbiSigner, extractWbiKeys, getMixinKey, signWbiParams } from '../src/platforms/bilibili/wbi-signer.js';
+import { BilibiliAPI } from '../src/platforms/bilibili/bilibili-api.js';
+import { logger } from '../src/core/logger.js';
+
+/**
+ * B站 WBI 签名离线测试脚本
+ * 用公开的已知向量检查签名算法，用 tests/fixtures/bilibili 下录制的响应检查密钥缓存和接口签名
+ */
+const fixtureDir = join(dirname(fileURLToPath(import.meta.url)), 'fixtures', 'bilibili');
+
+function loadFixture(file: string): any {
+  return JSON.parse(readFileSync(join(fixtureDir, file), 'utf-8'));
+}
+
+// 已知向量：这组密钥对应的 mixin key 和签名结果
+const KEYS = { imgKey: '7cd084941338484aae1ad9425b84077c', subKey: '4932caff0ff746eab6f01bf08b70ac45' };
+const MIXIN_KEY = 'ea1db124af3c7062474693fa704f4ff8';
+const WTS = 1702204169;
+
+// 按请求路径返回录制的响应，riskControlOnce 为真时第一次 /wbi/ 请求返回 -352
+const requests: Array<{ url: string; params: Record<string, any> }> = [];
+let riskControlOnce = false;
+
+axios.defaults.adapter = async (config: any) => {
+  requests.push({ url: config.url, params: { ...config.params } });
+
+  let file = 'nav.json';
+  if (config.url.includes('/wbi/') && riskControlOnce) {
+    riskControlOnce = false;
+    file = 'risk-control.json';
+  } else if (config.url.includes('/index/top/feed/rcmd')) {
+    file = 'feed-rcmd.json';
+  } else if (config.url.includes('/search/type')) {
+    file = 'search-type.json';
+  }
+  return { data: loadFixture(file), status: 200, statusText: 'OK', headers: {}, config };
+};
+
+function createApi(): BilibiliAPI {
+  requests.length = 0;
+  return new BilibiliAPI({ name: 'bilibili', baseUrl: 'https://www.bilibili.com', cookies: '' }, 12, 5000);
+}
+
+const tests: Array<[string, () => Promise<void>]> = [];
+function test(name: string, fn: () => Promise<void>) {
+  tests.push([name, fn]);
+}
+
+test('从 nav 数据中取出 img_key 和 sub_key', async () => {
+  assert.deepEqual(extractWbiKeys(loadFixture('nav.json').data), KEYS);
+  assert.equal(extractWbiKeys({}), null);
+  assert.equal(extractWbiKeys(undefined), null);
+});
+
+test('已知向量: mixin key', async () => {
+  assert.equal(getMixinKey(KEYS), MIXIN_KEY);
+});
+
+test('已知向量: 按键名排序后签名', async () => {
+  const signed = signWbiParams({ foo: '114', bar: '514', zab: 1919810 }, MIXIN_KEY, WTS);
+  assert.deepEqual(signed, {
+    foo: '114',
+    bar: '514',
+    zab: '1919810',
+    wts: '1702204169',
+    w_rid: '8f6f2b5b3d485fe1886cec6a0be8c5d4'
+  });
+});
+
+test('已知向量: 中文和空格按 encodeURIComponent 编码，过滤 !\'()* 字符', async () => {
+  const signed = signWbiParams({ keyword: '原神 (剧情)!', search_type: 'video', page: 2 }, MIXIN_KEY, WTS);
+  assert.equal(signed.keyword, '原神 剧情');
+  assert.equal(signed.w_rid, '4a932a09d9825a37bd741e561a1218f2');
+});
+
+test('值为 undefined 的参数不参与签名', async () => {
+  const signed = signWbiParams({ foo: '114', bar: '514', zab: 1919810, empty: undefined }, MIXIN_KEY, WTS);
+  assert.equal(signed.w_rid, '8f6f2b5b3d485fe1886cec6a0be8c5d4');
+  assert.ok(!('empty' in signed));
+});
+
+test('密钥只获取一次，并发签名共用同一次请求', async () => {
+  let fetches = 0;
+  const signer = new WbiSigner(async () => {
+    fetches++;
+    return loadFixture('nav.json').data;
+  });
+
+  const [first, second] = await Promise.all([signer.sign({ a: 1 }), signer.sign({ b: 2 })]);
+  await signer.sign({ c: 3 });
+  assert.equal(fetches, 1);
+  assert.ok(first.w_rid && second.w_rid && first.wts);
+
+  signer.invalidate();
+  await signer.sign({ d: 4 });
+  assert.equal(fetches, 2);
+});
+
+test('已有 nav 数据时不再请求；获取失败时不带签名', async () => {
+  let fetches = 0;
+  const signer = new WbiSigner(async () => {
+    fetches++;
+    throw new Error('network down');
+  });
+  assert.deepEqual(await signer.sign({ a: 1 }), { a: 1 });
+
+  signer.updateKeys(loadFixture('nav.json').data);
+  const signed = await signer.sign({ a: 1 });
+  assert.equal(fetches, 1);
+  assert.equal(signed.w_rid.length, 32);
+});
+
+test('checkConnection 缓存密钥，首页推荐请求带上签名', async () => {
+  const api = createApi();
+  await api.checkConnection();
+  const videos = await api.getHomeFeedRecommendations();
+
+  assert.deepEqual(requests.map(request => new URL(request.url).pathname), [
+    '/x/web-interface/nav',
+    '/x/web-interface/wbi/index/top/feed/rcmd'
+  ]);
+  const { w_rid, wts, ...params } = requests[1].params;
+  assert.equal(params.fresh_idx, '1');
+  assert.equal(w_rid, signWbiParams(params, MIXIN_KEY, Number(wts)).w_rid);
+  assert.deepEqual(videos.map(video => video.id), ['BV1Wb4y1X7aa']);
+});
+
+test('搜索使用 /wbi/ 接口，没有缓存时先获取密钥；非 WBI 接口不签名', async () => {
+  const api = createApi();
+  const videos = await api.searchVideos('原神');
+  assert.deepEqual(requests.map(request => new URL(request.url).pathname), [
+    '/x/web-interface/nav',
+    '/x/web-interface/wbi/search/type'
+  ]);
+  assert.equal(requests[1].params.keyword, '原神');
+  assert.ok(requests[1].params.w_rid);
+  assert.equal(requests[0].params.w_rid, undefined);
+  assert.equal(videos[0].id, 'BV1Pq4y1Z7bb');
+});
+
+test('风控校验失败 (-352) 后重新获取密钥', async () => {
+  const api = createApi();
+  await api.checkConnection();
+
+  riskControlOnce = true;
+  assert.deepEqual(await api.searchVideos('原神'), []);
+  await api.searchVideos('原神');
+  assert.deepEqual(requests.map(request => new URL(request.url).pathname), [
+    '/x/web-interface/nav',
+    '/x/web-interface/wbi/search/type',
+    '/x/web-interface/nav',
+    '/x/web-interface/wbi/search/type'
+  ]);
+});
+
+async function runTests() {
+  logger.setLevel('error');
+
+  let failed = 0;
+  for (const [name, fn] of tests) {
+    try {
+      await fn();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`❌ ${name}`);
+      console.log(error);
+    }
+  }
+
+  console.log('');
+  console.log(`${tests.length - failed}/${tests.length} 通过`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runTests();